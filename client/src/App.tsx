@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -7,16 +7,42 @@ import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import LoginPage from "@/pages/login";
 import DashboardLayout from "@/components/layout/dashboard-layout";
 import Dashboard from "@/pages/dashboard";
+import CampaignCalendar from "@/pages/campaign-calendar";
 import CreateCampaign from "@/pages/create-campaign";
 import ProductManagement from "@/pages/product-management";
 import TemplateUpload from "@/pages/template-upload";
 import LogoUpload from "@/pages/logo-upload";
 import SocialMedia from "@/pages/social-media";
 import Statistics from "@/pages/statistics";
+import ProductReport from "@/pages/product-report";
+import Exports from "@/pages/exports";
+import Branches from "@/pages/branches";
+import Users from "@/pages/users";
+import Profile from "@/pages/profile";
 import NotFound from "@/pages/not-found";
+import PublicBrochure from "@/pages/public-brochure";
+import EmbedBrochure from "@/pages/embed-brochure";
 
 function AppRouter() {
-  const { user } = useAuth();
+  const { user, isLoading } = useAuth();
+  // Shared brochures are open to everyone, signed in or not
+  const [isSharedBrochure, params] = useRoute("/b/:slug");
+  const [isEmbed, embedParams] = useRoute("/embed/:slug");
+
+  if (isSharedBrochure) {
+    return <PublicBrochure slug={params.slug} />;
+  }
+  if (isEmbed) {
+    return <EmbedBrochure slug={embedParams.slug} />;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
 
   if (!user) {
     return <LoginPage />;
@@ -27,12 +53,18 @@ function AppRouter() {
       <Switch>
         <Route path="/" component={Dashboard} />
         <Route path="/dashboard" component={Dashboard} />
+        <Route path="/calendar" component={CampaignCalendar} />
         <Route path="/create-campaign" component={CreateCampaign} />
         <Route path="/product-management" component={ProductManagement} />
         <Route path="/template-upload" component={TemplateUpload} />
         <Route path="/logo-upload" component={LogoUpload} />
         <Route path="/social-media" component={SocialMedia} />
         <Route path="/statistics" component={Statistics} />
+        <Route path="/product-report" component={ProductReport} />
+        <Route path="/exports" component={Exports} />
+        <Route path="/branches" component={Branches} />
+        <Route path="/users" component={Users} />
+        <Route path="/profile" component={Profile} />
         <Route component={NotFound} />
       </Switch>
     </DashboardLayout>
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import type { AuditAction, AuditEntityType, AuditEvent } from "@shared/schema";
+
+type AuditEntry = AuditEvent & { actorName: string | null };
+
+interface HistoryFilter {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  campaignId?: number;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const actionColors: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+const entityLabels: Record<AuditEntityType, string> = {
+  campaign: "Campaign",
+  campaign_product: "Placed product",
+  product: "Product",
+  template: "Template",
+  logo: "Logo",
+  branch: "Branch",
+  user: "User",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function HistoryPanel(filter: HistoryFilter) {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+
+  const { data: events = [], isLoading, error } = useQuery<AuditEntry[]>({
+    queryKey: ["/api/audit", params.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch history");
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-12 bg-gray-200 rounded animate-pulse"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{(error as Error).message}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">No changes recorded yet</p>;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="border-b border-gray-100 pb-3 last:border-0">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge className={actionColors[event.action]}>{actionLabels[event.action]}</Badge>
+              <span className="font-medium text-gray-900">
+                {entityLabels[event.entityType]} #{event.entityId}
+              </span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {format(new Date(event.createdAt), "dd.MM.yyyy HH:mm")}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {/* Status changes made by the campaign scheduler have no actor */}
+            by {event.actorId === null ? "the scheduler" : event.actorName || "Unknown user"}
+          </p>
+          <dl className="mt-2 space-y-1 text-xs">
+            {Object.entries(event.changes).map(([field, change]) => (
+              <div key={field} className="grid grid-cols-[8rem_1fr] gap-2">
+                <dt className="text-gray-600 truncate">{field}</dt>
+                <dd className="text-gray-900 break-all">
+                  {event.action === "update" ? (
+                    <>
+                      <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+                      {" → "}
+                      {formatValue(change.after)}
+                    </>
+                  ) : (
+                    formatValue(event.action === "delete" ? change.before : change.after)
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// "History" button that opens the panel in a dialog
+export function HistoryDialog({
+  title,
+  showLabel = false,
+  ...filter
+}: HistoryFilter & { title: string; showLabel?: boolean }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="History">
+          <History className={showLabel ? "w-4 h-4 mr-2" : "w-4 h-4"} />
+          {showLabel && "History"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto pr-2">
+          {open && <HistoryPanel {...filter} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
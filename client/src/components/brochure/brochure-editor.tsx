@@ -1,5 +1,6 @@
 //#region imports
 import { useState, useRef, useEffect } from "react";
+import { flushSync } from "react-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -40,13 +41,60 @@ import {
   Instagram,
   Facebook,
   Twitter,
+  PenTool,
+  Film,
 } from "lucide-react";
 import { format } from "date-fns";
 import { tr } from "date-fns/locale";
 import { cn } from "@/lib/utils";
+import { canvasToBlob, composePrintSheet } from "@/lib/print-export";
 import { useToast } from "@/hooks/use-toast";
-import { useLocation } from "wouter";
-import type { Product, CampaignProduct, Template, Logo } from "@shared/schema";
+import { Link, useLocation } from "wouter";
+import { HistoryDialog } from "@/components/audit/history-panel";
+import { Progress } from "@/components/ui/progress";
+import { useExportJob } from "@/hooks/use-export-job";
+import { usePriceConflicts } from "@/hooks/use-price-conflicts";
+import { PriceConflictList } from "@/components/brochure/price-conflict-list";
+import {
+  slideshowOptionsSchema,
+  type Product,
+  type CampaignProduct,
+  type Template,
+  type Logo,
+  type Branch,
+  type DraftDownload,
+  type ExportFileType,
+  type SlideshowFileType,
+  type SlideshowOptions,
+  type SlideshowTransition,
+} from "@shared/schema";
+import {
+  BROCHURE_LAYOUT_VERSION,
+  DEFAULT_BROCHURE_LAYOUT,
+  OUTPUT_FORMATS,
+  getPageGeometry,
+  outputFormats,
+  parseBrochureLayout,
+  reflowPoint,
+  type BrochureLayout,
+  type OutputFormat,
+} from "@shared/layout";
+import {
+  MAX_ITEMS_PER_PAGE,
+  findOverfullPages,
+  getAdaptiveGridGeometry,
+  getAutoLayoutPositions,
+  getProductCell,
+  snapToNearestCell,
+} from "@shared/layout-engine";
+import {
+  PRINT_DPI,
+  PRINT_PRESETS,
+  getPrintSheet,
+  mmToPx,
+  printPresets,
+  type PrintPreset,
+} from "@shared/print";
 //#endregion
 
 // Constants for design defaults
@@ -95,6 +143,8 @@ export default function BrochureEditor({
   const [endDate, setEndDate] = useState<Date>();
   const [campaignName, setCampaignName] = useState("");
   const [campaignDescription, setCampaignDescription] = useState("");
+  // New campaigns are saved as drafts unless the user publishes them
+  const [publishOnSave, setPublishOnSave] = useState(false);
   const [isCreateCampaignOpen, setIsCreateCampaignOpen] = useState(false);
   const [isDownloadOpen, setIsDownloadOpen] = useState(false);
   const [draggedElement, setDraggedElement] = useState<string | null>(null);
@@ -111,17 +161,39 @@ export default function BrochureEditor({
   // Style & template controls
   const [showSupermarketTemplate, setShowSupermarketTemplate] = useState(true);
   const [footerBgColor, setFooterBgColor] = useState<string>(DEFAULT_BACKGROUND_COLOR);
-  const [titleColor, setTitleColor] = useState<string>("#ffffff"); // white
+  const [titleColor, setTitleColor] = useState<string>(
+    DEFAULT_BROCHURE_LAYOUT.titleColor
+  );
   const [titleFont, setTitleFont] = useState<string>(
-    "'Anton', 'Gotham', 'TT Fors', 'Bebas Neue', 'Montserrat', 'Arial Black', sans-serif"
+    DEFAULT_BROCHURE_LAYOUT.titleFont
   );
   const [pages, setPages] = useState<number>(initialPages);
   // Instagram format selection: "4:5" (1080x1350) or "1:1" (1080x1080)
-  const [instagramFormat, setInstagramFormat] = useState<"4:5" | "1:1">("4:5");
-  const [elementPositions, setElementPositions] = useState({
-    companyName: { x: 16, y: 16 },
-    dateRange: { x: 450, y: 32 },
-  });
+  const [instagramFormat, setInstagramFormat] = useState<"4:5" | "1:1">(
+    DEFAULT_BROCHURE_LAYOUT.instagramFormat
+  );
+  // Paper output; null keeps the Instagram canvas
+  const [printPreset, setPrintPreset] = useState<PrintPreset | null>(
+    DEFAULT_BROCHURE_LAYOUT.printPreset
+  );
+  const [bleedMm, setBleedMm] = useState(DEFAULT_BROCHURE_LAYOUT.bleedMm);
+  const [safeMarginMm, setSafeMarginMm] = useState(
+    DEFAULT_BROCHURE_LAYOUT.safeMarginMm
+  );
+  // Extra formats the campaign is published in, and the one shown on the
+  // canvas instead of the editor format (null)
+  const [targetFormats, setTargetFormats] = useState<OutputFormat[]>(
+    DEFAULT_BROCHURE_LAYOUT.outputFormats
+  );
+  const [previewFormat, setPreviewFormat] = useState<OutputFormat | null>(null);
+  const [downloadFormat, setDownloadFormat] = useState<OutputFormat | null>(null);
+  const [slideshowType, setSlideshowType] = useState<SlideshowFileType>("mp4");
+  const [slideshowOptions, setSlideshowOptions] = useState<SlideshowOptions>(
+    slideshowOptionsSchema.parse({})
+  );
+  const [elementPositions, setElementPositions] = useState(
+    DEFAULT_BROCHURE_LAYOUT.elementPositions
+  );
   const [productPositions, setProductPositions] = useState<
     Record<number, { x: number; y: number }>
   >({});
@@ -155,12 +227,39 @@ export default function BrochureEditor({
 
   // Header/Footer editable content
   const [footerAddress, setFooterAddress] = useState<string>(
-    "Kazımkarabekir Mah. Şht. Sblv. Beylerbeyi Sit. A Blok No:26 İlkadım/SAMSUN"
+    DEFAULT_BROCHURE_LAYOUT.footerAddress
+  );
+  const [socialInstagram, setSocialInstagram] = useState<string>(
+    DEFAULT_BROCHURE_LAYOUT.social.instagram
+  );
+  const [socialFacebook, setSocialFacebook] = useState<string>(
+    DEFAULT_BROCHURE_LAYOUT.social.facebook
+  );
+  const [socialTwitter, setSocialTwitter] = useState<string>(
+    DEFAULT_BROCHURE_LAYOUT.social.twitter
+  );
+  // Branch the brochure is published for; null means chain-wide
+  const [branchId, setBranchId] = useState<number | null>(null);
+
+  // A saved campaign brings its own design; the automatic pagination and
+  // auto-layout effects below must not overwrite it on load.
+  const hasSavedLayout = !!campaign?.layout;
+  // Saving an existing campaign updates it in place instead of creating a copy
+  const isExistingCampaign = !!campaign?.id;
+
+  // Shown in the save dialog, before the campaign is published
+  const { data: priceConflicts = [] } = usePriceConflicts(
+    {
+      campaignId: isExistingCampaign ? campaign.id : undefined,
+      startDate: startDate ?? null,
+      endDate: endDate ?? null,
+      products: selectedProducts.map((item) => ({
+        productId: item.product.id,
+        newPrice: item.newPrice,
+      })),
+    },
+    isCreateCampaignOpen
   );
-  const [socialInstagram, setSocialInstagram] =
-    useState<string>("karataymarket");
-  const [socialFacebook, setSocialFacebook] = useState<string>("karataymarket");
-  const [socialTwitter, setSocialTwitter] = useState<string>("karataymarket");
 
   // Add/Remove pages
   const addPage = () => setPages((prev) => prev + 1);
@@ -185,10 +284,31 @@ export default function BrochureEditor({
     if (campaign) {
       setCampaignName(campaign.name || "");
       setCampaignDescription(campaign.description || "");
+      setPublishOnSave(!!campaign.status && campaign.status !== "draft");
       setCompanyName(campaign.companyName || user?.username || "Your Company Name");
       setSelectedTemplateId(campaign.templateId || null);
+      setBranchId(campaign.branchId ?? null);
       if (campaign.startDate) setStartDate(new Date(campaign.startDate));
       if (campaign.endDate) setEndDate(new Date(campaign.endDate));
+      if (campaign.layout) {
+        const layout = parseBrochureLayout(campaign.layout);
+        setPages(layout.pageCount);
+        setInstagramFormat(layout.instagramFormat);
+        setPrintPreset(layout.printPreset);
+        setBleedMm(layout.bleedMm);
+        setSafeMarginMm(layout.safeMarginMm);
+        setTargetFormats(layout.outputFormats);
+        setShowCompanyName(layout.showCompanyName);
+        setTitleColor(layout.titleColor);
+        setTitleFont(layout.titleFont);
+        setFooterBgColor(layout.footerBgColor);
+        setFooterAddress(layout.footerAddress);
+        setSocialInstagram(layout.social.instagram);
+        setSocialFacebook(layout.social.facebook);
+        setSocialTwitter(layout.social.twitter);
+        setElementPositions(layout.elementPositions);
+        setDatePositions(layout.datePositions);
+      }
     }
   }, [campaign, user]);
 
@@ -211,204 +331,40 @@ export default function BrochureEditor({
     }
   };
 
-  // Get canvas dimensions based on Instagram format
-  const getCanvasDimensions = () => {
-    if (isDesignMode) {
-      return instagramFormat === "4:5"
-        ? { width: 540, height: 675 } // 1080/2 x 1350/2
-        : { width: 540, height: 540 }; // 1080/2 x 1080/2
-    } else {
-      return instagramFormat === "4:5"
-        ? { width: 400, height: 500 } // Scaled for preview
-        : { width: 400, height: 400 }; // Scaled for preview
-    }
-  };
-
-  // Calculate dynamic product size and layout based on product count per page
-  const calculateDynamicLayout = (
-    productCount: number,
-    canvasWidth: number,
-    canvasHeight: number
-  ) => {
-    const marginX = 40;
-    // Area between banner (top 120 + 44) and footer (80)
-    const gridTop = 120 + 44 + 16;
-    const gridBottomOffset = 80 + 16;
-    const marginY = gridTop; // starting y for products
-    const availableWidth = canvasWidth - 2 * marginX;
-    const availableHeight = canvasHeight - gridTop - gridBottomOffset;
-
-    let gridCols, gridRows, productSize;
-
-    if (productCount === 1) {
-      gridCols = 1;
-      gridRows = 1;
-      // Maximum size for single product to fully utilize space
-      productSize = Math.min(380, availableWidth * 0.9, availableHeight * 0.8);
-    } else if (productCount === 2) {
-      gridCols = 2;
-      gridRows = 1;
-      // Very large size for 2 products to fill most of the width
-      productSize = Math.min(300, (availableWidth - 20) / 2);
-    } else if (productCount === 3) {
-      gridCols = 3;
-      gridRows = 1;
-      // Large size for 3 products to fill the width completely
-      productSize = Math.min(240, (availableWidth - 40) / 3);
-    } else if (productCount === 4) {
-      gridCols = 2;
-      gridRows = 2;
-      // Large 2x2 grid filling most of the available space
-      productSize = Math.min(
-        220,
-        Math.min((availableWidth - 20) / 2, (availableHeight - 20) / 2)
-      );
-    } else if (productCount <= 6) {
-      gridCols = 3;
-      gridRows = 2;
-      // 3x2 grid with decent sizing
-      productSize = Math.min(
-        150,
-        Math.min((availableWidth - 60) / 3, (availableHeight - 30) / 2)
-      );
-    } else if (productCount <= 9) {
-      gridCols = 3;
-      gridRows = 3;
-      // 3x3 grid with moderate sizing
-      productSize = Math.min(
-        130,
-        Math.min((availableWidth - 60) / 3, (availableHeight - 60) / 3)
-      );
-    } else if (productCount <= 12) {
-      gridCols = 4;
-      gridRows = 3;
-      // 4x3 grid for better organization
-      productSize = Math.min(
-        110,
-        Math.min((availableWidth - 90) / 4, (availableHeight - 60) / 3)
-      );
-    } else {
-      gridCols = 4;
-      gridRows = Math.ceil(productCount / 4);
-      // Compact sizing for many products
-      productSize = Math.min(
-        100,
-        Math.min(
-          (availableWidth - 90) / 4,
-          (availableHeight - (gridRows - 1) * 20) / gridRows
-        )
-      );
-    }
+  // The editor format, and the format the canvas currently shows
+  const designGeometry = getPageGeometry({ instagramFormat, printPreset });
+  const pageGeometry = getPageGeometry({ instagramFormat, printPreset }, previewFormat);
+  const { zones } = pageGeometry;
+  const shownPrintPreset = pageGeometry.printPreset;
 
+  // Get canvas dimensions based on the Instagram format or paper size
+  const getCanvasDimensions = () => {
+    if (isDesignMode) return { width: pageGeometry.width, height: pageGeometry.height };
+    // Scaled for preview
     return {
-      gridCols,
-      gridRows,
-      productSize: Math.max(90, productSize), // Higher minimum size constraint
-      availableWidth,
-      availableHeight,
-      marginX,
-      marginY,
+      width: 400,
+      height: Math.round((pageGeometry.height * 400) / pageGeometry.width),
     };
   };
 
-  // Adaptive grid geometry up to 9 items per page with deterministic 3x3 growth
-  const getAdaptiveGridGeometry = (
-    canvasWidth: number,
-    canvasHeight: number,
-    count: number
-  ) => {
-    const clampedCount = Math.max(1, Math.min(9, count));
-    const marginX = 40;
-    const gridTop = 120 + 44 + 16; // below banner
-    const gridBottomOffset = 80 + 16; // above footer
-    const areaX = marginX;
-    const areaY = gridTop;
-    const areaWidth = Math.max(0, canvasWidth - 2 * marginX);
-    const areaHeight = Math.max(0, canvasHeight - gridTop - gridBottomOffset);
-    const gap = 14;
-
-    // Determine rows per column based on desired sequence to reach 3x3
-    const rowsPerColumn: number[] = [1]; // start with 1 column, 1 row
-    if (clampedCount >= 2) rowsPerColumn.push(1); // 2 columns
-    if (clampedCount >= 3) rowsPerColumn[0] = 2; // split left column
-    if (clampedCount >= 4) rowsPerColumn[1] = 2; // split right column
-
-    let remaining = Math.max(0, clampedCount - Math.min(4, clampedCount));
-    // Phase A: grow first two columns up to 3 rows with pattern [0,0,1,1,0,1]
-    const pattern = [0, 0, 1, 1, 0, 1];
-    let pi = 0;
-    while (
-      remaining > 0 &&
-      rowsPerColumn.length >= 2 &&
-      (rowsPerColumn[0] < 3 || rowsPerColumn[1] < 3)
-    ) {
-      const target = pattern[pi % pattern.length];
-      if (rowsPerColumn[target] < 3) {
-        rowsPerColumn[target] += 1;
-        remaining -= 1;
-      }
-      pi += 1;
-    }
-
-    // Phase B: add third column and fill to 3
-    if (remaining > 0 && rowsPerColumn.length < 3) {
-      rowsPerColumn.push(1);
-      remaining -= 1;
-    }
-    while (remaining > 0 && rowsPerColumn.length >= 3 && rowsPerColumn[2] < 3) {
-      rowsPerColumn[2] += 1;
-      remaining -= 1;
-    }
-
-    // Clamp to max columns 3 and rows 3
-    const cols = Math.min(3, rowsPerColumn.length);
-    const finalRowsPerCol = rowsPerColumn
-      .slice(0, cols)
-      .map((r) => Math.min(3, r));
-
-    // Compute equal-width columns and equal-height rows within each column
-    const totalColGaps = gap * (cols - 1);
-    const colWidth = Math.floor((areaWidth - totalColGaps) / cols);
-    const startX =
-      areaX + Math.floor((areaWidth - (colWidth * cols + totalColGaps)) / 2);
-
-    type Cell = {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      innerWidth: number;
-      innerHeight: number;
-    };
-    const cells: Cell[] = [];
-    for (let c = 0; c < cols; c++) {
-      const colX = startX + c * (colWidth + gap);
-      const rowsInCol = finalRowsPerCol[c];
-      const totalRowGaps = gap * (rowsInCol - 1);
-      const rowHeight = Math.floor((areaHeight - totalRowGaps) / rowsInCol);
-      const colStartY =
-        areaY +
-        Math.floor((areaHeight - (rowHeight * rowsInCol + totalRowGaps)) / 2);
-      for (let r = 0; r < rowsInCol; r++) {
-        const cellX = colX;
-        const cellY = colStartY + r * (rowHeight + gap);
-        const width = Math.max(60, colWidth);
-        const height = Math.max(60, rowHeight);
-        const innerPad = 4;
-        cells.push({
-          x: cellX,
-          y: cellY,
-          width,
-          height,
-          innerWidth: Math.max(40, width - innerPad * 2),
-          innerHeight: Math.max(40, height - innerPad * 2),
-        });
-      }
-    }
+  // Header elements are placed on the editor format and re-flowed for previews
+  const toShownFormat = (point: { x: number; y: number }) =>
+    previewFormat ? reflowPoint(point, designGeometry, pageGeometry) : point;
 
-    return { cells, gap };
+  const toggleTargetFormat = (outputFormat: OutputFormat) => {
+    const enabled = !targetFormats.includes(outputFormat);
+    setTargetFormats((prev) =>
+      outputFormats.filter((f) => (f === outputFormat ? enabled : prev.includes(f)))
+    );
+    if (!enabled && previewFormat === outputFormat) setPreviewFormat(null);
+    if (!enabled && downloadFormat === outputFormat) setDownloadFormat(null);
   };
 
+  // Design units per millimetre of paper, for the print guides
+  const unitsPerMm = shownPrintPreset
+    ? getCanvasDimensions().width / PRINT_PRESETS[shownPrintPreset].widthMm
+    : 0;
+
   // Initialize product positions when selectedProducts change
   useEffect(() => {
     try {
@@ -416,9 +372,13 @@ export default function BrochureEditor({
       const newScales: Record<number, { scaleX: number; scaleY: number }> = {};
       const newPages: Record<number, number> = {};
       const newGridIndex: Record<number, number> = {};
+      const newRotations: Record<number, number> = {};
 
       selectedProducts.forEach((item, index) => {
         if (!productPositions[item.id]) {
+          if (item.gridIndex !== undefined && item.gridIndex !== null) {
+            newGridIndex[item.id] = item.gridIndex;
+          }
           // Use saved position if available, otherwise arrange in a dynamic grid
           if (
             item.positionX !== undefined &&
@@ -442,14 +402,12 @@ export default function BrochureEditor({
             const grid = getAdaptiveGridGeometry(
               canvasDims.width,
               canvasDims.height,
-              pageProducts.length
+              pageProducts.length,
+              zones
             );
-            const cellIndex = Math.min(indexInPage, grid.cells.length - 1);
+            const { cellIndex, cell } = getProductCell(grid, null, indexInPage);
             newGridIndex[item.id] = cellIndex;
-            newPositions[item.id] = {
-              x: grid.cells[cellIndex].x,
-              y: grid.cells[cellIndex].y,
-            };
+            newPositions[item.id] = { x: cell.x, y: cell.y };
           }
         } else {
           newPositions[item.id] = productPositions[item.id];
@@ -466,6 +424,10 @@ export default function BrochureEditor({
         if (!productPages[item.id]) {
           newPages[item.id] = item.pageNumber || 1;
         }
+
+        if (productRotations[item.id] === undefined && item.rotation) {
+          newRotations[item.id] = item.rotation;
+        }
       });
 
       setProductPositions((prev) => ({ ...prev, ...newPositions }));
@@ -474,6 +436,9 @@ export default function BrochureEditor({
       if (Object.keys(newGridIndex).length > 0) {
         setProductGridIndex((prev) => ({ ...prev, ...newGridIndex }));
       }
+      if (Object.keys(newRotations).length > 0) {
+        setProductRotations((prev) => ({ ...prev, ...newRotations }));
+      }
     } catch (error) {
       console.error("Error initializing product positions:", error);
     }
@@ -484,7 +449,7 @@ export default function BrochureEditor({
     if (isDesignMode && initialPages > 0) {
       setPages(initialPages);
       // FIXED: Auto-apply layout when entering design mode
-      if (selectedProducts.length > 0) {
+      if (selectedProducts.length > 0 && !hasSavedLayout) {
         setTimeout(() => handleAutoLayout(), 100);
       }
     }
@@ -492,7 +457,7 @@ export default function BrochureEditor({
 
   // Re-apply smart layout when product list or page count changes
   useEffect(() => {
-    if (selectedProducts.length > 0) {
+    if (selectedProducts.length > 0 && !hasSavedLayout) {
       const id = setTimeout(() => handleAutoLayout(), 50);
       return () => clearTimeout(id);
     }
@@ -516,7 +481,7 @@ export default function BrochureEditor({
     queryKey: ["/api/templates", user?.id],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await fetch(`/api/templates?userId=${user.id}`);
+      const response = await fetch("/api/templates");
       if (!response.ok) throw new Error("Failed to fetch templates");
       return response.json();
     },
@@ -525,6 +490,40 @@ export default function BrochureEditor({
 
   const selectedTemplate = templates?.find((t) => t.id === selectedTemplateId);
 
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    queryFn: async () => {
+      const response = await fetch("/api/branches");
+      if (!response.ok) throw new Error("Failed to fetch branches");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  const applyBranchFooter = (branch: Branch) => {
+    setFooterAddress(branch.address || "");
+    setSocialInstagram(branch.instagram || "");
+    setSocialFacebook(branch.facebook || "");
+    setSocialTwitter(branch.twitter || "");
+  };
+
+  const handleBranchSelect = (value: string) => {
+    const id = value === "none" ? null : parseInt(value);
+    setBranchId(id);
+    const branch = branches.find((b) => b.id === id);
+    if (branch) applyBranchFooter(branch);
+  };
+
+  // Without a saved layout the footer comes from the campaign's branch, or
+  // the user's own branch for new campaigns
+  useEffect(() => {
+    if (hasSavedLayout || branches.length === 0) return;
+    const initialBranchId = campaign?.branchId ?? user?.branchId ?? null;
+    setBranchId(initialBranchId);
+    const branch = branches.find((b) => b.id === initialBranchId);
+    if (branch) applyBranchFooter(branch);
+  }, [branches, hasSavedLayout, campaign?.branchId, user?.branchId]);
+
   const handleTemplateSelect = (value: string) => {
     try {
       const templateId = parseInt(value);
@@ -588,6 +587,17 @@ export default function BrochureEditor({
   };
 
   const moveProductToPage = (productId: number, targetPage: number) => {
+    const onTarget = selectedProducts.filter(
+      (item) => item.id !== productId && (productPages[item.id] || 1) === targetPage
+    );
+    if (onTarget.length >= MAX_ITEMS_PER_PAGE) {
+      toast({
+        title: "Page is full",
+        description: `A page holds at most ${MAX_ITEMS_PER_PAGE} products.`,
+        variant: "destructive",
+      });
+      return;
+    }
     setProductPages((prev) => ({
       ...prev,
       [productId]: targetPage,
@@ -598,7 +608,7 @@ export default function BrochureEditor({
   const distributeProductsAcrossPages = (numPages: number) => {
     const newPages: Record<number, number> = {};
     selectedProducts.forEach((item, index) => {
-      const targetPage = Math.floor(index / 9) + 1; // 9 per page
+      const targetPage = Math.floor(index / MAX_ITEMS_PER_PAGE) + 1;
       newPages[item.id] = Math.min(targetPage, numPages);
     });
     setProductPages(newPages);
@@ -606,6 +616,16 @@ export default function BrochureEditor({
 
   // Handle page changes and redistribute products
   const handlePagesChange = (newPageCount: number) => {
+    if (newPageCount * MAX_ITEMS_PER_PAGE < selectedProducts.length) {
+      toast({
+        title: "Not enough pages",
+        description: `${selectedProducts.length} products need at least ${Math.ceil(
+          selectedProducts.length / MAX_ITEMS_PER_PAGE
+        )} pages of ${MAX_ITEMS_PER_PAGE}.`,
+        variant: "destructive",
+      });
+      return;
+    }
     setPages(newPageCount);
     if (selectedProducts.length > 0) {
       distributeProductsAcrossPages(newPageCount);
@@ -614,7 +634,8 @@ export default function BrochureEditor({
 
   // Ensure enough pages for 9 per page when product list changes
   useEffect(() => {
-    const requiredPages = Math.max(1, Math.ceil(selectedProducts.length / 9));
+    if (hasSavedLayout) return;
+    const requiredPages = Math.max(1, Math.ceil(selectedProducts.length / MAX_ITEMS_PER_PAGE));
     if (requiredPages !== pages) {
       setPages(requiredPages);
       distributeProductsAcrossPages(requiredPages);
@@ -715,51 +736,34 @@ export default function BrochureEditor({
       const grid = getAdaptiveGridGeometry(
         canvasDims.width,
         canvasDims.height,
-        pageProducts.length
+        pageProducts.length,
+        zones
       );
-      let nearestIndex = 0;
-      let nearestDist = Number.MAX_VALUE;
-      grid.cells.forEach((cell, idx) => {
-        const dx = position.x - cell.x;
-        const dy = position.y - cell.y;
-        const d = dx * dx + dy * dy;
-        if (d < nearestDist) {
-          nearestDist = d;
-          nearestIndex = idx;
-        }
-      });
-      // Handle swap if cell is occupied on same page
-      const occupant = selectedProducts.find(
-        (p) =>
-          (productPages[p.id] || 1) === currentPage &&
-          productGridIndex[p.id] === nearestIndex
+      const { cellIndex, swapped } = snapToNearestCell(
+        grid.cells,
+        position,
+        draggedProductId,
+        Object.fromEntries(pageProducts.map((p) => [p.id, productGridIndex[p.id]]))
       );
-      const prevIndex = productGridIndex[draggedProductId];
+      const cell = grid.cells[cellIndex];
       setProductGridIndex((prev) => ({
         ...prev,
-        [draggedProductId]: nearestIndex,
-        ...(occupant ? { [occupant.id]: prevIndex } : {}),
+        [draggedProductId]: cellIndex,
+        ...(swapped ? { [swapped.id]: swapped.cellIndex } : {}),
       }));
       setProductPositions((prev) => ({
         ...prev,
-        [draggedProductId]: {
-          x: grid.cells[nearestIndex].x,
-          y: grid.cells[nearestIndex].y,
-        },
-        ...(occupant
+        [draggedProductId]: { x: cell.x, y: cell.y },
+        ...(swapped
           ? {
-              [occupant.id]:
-                prevIndex != null
-                  ? { x: grid.cells[prevIndex].x, y: grid.cells[prevIndex].y }
-                  : prev[occupant.id],
+              [swapped.id]: {
+                x: grid.cells[swapped.cellIndex].x,
+                y: grid.cells[swapped.cellIndex].y,
+              },
             }
           : {}),
       }));
-      onProductPositionUpdate(
-        draggedProductId,
-        grid.cells[nearestIndex].x,
-        grid.cells[nearestIndex].y
-      );
+      onProductPositionUpdate(draggedProductId, cell.x, cell.y);
     }
 
     setDraggedElement(null);
@@ -786,77 +790,18 @@ export default function BrochureEditor({
 
   // Enhanced Auto Layout with precise dynamic sizing and positioning
   const handleAutoLayout = () => {
-    const newPositions: Record<number, { x: number; y: number }> = {};
-    const newScales: Record<number, { scaleX: number; scaleY: number }> = {};
+    const canvasDims = getCanvasDimensions();
+    const newPositions = getAutoLayoutPositions(
+      selectedProducts.map((item) => ({ id: item.id, pageNumber: productPages[item.id] || 1 })),
+      canvasDims.width,
+      canvasDims.height,
+      zones
+    );
 
-    // Group products by their current page assignments
-    const productsByPage: Record<number, any[]> = {};
+    // Reset scaling to default
+    const newScales: Record<number, { scaleX: number; scaleY: number }> = {};
     selectedProducts.forEach((item) => {
-      const pageNumber = productPages[item.id] || 1;
-      if (!productsByPage[pageNumber]) {
-        productsByPage[pageNumber] = [];
-      }
-      productsByPage[pageNumber].push(item);
-    });
-
-    // Arrange products within each page with precise dynamic layout
-    Object.entries(productsByPage).forEach(([pageNum, products]) => {
-      const pageNumber = parseInt(pageNum);
-      const itemsInPage = products.length;
-      const canvasDims = getCanvasDimensions();
-      const canvasWidth = canvasDims.width;
-      const canvasHeight = canvasDims.height;
-
-      const layout = calculateDynamicLayout(
-        itemsInPage,
-        canvasWidth,
-        canvasHeight
-      );
-
-      products.forEach((item, indexInPage) => {
-        const col = indexInPage % layout.gridCols;
-        const row = Math.floor(indexInPage / layout.gridCols);
-
-        // Calculate precise positioning with balanced gaps
-        const minGap = 20; // Minimum gap between products
-        const gapX =
-          layout.gridCols > 1
-            ? Math.max(
-                minGap,
-                (layout.availableWidth - layout.gridCols * layout.productSize) /
-                  (layout.gridCols - 1)
-              )
-            : 0;
-        const gapY =
-          layout.gridRows > 1
-            ? Math.max(
-                minGap,
-                (layout.availableHeight -
-                  layout.gridRows * layout.productSize) /
-                  (layout.gridRows - 1)
-              )
-            : 0;
-
-        const actualSpaceX = layout.productSize + gapX;
-        const actualSpaceY = layout.productSize + gapY;
-
-        // Center the grid for optimal visual balance
-        const actualRowsUsed = Math.ceil(itemsInPage / layout.gridCols);
-        const totalGridWidth =
-          (layout.gridCols - 1) * actualSpaceX + layout.productSize;
-        const totalGridHeight =
-          (actualRowsUsed - 1) * actualSpaceY + layout.productSize;
-        const offsetX = (layout.availableWidth - totalGridWidth) / 2;
-        const offsetY = (layout.availableHeight - totalGridHeight) / 2;
-
-        newPositions[item.id] = {
-          x: layout.marginX + offsetX + col * actualSpaceX,
-          y: layout.marginY + offsetY + row * actualSpaceY,
-        };
-
-        // Reset scaling to default
-        newScales[item.id] = { scaleX: DEFAULT_PRODUCT_SCALE, scaleY: DEFAULT_PRODUCT_SCALE };
-      });
+      newScales[item.id] = { scaleX: DEFAULT_PRODUCT_SCALE, scaleY: DEFAULT_PRODUCT_SCALE };
     });
 
     setProductPositions(newPositions);
@@ -879,6 +824,20 @@ export default function BrochureEditor({
       return;
     }
 
+    const overfull = findOverfullPages(
+      selectedProducts.map((item) => ({ pageNumber: productPages[item.id] || 1 }))
+    );
+    if (overfull.length > 0) {
+      toast({
+        title: "Too many products on a page",
+        description:
+          `A page holds at most ${MAX_ITEMS_PER_PAGE} products; ` +
+          `move some off page ${overfull.join(", ")}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       // FIXED: Handle multiple pages by using the first available template
       const firstAvailableTemplateId =
@@ -886,203 +845,353 @@ export default function BrochureEditor({
           ? Object.values(pageTemplates).find((id) => id !== null)
           : selectedTemplateId;
 
-      // First create the campaign
+      const layout: BrochureLayout = {
+        version: BROCHURE_LAYOUT_VERSION,
+        pageCount: pages,
+        instagramFormat,
+        printPreset,
+        bleedMm,
+        safeMarginMm,
+        outputFormats: targetFormats,
+        pageTemplates: Object.fromEntries(
+          Object.entries(pageTemplates).map(([page, id]) => [page, id ?? null])
+        ),
+        showCompanyName,
+        titleColor,
+        titleFont,
+        footerBgColor,
+        footerAddress,
+        social: {
+          instagram: socialInstagram,
+          facebook: socialFacebook,
+          twitter: socialTwitter,
+        },
+        elementPositions,
+        datePositions,
+      };
+
       const campaignData = {
         name: campaignName,
         description: campaignDescription || null,
-        status: "active",
         companyName: companyName,
-        userId: user?.id,
         startDate: startDate?.toISOString() || null,
         endDate: endDate?.toISOString() || null,
         templateId: firstAvailableTemplateId,
-        pageCount: pages, // Include page count
+        branchId,
+        layout,
       };
 
-      const response = await fetch("/api/campaigns", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(campaignData),
-      });
-
-      if (!response.ok) throw new Error("Campaign creation failed");
-
-      const newCampaign = await response.json();
-
       // FIXED: Save all campaign products with their positions AND page assignments
-      for (const product of selectedProducts) {
+      const designProducts = selectedProducts.map((product) => {
         const position = productPositions[product.id] || { x: 0, y: 0 };
-        const pageNumber = productPages[product.id] || 1;
         const scale = productScales[product.id] || { scaleX: DEFAULT_PRODUCT_SCALE, scaleY: DEFAULT_PRODUCT_SCALE };
-        const rotation = productRotations[product.id] || 0;
 
-        const campaignProductData = {
-          campaignId: newCampaign.id,
+        return {
+          // Only rows that already belong to this campaign are updated in place
+          id: isExistingCampaign && product.campaignId === campaign.id ? product.id : undefined,
           productId: product.product.id,
           quantity: product.quantity,
           discountPercent: product.discountPercent,
           newPrice: product.newPrice,
           positionX: position.x,
           positionY: position.y,
-          pageNumber: pageNumber,
+          pageNumber: productPages[product.id] || 1,
           scaleX: scale.scaleX,
           scaleY: scale.scaleY,
-          rotation: rotation,
+          rotation: productRotations[product.id] || 0,
+          gridIndex: productGridIndex[product.id] ?? null,
         };
+      });
 
-        await fetch(`/api/campaigns/${newCampaign.id}/products`, {
-          method: "POST",
+      // New campaigns are created with their products in one request, so a
+      // failed save leaves no empty campaign behind
+      const designResponse = await fetch(
+        isExistingCampaign ? `/api/campaigns/${campaign.id}/design` : "/api/campaigns/design",
+        {
+          method: isExistingCampaign ? "PUT" : "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(campaignProductData),
-        });
-      }
+          body: JSON.stringify({
+            // Published campaigns keep their status; the server schedules,
+            // activates or completes them by their dates
+            campaign: {
+              ...campaignData,
+              status: !publishOnSave
+                ? "draft"
+                : isExistingCampaign && campaign.status !== "draft"
+                  ? campaign.status
+                  : "active",
+            },
+            products: designProducts,
+          }),
+        }
+      );
+      if (!designResponse.ok) throw new Error("Campaign design save failed");
+
+      const saved = await designResponse.json();
+      onCampaignUpdate(saved.campaign);
 
       queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
       toast({
-        title: "Campaign created successfully",
+        title: isExistingCampaign
+          ? "Campaign updated successfully"
+          : "Campaign created successfully",
         description: "Your campaign has been saved with all product positions.",
       });
       setIsCreateCampaignOpen(false);
       setLocation("/dashboard");
     } catch (error) {
       toast({
-        title: "Campaign creation failed",
-        description: "There was an error creating your campaign.",
+        title: isExistingCampaign
+          ? "Campaign update failed"
+          : "Campaign creation failed",
+        description: "There was an error saving your campaign.",
         variant: "destructive",
       });
     }
   };
 
-  const handleDownload = async (format: string) => {
-    if (format === "pdf") {
+  // Saved campaigns are exported on the server in the background; the
+  // download starts when the job finishes and stays on the Exports page
+  const exportJob = useExportJob((job) => {
+    if (job.status === "completed") {
+      const link = document.createElement("a");
+      link.href = `/api/exports/${job.id}/download`;
+      link.click();
       toast({
-        title: "PDF Download",
-        description:
-          "PDF generation will be implemented with a proper PDF library.",
+        title: "Export ready",
+        description: "Downloaded the brochure (last saved version).",
+      });
+    } else {
+      toast({
+        title: "Export failed",
+        description: job.error || "Could not export the brochure. Please try again.",
+        variant: "destructive",
       });
-      setIsDownloadOpen(false);
-      return;
     }
+  });
 
+  const queueExport = async (fileType: ExportFileType, outputFormats: OutputFormat[]) => {
     try {
-      // FIXED: Multi-page download functionality
-      const pageElements = document.querySelectorAll("[data-page-canvas]");
+      await exportJob.start({ campaignId: campaign.id, fileType, outputFormats });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not queue the export.",
+        variant: "destructive",
+      });
+    }
+  };
 
-      if (pageElements.length === 0) {
-        toast({
-          title: "Download failed",
-          description: "No pages found to download.",
-          variant: "destructive",
+  // Re-renders the pages in the given format and captures each one at that
+  // format's export size
+  const capturePages = async (
+    outputFormat: OutputFormat | null,
+    imageFormat: "png" | "jpeg"
+  ): Promise<Blob[]> => {
+    flushSync(() => setPreviewFormat(outputFormat));
+    const geometry = getPageGeometry({ instagramFormat, printPreset }, outputFormat);
+    const printSheet = geometry.printPreset
+      ? getPrintSheet(geometry.printPreset, bleedMm)
+      : null;
+
+    const html2canvas = await import("html2canvas");
+
+    // Allow multiple frames for layout to fully settle and fonts to load
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+
+    // Hide all edit controls before capturing
+    const editControls = document.querySelectorAll('[data-edit-control="true"]');
+    const originalVisibility = Array.from(editControls).map(
+      (el) => (el as HTMLElement).style.visibility
+    );
+    editControls.forEach((el) => ((el as HTMLElement).style.visibility = "hidden"));
+
+    const captureCanvas = async (element: HTMLElement) => {
+      const rect = element.getBoundingClientRect();
+
+      // Print exports render at the preset's true 300 DPI size, not upsampled
+      if (printSheet) {
+        const pageCanvas = await html2canvas.default(element, {
+          scale: mmToPx(printSheet.trimWidth) / rect.width,
+          width: rect.width,
+          height: rect.height,
+          useCORS: true,
+          allowTaint: true,
+          backgroundColor: "#ffffff",
+          logging: false,
         });
-        setIsDownloadOpen(false);
-        return;
+        return composePrintSheet(pageCanvas, printSheet);
       }
 
-      // Hide all edit controls before capturing
-      setDropTargetPage(null);
-      const editControls = document.querySelectorAll(
-        '[data-edit-control="true"]'
-      );
-      const originalVisibility = Array.from(editControls).map(
-        (el) => (el as HTMLElement).style.visibility
-      );
-      editControls.forEach(
-        (el) => ((el as HTMLElement).style.visibility = "hidden")
-      );
+      const { exportWidth: targetWidth, exportHeight: targetHeight } = geometry;
+      const renderedCanvas = await html2canvas.default(element, {
+        scale: 2,
+        width: rect.width,
+        height: rect.height,
+        useCORS: true,
+        allowTaint: true,
+        backgroundColor: null,
+        logging: false,
+      });
 
-      const html2canvas = await import("html2canvas");
+      // Create final output canvas with exact target dimensions
+      const outputCanvas = document.createElement("canvas");
+      outputCanvas.width = targetWidth;
+      outputCanvas.height = targetHeight;
+      const ctx = outputCanvas.getContext("2d");
+      if (ctx) {
+        // Fill with transparent background
+        ctx.clearRect(0, 0, targetWidth, targetHeight);
+        // Draw the captured content scaled to exact target dimensions
+        ctx.drawImage(
+          renderedCanvas,
+          0,
+          0,
+          renderedCanvas.width,
+          renderedCanvas.height,
+          0,
+          0,
+          targetWidth,
+          targetHeight
+        );
+      }
 
-      // Allow multiple frames for layout to fully settle and fonts to load
-      await new Promise((resolve) => setTimeout(resolve, 200));
-      await new Promise((resolve) => requestAnimationFrame(resolve));
-      await new Promise((resolve) => requestAnimationFrame(resolve));
+      return outputCanvas;
+    };
 
-      const getTargetDimensions = () =>
-        instagramFormat === "4:5"
-          ? { width: 1080, height: 1350 }
-          : { width: 1080, height: 1080 };
+    try {
+      const pageElements = document.querySelectorAll("[data-page-canvas]");
+      const blobs: Blob[] = [];
+      for (let i = 0; i < pageElements.length; i++) {
+        const finalCanvas = await captureCanvas(pageElements[i] as HTMLElement);
+        blobs.push(
+          await canvasToBlob(finalCanvas, imageFormat, printSheet ? PRINT_DPI : undefined)
+        );
+      }
+      return blobs;
+    } finally {
+      // Restore edit controls
+      editControls.forEach((el, index) => {
+        (el as HTMLElement).style.visibility = originalVisibility[index];
+      });
+    }
+  };
 
-      const captureCanvas = async (element: HTMLElement) => {
-        const rect = element.getBoundingClientRect();
-        const { width: targetWidth, height: targetHeight } =
-          getTargetDimensions();
+  const saveBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement("a");
+    link.download = fileName;
+    link.href = URL.createObjectURL(blob);
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
 
-        // Calculate scale factors for each dimension to maintain exact aspect ratio
-        const scaleX = targetWidth / rect.width;
-        const scaleY = targetHeight / rect.height;
+  // Browser captures of unsaved drafts; the server counts every other download
+  const reportDraftDownload = (fileType: DraftDownload["fileType"]) => {
+    fetch("/api/analytics/downloads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileType }),
+    }).catch(() => {
+      // Analytics are best effort
+    });
+  };
 
-        const renderedCanvas = await html2canvas.default(element, {
-          scale: 2,
-          width: rect.width,
-          height: rect.height,
-          useCORS: true,
-          allowTaint: true,
-          backgroundColor: null,
-          logging: false,
-        });
+  // Animated pages for reels and stories, always rendered on the server
+  const handleSlideshowExport = async () => {
+    if (!isExistingCampaign) {
+      toast({
+        title: "Save the campaign first",
+        description: "The slideshow is built from the saved campaign design.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-        // Create final output canvas with exact target dimensions
-        const outputCanvas = document.createElement("canvas");
-        outputCanvas.width = targetWidth;
-        outputCanvas.height = targetHeight;
-        const ctx = outputCanvas.getContext("2d");
-        if (ctx) {
-          // Fill with transparent background
-          ctx.clearRect(0, 0, targetWidth, targetHeight);
-          // Draw the captured content scaled to exact target dimensions
-          ctx.drawImage(
-            renderedCanvas,
-            0,
-            0,
-            renderedCanvas.width,
-            renderedCanvas.height,
-            0,
-            0,
-            targetWidth,
-            targetHeight
-          );
-        }
+    try {
+      await exportJob.start({
+        campaignId: campaign.id,
+        fileType: slideshowType,
+        outputFormats: downloadFormat ? [downloadFormat] : [],
+        slideshow: slideshowOptions,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not queue the export.",
+        variant: "destructive",
+      });
+    }
+  };
 
-        return outputCanvas;
-      };
+  // "all" downloads every output format of the campaign as one ZIP of PNGs.
+  // Unsaved campaigns are captured in the browser; PDF and SVG need a saved
+  // design.
+  const handleDownload = async (format: "pdf" | "svg" | "png" | "jpeg" | "all") => {
+    if (isExistingCampaign) {
+      const fileType = format === "all" ? "png" : format;
+      const formats = format === "all" ? targetFormats : downloadFormat ? [downloadFormat] : [];
+      await queueExport(fileType, formats);
+      return;
+    }
+    if (format === "pdf" || format === "svg") {
+      toast({
+        title: "Save the campaign first",
+        description: `The ${format.toUpperCase()} is built from the saved campaign design.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      if (pageElements.length === 1) {
-        const element = pageElements[0] as HTMLElement;
-        const finalCanvas = await captureCanvas(element);
-        const link = document.createElement("a");
-        link.download = `brochure.${format}`;
-        link.href = finalCanvas.toDataURL(`image/${format}`, 0.95);
-        link.click();
-      } else {
+    const shownFormat = previewFormat;
+    setDropTargetPage(null);
+
+    try {
+      if (format === "all") {
         const JSZip = (await import("jszip")).default;
         const zip = new JSZip();
 
-        for (let i = 0; i < pageElements.length; i++) {
-          const element = pageElements[i] as HTMLElement;
-          const finalCanvas = await captureCanvas(element);
-          const dataUrl = finalCanvas.toDataURL(`image/${format}`, 0.95);
-          const base64Data = dataUrl.split(",")[1];
-          zip.file(`page-${i + 1}.${format}`, base64Data, { base64: true });
+        for (const outputFormat of targetFormats) {
+          const blobs = await capturePages(outputFormat, "png");
+          blobs.forEach((blob, i) => zip.file(`${outputFormat}/page-${i + 1}.png`, blob));
         }
 
-        const zipBlob = await zip.generateAsync({ type: "blob" });
-        const link = document.createElement("a");
-        link.download = `brochure-pages.zip`;
-        link.href = URL.createObjectURL(zipBlob);
-        link.click();
-        URL.revokeObjectURL(link.href);
+        saveBlob(await zip.generateAsync({ type: "blob" }), "brochure-formats.zip");
+        reportDraftDownload("png");
+        toast({
+          title: "Download successful",
+          description: `Downloaded ${targetFormats.length} formats as ZIP file.`,
+        });
+        return;
       }
 
-      // Restore edit controls
-      editControls.forEach((el, index) => {
-        (el as HTMLElement).style.visibility = originalVisibility[index];
-      });
+      const blobs = await capturePages(downloadFormat, format);
+      if (blobs.length === 0) {
+        toast({
+          title: "Download failed",
+          description: "No pages found to download.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const suffix = downloadFormat ? `-${downloadFormat}` : "";
+      if (blobs.length === 1) {
+        saveBlob(blobs[0], `brochure${suffix}.${format}`);
+      } else {
+        const JSZip = (await import("jszip")).default;
+        const zip = new JSZip();
+        blobs.forEach((blob, i) => zip.file(`page-${i + 1}.${format}`, blob));
+        saveBlob(await zip.generateAsync({ type: "blob" }), `brochure-pages${suffix}.zip`);
+      }
+      reportDraftDownload(format);
 
       toast({
         title: "Download successful",
         description:
-          pageElements.length > 1
-            ? `Downloaded ${pageElements.length} pages as ZIP file.`
+          blobs.length > 1
+            ? `Downloaded ${blobs.length} pages as ZIP file.`
             : "Downloaded brochure successfully.",
       });
     } catch (error) {
@@ -1091,9 +1200,10 @@ export default function BrochureEditor({
         description: "Could not generate image. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setPreviewFormat(shownFormat);
+      setIsDownloadOpen(false);
     }
-
-    setIsDownloadOpen(false);
   };
 
   const formatDateRange = () => {
@@ -1134,6 +1244,13 @@ export default function BrochureEditor({
             Brochure Designer
           </h2>
           <div className="flex items-center space-x-3">
+            {isExistingCampaign && (
+              <HistoryDialog
+                title={`History: ${campaign.name}`}
+                campaignId={campaign.id}
+                showLabel
+              />
+            )}
             <Button variant="outline" size="sm" onClick={handleAutoLayout}>
               <Maximize2 className="w-4 h-4 mr-2" />
               Auto Layout
@@ -1148,7 +1265,7 @@ export default function BrochureEditor({
             </Button>
             <Button size="sm" onClick={handleCreateCampaign}>
               <Save className="w-4 h-4 mr-2" />
-              Create Campaign
+              {isExistingCampaign ? "Save Campaign" : "Create Campaign"}
             </Button>
           </div>
         </div>
@@ -1164,10 +1281,13 @@ export default function BrochureEditor({
             </h3>
             <div className="grid grid-cols-2 gap-3">
               <button
-                onClick={() => setInstagramFormat("4:5")}
+                onClick={() => {
+                  setInstagramFormat("4:5");
+                  setPrintPreset(null);
+                }}
                 className={cn(
                   "p-3 rounded-lg border-2 transition-all",
-                  instagramFormat === "4:5"
+                  !printPreset && instagramFormat === "4:5"
                     ? "border-blue-500 bg-blue-50"
                     : "border-gray-300 hover:border-gray-400"
                 )}
@@ -1178,10 +1298,13 @@ export default function BrochureEditor({
                 <div className="text-xs text-gray-500">1080x1350 px</div>
               </button>
               <button
-                onClick={() => setInstagramFormat("1:1")}
+                onClick={() => {
+                  setInstagramFormat("1:1");
+                  setPrintPreset(null);
+                }}
                 className={cn(
                   "p-3 rounded-lg border-2 transition-all",
-                  instagramFormat === "1:1"
+                  !printPreset && instagramFormat === "1:1"
                     ? "border-blue-500 bg-blue-50"
                     : "border-gray-300 hover:border-gray-400"
                 )}
@@ -1193,6 +1316,128 @@ export default function BrochureEditor({
               </button>
             </div>
           </div>
+          {/* Print Format Selection */}
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">
+              Print Format
+            </h3>
+            <div className="grid grid-cols-4 gap-3">
+              {printPresets.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setPrintPreset(preset)}
+                  className={cn(
+                    "p-3 rounded-lg border-2 transition-all",
+                    printPreset === preset
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-300 hover:border-gray-400"
+                  )}
+                >
+                  <div className="text-sm font-medium text-gray-700 mb-1">
+                    {PRINT_PRESETS[preset].label}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {PRINT_PRESETS[preset].widthMm}x{PRINT_PRESETS[preset].heightMm} mm
+                  </div>
+                </button>
+              ))}
+            </div>
+            {printPreset && (
+              <div className="grid grid-cols-2 gap-4 mt-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-2">
+                    Bleed (mm)
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.5}
+                    value={bleedMm}
+                    onChange={(e) =>
+                      setBleedMm(Math.min(10, Math.max(0, Number(e.target.value) || 0)))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-2">
+                    Safe Margin (mm)
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={30}
+                    step={0.5}
+                    value={safeMarginMm}
+                    onChange={(e) =>
+                      setSafeMarginMm(Math.min(30, Math.max(0, Number(e.target.value) || 0)))
+                    }
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500">
+                  Red dashes mark the bleed, blue dashes the safe area. Downloads are
+                  rendered at {PRINT_DPI} DPI with crop marks.
+                </p>
+              </div>
+            )}
+          </div>
+          {/* Output Formats */}
+          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">
+              Output Formats
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              {outputFormats.map((outputFormat) => (
+                <button
+                  key={outputFormat}
+                  onClick={() => toggleTargetFormat(outputFormat)}
+                  className={cn(
+                    "p-3 rounded-lg border-2 transition-all text-left",
+                    targetFormats.includes(outputFormat)
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-300 hover:border-gray-400"
+                  )}
+                >
+                  <div className="text-sm font-medium text-gray-700 mb-1">
+                    {OUTPUT_FORMATS[outputFormat].label}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {OUTPUT_FORMATS[outputFormat].description}
+                  </div>
+                </button>
+              ))}
+            </div>
+            {targetFormats.length > 0 && (
+              <div className="mt-4">
+                <label className="block text-xs font-medium text-gray-600 mb-2">
+                  Preview
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant={previewFormat === null ? "default" : "outline"}
+                    onClick={() => setPreviewFormat(null)}
+                  >
+                    Editor
+                  </Button>
+                  {targetFormats.map((outputFormat) => (
+                    <Button
+                      key={outputFormat}
+                      size="sm"
+                      variant={previewFormat === outputFormat ? "default" : "outline"}
+                      onClick={() => setPreviewFormat(outputFormat)}
+                    >
+                      {OUTPUT_FORMATS[outputFormat].label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Products re-flow into each format's grid. Previews are read-only; switch
+                  back to Editor to make changes.
+                </p>
+              </div>
+            )}
+          </div>
           <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
             <h3 className="text-sm font-medium text-gray-700 mb-3">
               Campaign Dates
@@ -1346,6 +1591,26 @@ export default function BrochureEditor({
                   <h5 className="text-xs font-semibold text-gray-700 mb-2">
                     Footer Content
                   </h5>
+                  <label className="block text-xs text-gray-600 mb-1">
+                    Branch
+                  </label>
+                  <Select
+                    value={branchId ? branchId.toString() : "none"}
+                    onValueChange={handleBranchSelect}
+                    disabled={user?.role === "branch_manager"}
+                  >
+                    <SelectTrigger className="mb-2">
+                      <SelectValue placeholder="Select branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">All branches</SelectItem>
+                      {branches.map((branch) => (
+                        <SelectItem key={branch.id} value={branch.id.toString()}>
+                          {branch.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <label className="block text-xs text-gray-600 mb-1">
                     Address (left)
                   </label>
@@ -1398,8 +1663,11 @@ export default function BrochureEditor({
               const pageProducts = selectedProducts
                 .map((p, idx) => ({ p, idx }))
                 .filter(({ p }) => (productPages[p.id] || 1) === pageNumber)
-                .slice(0, 9)
+                .slice(0, MAX_ITEMS_PER_PAGE)
                 .map(({ p }) => p);
+              const datePosition = datePositions[pageNumber]
+                ? toShownFormat(datePositions[pageNumber])
+                : { x: getCanvasDimensions().width - 140, y: 8 };
 
               return (
                 <div
@@ -1429,21 +1697,11 @@ export default function BrochureEditor({
                         : "border-gray-300"
                     )}
                     style={{
-                      borderRadius: "20px",
-                      width: isDesignMode
-                        ? instagramFormat === "4:5"
-                          ? "540px" // 1080/2 for display
-                          : "540px" // 1080/2 for display
-                        : instagramFormat === "4:5"
-                        ? "400px" // Scaled down for preview
-                        : "400px", // Scaled down for preview
-                      height: isDesignMode
-                        ? instagramFormat === "4:5"
-                          ? "675px" // 1350/2 for display
-                          : "540px" // 1080/2 for display
-                        : instagramFormat === "4:5"
-                        ? "500px" // Scaled down for preview
-                        : "400px", // Scaled down for preview
+                      borderRadius: shownPrintPreset ? 0 : "20px",
+                      // Previews of other formats are read-only
+                      pointerEvents: previewFormat ? "none" : undefined,
+                      width: `${getCanvasDimensions().width}px`,
+                      height: `${getCanvasDimensions().height}px`,
                       backgroundImage: (() => {
                         try {
                           // FIXED: Use page-specific template if available in design mode
@@ -1497,6 +1755,22 @@ export default function BrochureEditor({
                       }
                     }}
                   >
+                    {/* Print guides: bleed outside the trim, safe area inside */}
+                    {shownPrintPreset && (
+                      <>
+                        <div
+                          data-edit-control="true"
+                          className="absolute pointer-events-none border border-dashed border-red-500 z-40"
+                          style={{ inset: -bleedMm * unitsPerMm }}
+                        />
+                        <div
+                          data-edit-control="true"
+                          className="absolute pointer-events-none border border-dashed border-sky-500 z-40"
+                          style={{ inset: safeMarginMm * unitsPerMm }}
+                        />
+                      </>
+                    )}
+
                     {/* Fixed: Supermarket-style template background layers */}
                     {showSupermarketTemplate && (
                       <>
@@ -1504,25 +1778,28 @@ export default function BrochureEditor({
                         <div
                           className="absolute left-0 top-0 w-full"
                           style={{
-                            height: 120,
+                            height: zones.headerHeight,
                             background: HEADER_BG_COLOR,
                             opacity: HEADER_BG_OPACITY,
-                            borderTopLeftRadius: "20px",
-                            borderTopRightRadius: "20px",
+                            borderTopLeftRadius: shownPrintPreset ? 0 : "20px",
+                            borderTopRightRadius: shownPrintPreset ? 0 : "20px",
                           }}
                         />
                         {/* Footer strip */}
                         <div
                           className="absolute left-0 bottom-0 w-full"
                           style={{
-                            height: 80,
+                            height: zones.footerHeight,
                             background: footerBgColor,
-                            borderBottomLeftRadius: "20px",
-                            borderBottomRightRadius: "20px",
+                            borderBottomLeftRadius: shownPrintPreset ? 0 : "20px",
+                            borderBottomRightRadius: shownPrintPreset ? 0 : "20px",
                           }}
                         />
                         {/* Footer content: address left, socials right */}
-                        <div className="absolute left-0 bottom-0 w-full h-20 flex items-center justify-between px-4">
+                        <div
+                          className="absolute left-0 bottom-0 w-full flex items-center justify-between px-4"
+                          style={{ height: zones.footerHeight }}
+                        >
                           <div className="text-xs text-white max-w-[60%]">
                             {footerAddress}
                           </div>
@@ -1549,8 +1826,8 @@ export default function BrochureEditor({
                       <div
                         className="absolute draggable-element cursor-move user-select-none z-30"
                         style={{
-                          left: elementPositions.companyName.x,
-                          top: elementPositions.companyName.y,
+                          left: toShownFormat(elementPositions.companyName).x,
+                          top: toShownFormat(elementPositions.companyName).y,
                         }}
                         onMouseDown={(e) => handleMouseDown("companyName", e)}
                         onDoubleClick={(e) => {
@@ -1583,8 +1860,8 @@ export default function BrochureEditor({
                       <div
                         className="absolute cursor-move user-select-none z-20"
                         style={{
-                          left: datePositions[pageNumber]?.x ?? (getCanvasDimensions().width - 140),
-                          top: datePositions[pageNumber]?.y ?? 8,
+                          left: datePosition.x,
+                          top: datePosition.y,
                         }}
                         onMouseDown={(e) => {
                           setIsDraggingDate(pageNumber);
@@ -1635,15 +1912,10 @@ export default function BrochureEditor({
                       const grid = getAdaptiveGridGeometry(
                         canvasDims.width,
                         canvasDims.height,
-                        pageProducts.length
+                        pageProducts.length,
+                        zones
                       );
-                      const fallbackIndex = 0;
-                      const cellIndex =
-                        productGridIndex[item.id] !== undefined
-                          ? productGridIndex[item.id]
-                          : fallbackIndex;
-                      const position =
-                        grid.cells[cellIndex] || grid.cells[fallbackIndex];
+                      const { cell: position } = getProductCell(grid, productGridIndex[item.id]);
                       const rotation = productRotations[item.id] || 0;
                       const scale = productScales[item.id] || {
                         scaleX: DEFAULT_PRODUCT_SCALE,
@@ -1705,8 +1977,8 @@ export default function BrochureEditor({
                           <div
                             className="relative inline-block"
                             style={{
-                              width: `${grid.cells[cellIndex].width}px`,
-                              height: `${grid.cells[cellIndex].height}px`,
+                              width: `${position.width}px`,
+                              height: `${position.height}px`,
                             }}
                           >
                             {/* Fixed panel background inside, leaves a thin margin so price can hang past it */}
@@ -1716,8 +1988,8 @@ export default function BrochureEditor({
                             <div
                               className="relative flex items-center justify-center"
                               style={{
-                                width: `${grid.cells[cellIndex].innerWidth}px`,
-                                height: `${grid.cells[cellIndex].innerHeight}px`,
+                                width: `${position.innerWidth}px`,
+                                height: `${position.innerHeight}px`,
                                 transform: `rotate(${rotation}deg) scaleX(${scale.scaleX}) scaleY(${scale.scaleY})`,
                                 transition:
                                   isRotating || isResizing
@@ -2203,7 +2475,9 @@ export default function BrochureEditor({
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Create Campaign</DialogTitle>
+            <DialogTitle>
+              {isExistingCampaign ? "Save Campaign" : "Create Campaign"}
+            </DialogTitle>
             <DialogDescription>
               Enter a name and description for your campaign ({pages} page
               {pages > 1 ? "s" : ""})
@@ -2230,11 +2504,29 @@ export default function BrochureEditor({
                 placeholder="Enter campaign description"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Status
+              </label>
+              <Select
+                value={publishOnSave ? "publish" : "draft"}
+                onValueChange={(value) => setPublishOnSave(value === "publish")}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="publish">Publish</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="text-sm text-gray-600">
               This campaign will include {selectedProducts.length} product
               {selectedProducts.length > 1 ? "s" : ""} distributed across{" "}
               {pages} page{pages > 1 ? "s" : ""}.
             </div>
+            <PriceConflictList conflicts={priceConflicts} />
             <div className="flex justify-end space-x-3">
               <Button
                 variant="outline"
@@ -2246,7 +2538,11 @@ export default function BrochureEditor({
                 onClick={handleSaveCampaign}
                 disabled={!campaignName.trim()}
               >
-                Create Campaign
+                {priceConflicts.length > 0
+                  ? "Save Anyway"
+                  : isExistingCampaign
+                    ? "Save Changes"
+                    : "Create Campaign"}
               </Button>
             </div>
           </div>
@@ -2260,23 +2556,199 @@ export default function BrochureEditor({
             <DialogTitle>Download Brochure</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {targetFormats.length > 0 && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-2">
+                  Output format
+                </label>
+                <Select
+                  value={downloadFormat ?? "editor"}
+                  onValueChange={(value) =>
+                    setDownloadFormat(value === "editor" ? null : (value as OutputFormat))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="editor">Editor canvas</SelectItem>
+                    {targetFormats.map((outputFormat) => (
+                      <SelectItem key={outputFormat} value={outputFormat}>
+                        {OUTPUT_FORMATS[outputFormat].label} ({OUTPUT_FORMATS[outputFormat].description})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <p className="text-gray-600">
               Choose your preferred download format:
             </p>
-            <div className="grid grid-cols-3 gap-3">
-              <Button variant="outline" onClick={() => handleDownload("pdf")}>
+            <div className="grid grid-cols-4 gap-3">
+              <Button
+                variant="outline"
+                onClick={() => handleDownload("pdf")}
+                disabled={exportJob.isRunning}
+              >
                 <FileText className="w-4 h-4 mr-2" />
                 PDF
               </Button>
-              <Button variant="outline" onClick={() => handleDownload("png")}>
+              <Button
+                variant="outline"
+                onClick={() => handleDownload("svg")}
+                disabled={exportJob.isRunning}
+                title="Editable vector pages for Illustrator or Inkscape"
+              >
+                <PenTool className="w-4 h-4 mr-2" />
+                SVG
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleDownload("png")}
+                disabled={exportJob.isRunning}
+              >
                 <Image className="w-4 h-4 mr-2" />
                 PNG
               </Button>
-              <Button variant="outline" onClick={() => handleDownload("jpeg")}>
+              <Button
+                variant="outline"
+                onClick={() => handleDownload("jpeg")}
+                disabled={exportJob.isRunning}
+              >
                 <Image className="w-4 h-4 mr-2" />
                 JPEG
               </Button>
             </div>
+            {targetFormats.length > 0 && (
+              <Button
+                className="w-full"
+                onClick={() => handleDownload("all")}
+                disabled={exportJob.isRunning}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                All formats (ZIP of PNGs)
+              </Button>
+            )}
+            <div className="space-y-3 border-t pt-4">
+              <p className="text-sm font-medium text-gray-900">Slideshow</p>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-2">
+                    File
+                  </label>
+                  <Select
+                    value={slideshowType}
+                    onValueChange={(value) => setSlideshowType(value as SlideshowFileType)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mp4">MP4</SelectItem>
+                      <SelectItem value="webm">WebM</SelectItem>
+                      <SelectItem value="gif">GIF</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-2">
+                    Seconds per page
+                  </label>
+                  <Input
+                    type="number"
+                    min={0.5}
+                    max={15}
+                    step={0.5}
+                    value={slideshowOptions.pageDuration}
+                    onChange={(e) =>
+                      setSlideshowOptions((prev) => ({
+                        ...prev,
+                        pageDuration: Math.min(15, Math.max(0.5, Number(e.target.value) || 0.5)),
+                      }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-2">
+                    Transition
+                  </label>
+                  <Select
+                    value={slideshowOptions.transition}
+                    onValueChange={(value) =>
+                      setSlideshowOptions((prev) => ({
+                        ...prev,
+                        transition: value as SlideshowTransition,
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fade">Fade</SelectItem>
+                      <SelectItem value="slide">Slide</SelectItem>
+                      <SelectItem value="none">None</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={slideshowOptions.highlightProducts}
+                  onChange={(e) =>
+                    setSlideshowOptions((prev) => ({
+                      ...prev,
+                      highlightProducts: e.target.checked,
+                    }))
+                  }
+                />
+                Highlight each product in turn
+              </label>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleSlideshowExport}
+                disabled={exportJob.isRunning}
+              >
+                <Film className="w-4 h-4 mr-2" />
+                Export slideshow
+              </Button>
+            </div>
+            {exportJob.job && (
+              <div className="space-y-2 border-t pt-4">
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>
+                    {exportJob.job.status === "queued"
+                      ? "Waiting in the export queue..."
+                      : exportJob.job.status === "running"
+                        ? "Rendering pages..."
+                        : exportJob.job.status === "completed"
+                          ? "Export ready"
+                          : "Export failed"}
+                  </span>
+                  {exportJob.job.totalPages !== null && (
+                    <span>
+                      {exportJob.job.completedPages} / {exportJob.job.totalPages} pages
+                    </span>
+                  )}
+                </div>
+                <Progress
+                  value={
+                    exportJob.job.totalPages
+                      ? (exportJob.job.completedPages / exportJob.job.totalPages) * 100
+                      : 0
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  You can close this dialog; finished exports stay on the{" "}
+                  <Link href="/exports" className="text-primary underline">
+                    Exports
+                  </Link>{" "}
+                  page.
+                </p>
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
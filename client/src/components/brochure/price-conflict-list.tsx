@@ -0,0 +1,38 @@
+import { format } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { PriceConflict } from "@shared/schema";
+
+const formatPrice = (value: number) =>
+  `₺${value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function formatRun({ startDate, endDate }: PriceConflict["conflictingCampaign"]) {
+  const start = startDate ? format(new Date(startDate), "dd.MM.yyyy") : "";
+  return endDate ? `${start} – ${format(new Date(endDate), "dd.MM.yyyy")}` : `from ${start}`;
+}
+
+// Products this campaign prices differently from other campaigns running on
+// the same days
+export function PriceConflictList({ conflicts }: { conflicts: PriceConflict[] }) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {conflicts.length === 1 ? "1 price conflict" : `${conflicts.length} price conflicts`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+          {conflicts.map((conflict, index) => (
+            <li key={index}>
+              <span className="font-medium">{conflict.productName}</span>:{" "}
+              {formatPrice(conflict.price)} here, {formatPrice(conflict.conflictingPrice)} in "
+              {conflict.conflictingCampaign.name}" ({formatRun(conflict.conflictingCampaign)})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,5 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
 import {
   BarChart3,
   PlusCircle,
@@ -8,24 +10,46 @@ import {
   Upload,
   Image,
   Package,
+  Store,
+  Users,
+  FileDown,
+  TrendingUp,
+  CalendarDays,
+  type LucideIcon,
 } from "lucide-react";
 
 interface SidebarProps {
   collapsed: boolean;
 }
 
-const navigation = [
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  roles?: UserRole[]; // visible to everyone when omitted
+}
+
+const navigation: NavigationItem[] = [
   { name: "Dashboard", href: "/dashboard", icon: BarChart3 },
+  { name: "Calendar", href: "/calendar", icon: CalendarDays },
   { name: "Create Campaign", href: "/create-campaign", icon: PlusCircle },
   { name: "Product Management", href: "/product-management", icon: Package },
   { name: "Social Media", href: "/social-media", icon: Share2 },
   { name: "Statistics", href: "/statistics", icon: BarChart },
+  { name: "Product Report", href: "/product-report", icon: TrendingUp },
+  { name: "Exports", href: "/exports", icon: FileDown },
   { name: "Template Upload", href: "/template-upload", icon: Upload },
   { name: "Logo Upload", href: "/logo-upload", icon: Image },
+  { name: "Branches", href: "/branches", icon: Store, roles: ["admin"] },
+  { name: "Users", href: "/users", icon: Users, roles: ["admin"] },
 ];
 
 export default function Sidebar({ collapsed }: SidebarProps) {
   const [location] = useLocation();
+  const { user } = useAuth();
+  const visibleNavigation = navigation.filter(
+    (item) => !item.roles || (user && item.roles.includes(user.role))
+  );
 
   return (
     <aside className={cn(
@@ -33,7 +57,7 @@ export default function Sidebar({ collapsed }: SidebarProps) {
       collapsed ? "w-16" : "w-64"
     )}>
       <nav className="p-4 space-y-2">
-        {navigation.map((item) => {
+        {visibleNavigation.map((item) => {
           const Icon = item.icon;
           const isActive = location === item.href || (item.href === "/dashboard" && location === "/");
           
@@ -1,3 +1,4 @@
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -42,14 +43,16 @@ export default function TopBar({ onToggleSidebar }: TopBarProps) {
           </SelectContent>
         </Select>
 
-        <div className="flex items-center space-x-3">
-          <img
-            src="https://images.unsplash.com/photo-1494790108755-2616b612b526?ixlib=rb-4.0.3&auto=format&fit=crop&w=32&h=32"
-            alt="Admin Avatar"
-            className="w-8 h-8 rounded-full object-cover"
-          />
-          <span className="text-sm font-medium text-gray-700">{user?.name}</span>
-        </div>
+        <Link href="/profile">
+          <div className="flex items-center space-x-3 cursor-pointer">
+            <img
+              src="https://images.unsplash.com/photo-1494790108755-2616b612b526?ixlib=rb-4.0.3&auto=format&fit=crop&w=32&h=32"
+              alt="Admin Avatar"
+              className="w-8 h-8 rounded-full object-cover"
+            />
+            <span className="text-sm font-medium text-gray-700">{user?.name}</span>
+          </div>
+        </Link>
 
         <Button
           variant="outline"
@@ -1,40 +1,39 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { type User } from "@shared/schema";
-import { getStoredUser, storeUser, clearStoredUser } from "@/lib/auth";
+import { fetchCurrentUser, logout as logoutRequest } from "@/lib/auth";
+import { queryClient } from "@/lib/queryClient";
 
 interface AuthContextType {
   user: Omit<User, 'password'> | null;
+  isLoading: boolean;
   setUser: (user: Omit<User, 'password'> | null) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<Omit<User, 'password'> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const storedUser = getStoredUser();
-    if (storedUser) {
-      setUser(storedUser);
-    }
+    fetchCurrentUser()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setIsLoading(false));
   }, []);
 
-  const updateUser = (newUser: Omit<User, 'password'> | null) => {
-    setUser(newUser);
-    if (newUser) {
-      storeUser(newUser);
-    } else {
-      clearStoredUser();
+  const logout = async () => {
+    try {
+      await logoutRequest();
+    } finally {
+      setUser(null);
+      queryClient.clear();
     }
   };
 
-  const logout = () => {
-    updateUser(null);
-  };
-
   return (
-    <AuthContext.Provider value={{ user, setUser: updateUser, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, setUser, logout }}>
       {children}
     </AuthContext.Provider>
   );
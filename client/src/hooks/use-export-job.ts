@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { CreateExport, ExportJob } from "@shared/schema";
+
+export const isExportFinished = (job: Pick<ExportJob, "status">) =>
+  job.status === "completed" || job.status === "failed";
+
+// Queues a brochure export on the server and follows its progress over
+// server-sent events. onFinished runs once the job completes or fails.
+export function useExportJob(onFinished?: (job: ExportJob) => void) {
+  const queryClient = useQueryClient();
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => () => sourceRef.current?.close(), []);
+
+  const start = async (request: CreateExport): Promise<ExportJob> => {
+    const response = await fetch("/api/exports", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || "Could not queue the export");
+    }
+    const queued: ExportJob = await response.json();
+    setJob(queued);
+    queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+
+    sourceRef.current?.close();
+    const source = new EventSource(`/api/exports/${queued.id}/events`);
+    sourceRef.current = source;
+    source.onmessage = (event) => {
+      const current: ExportJob = JSON.parse(event.data);
+      setJob(current);
+      if (isExportFinished(current)) {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+        onFinishedRef.current?.(current);
+      }
+    };
+
+    return queued;
+  };
+
+  return { job, start, isRunning: !!job && !isExportFinished(job) };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PriceConflict, PriceConflictCheck } from "@shared/schema";
+
+// Checks unsaved campaign prices against overlapping published campaigns.
+// Other campaigns change behind the editor's back, so every check is fresh.
+export function usePriceConflicts(check: PriceConflictCheck, enabled: boolean) {
+  return useQuery<PriceConflict[]>({
+    queryKey: ["/api/price-conflicts", check],
+    queryFn: async () => {
+      const response = await fetch("/api/price-conflicts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(check),
+      });
+      if (!response.ok) throw new Error("Failed to check price conflicts");
+      return response.json();
+    },
+    enabled,
+    staleTime: 0,
+  });
+}
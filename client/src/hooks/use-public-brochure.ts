@@ -0,0 +1,94 @@
+import { useCallback, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PublicBrochure, ViewerEvent } from "@shared/schema";
+
+// Ended campaigns answer 410 with the name and end date
+export class BrochureUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly endDate?: string | null
+  ) {
+    super(message);
+  }
+}
+
+// A shared brochure, loaded without a session
+export function usePublicBrochure(slug: string) {
+  return useQuery<PublicBrochure, BrochureUnavailableError>({
+    queryKey: ["/api/public/brochures", slug],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/brochures/${encodeURIComponent(slug)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new BrochureUnavailableError(
+          body?.message || "Brochure not available",
+          response.status,
+          body?.endDate
+        );
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+}
+
+type TrackedEvent = Pick<ViewerEvent, "type" | "pageNumber" | "campaignProductId">;
+
+// Identifies the visit to the server, which drops repeated views from reloads
+function visitId(): string | undefined {
+  try {
+    let id = sessionStorage.getItem("brochure-visit");
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem("brochure-visit", id);
+    }
+    return id;
+  } catch {
+    // Storage blocked, e.g. in a sandboxed frame; the server falls back to the address
+    return undefined;
+  }
+}
+
+// Reports viewer events with where the visit came from: the link's UTM
+// parameters and the referrer, or the host site when embedded. The link open
+// and each page count once per visit.
+export function useBrochureTracking(slug: string, embedded = false) {
+  const opened = useRef(false);
+  const seenPages = useRef(new Set<number>());
+  const source = useRef<Omit<ViewerEvent, "type">>();
+  if (!source.current) {
+    const params = new URLSearchParams(window.location.search);
+    source.current = {
+      utmSource: params.get("utm_source") ?? undefined,
+      utmMedium: params.get("utm_medium") ?? undefined,
+      utmCampaign: params.get("utm_campaign") ?? undefined,
+      referrer: document.referrer || undefined,
+      embedded,
+      sessionId: visitId(),
+    };
+  }
+
+  return useCallback(
+    (event: TrackedEvent) => {
+      if (event.type === "share_open") {
+        if (opened.current) return;
+        opened.current = true;
+      }
+      if (event.type === "page_view" && event.pageNumber !== undefined) {
+        if (seenPages.current.has(event.pageNumber)) return;
+        seenPages.current.add(event.pageNumber);
+      }
+
+      fetch(`/api/public/brochures/${encodeURIComponent(slug)}/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...source.current, ...event }),
+        keepalive: true,
+      }).catch(() => {
+        // Analytics are best effort
+      });
+    },
+    [slug]
+  );
+}
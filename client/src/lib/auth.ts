@@ -5,20 +5,54 @@ interface AuthResponse {
   user: Omit<User, 'password'>;
 }
 
+// Carries the server's message, and for throttled attempts (429) how many
+// seconds to wait before trying again.
+export class LoginError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "LoginError";
+  }
+}
+
 export async function login(credentials: LoginCredentials): Promise<AuthResponse> {
-  const response = await apiRequest("POST", "/api/auth/login", credentials);
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentials),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new LoginError(
+      body?.message || response.statusText,
+      response.status,
+      body?.retryAfter
+    );
+  }
+
   return await response.json();
 }
 
-export function getStoredUser(): Omit<User, 'password'> | null {
-  const stored = localStorage.getItem("user");
-  return stored ? JSON.parse(stored) : null;
+export async function logout(): Promise<void> {
+  await apiRequest("POST", "/api/auth/logout");
 }
 
-export function storeUser(user: Omit<User, 'password'>): void {
-  localStorage.setItem("user", JSON.stringify(user));
-}
+// Returns the user attached to the current session cookie, or null when the
+// session is missing or has expired.
+export async function fetchCurrentUser(): Promise<Omit<User, 'password'> | null> {
+  const response = await fetch("/api/auth/me", { credentials: "include" });
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
 
-export function clearStoredUser(): void {
-  localStorage.removeItem("user");
+  const data: AuthResponse = await response.json();
+  return data.user;
 }
@@ -0,0 +1,109 @@
+import { getCropMarks, mmToPx, type PrintSheet } from "@shared/print";
+
+// Places a page rendered at trim size on a print sheet with bleed and crop
+// marks. The browser can only capture the trimmed page, so the bleed is
+// filled with the same page stretched over the bleed box underneath.
+export function composePrintSheet(page: HTMLCanvasElement, sheet: PrintSheet): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = mmToPx(sheet.sheetWidth);
+  canvas.height = mmToPx(sheet.sheetHeight);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return page;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const bleedStart = mmToPx(sheet.trimOffset - sheet.bleed);
+  ctx.drawImage(
+    page,
+    bleedStart,
+    bleedStart,
+    mmToPx(sheet.trimWidth + 2 * sheet.bleed),
+    mmToPx(sheet.trimHeight + 2 * sheet.bleed)
+  );
+  ctx.drawImage(
+    page,
+    mmToPx(sheet.trimOffset),
+    mmToPx(sheet.trimOffset),
+    mmToPx(sheet.trimWidth),
+    mmToPx(sheet.trimHeight)
+  );
+
+  ctx.strokeStyle = "#000000";
+  ctx.lineWidth = Math.max(1, mmToPx(0.1));
+  for (const mark of getCropMarks(sheet)) {
+    ctx.beginPath();
+    ctx.moveTo(mmToPx(mark.x1), mmToPx(mark.y1));
+    ctx.lineTo(mmToPx(mark.x2), mmToPx(mark.y2));
+    ctx.stroke();
+  }
+
+  return canvas;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Inserts a pHYs chunk after IHDR so print software reads the resolution
+function setPngDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 CRC)
+  const ihdrEnd = 33;
+  const result = new Uint8Array(bytes.length + chunk.length);
+  result.set(bytes.subarray(0, ihdrEnd));
+  result.set(chunk, ihdrEnd);
+  result.set(bytes.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+}
+
+// Rewrites the density fields of the JFIF header canvases emit
+function setJpegDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  const isJfif =
+    bytes[2] === 0xff &&
+    bytes[3] === 0xe0 &&
+    String.fromCharCode(bytes[6], bytes[7], bytes[8], bytes[9]) === "JFIF";
+  if (!isJfif) return bytes;
+
+  const result = bytes.slice();
+  const view = new DataView(result.buffer);
+  result[13] = 1; // unit: dots per inch
+  view.setUint16(14, dpi);
+  view.setUint16(16, dpi);
+  return result;
+}
+
+export async function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  format: "png" | "jpeg",
+  dpi?: number
+): Promise<Blob> {
+  const type = `image/${format}`;
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Export failed"))), type, 0.95)
+  );
+  if (!dpi) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = format === "png" ? setPngDpi(bytes, dpi) : setJpegDpi(bytes, dpi);
+  return new Blob([tagged], { type });
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Store, Edit, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Branch } from "@shared/schema";
+
+type BranchForm = {
+  name: string;
+  address: string;
+  phone: string;
+  instagram: string;
+  facebook: string;
+  twitter: string;
+};
+
+const emptyForm: BranchForm = {
+  name: "",
+  address: "",
+  phone: "",
+  instagram: "",
+  facebook: "",
+  twitter: "",
+};
+
+function toForm(branch: Branch): BranchForm {
+  return {
+    name: branch.name,
+    address: branch.address || "",
+    phone: branch.phone || "",
+    instagram: branch.instagram || "",
+    facebook: branch.facebook || "",
+    twitter: branch.twitter || "",
+  };
+}
+
+export default function Branches() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<BranchForm>(emptyForm);
+
+  const { data: branches = [], isLoading } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    queryFn: async () => {
+      const response = await fetch("/api/branches");
+      if (!response.ok) throw new Error("Failed to fetch branches");
+      return response.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BranchForm) => {
+      const response = await fetch(editingId ? `/api/branches/${editingId}` : "/api/branches", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: data.name,
+          address: data.address || null,
+          phone: data.phone || null,
+          instagram: data.instagram || null,
+          facebook: data.facebook || null,
+          twitter: data.twitter || null,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Save failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/branches"] });
+      toast({
+        title: editingId ? "Branch updated" : "Branch created",
+        description: "Brochure footers for this branch will use the new details.",
+      });
+      setEditingId(null);
+      setForm(emptyForm);
+    },
+    onError: () => {
+      toast({
+        title: "Save failed",
+        description: "There was an error saving the branch.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (branchId: number) => {
+      const response = await fetch(`/api/branches/${branchId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Delete failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/branches"] });
+      toast({
+        title: "Branch deleted",
+        description: "The branch has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (branch: Branch) => {
+    setEditingId(branch.id);
+    setForm(toForm(branch));
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const updateField = (field: keyof BranchForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Branches</h1>
+        <p className="text-gray-600 mt-2">
+          Manage store branches and the address and social handles shown in brochure footers
+        </p>
+      </div>
+
+      {/* Branch form */}
+      <Card>
+        <CardContent className="p-8">
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {editingId ? "Edit Branch" : "Add Branch"}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="branch-name">Name</Label>
+                <Input
+                  id="branch-name"
+                  value={form.name}
+                  onChange={updateField("name")}
+                  placeholder="İlkadım"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="branch-phone">Phone</Label>
+                <Input
+                  id="branch-phone"
+                  value={form.phone}
+                  onChange={updateField("phone")}
+                  className="mt-2"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="branch-address">Address</Label>
+                <Input
+                  id="branch-address"
+                  value={form.address}
+                  onChange={updateField("address")}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="branch-instagram">Instagram</Label>
+                <Input
+                  id="branch-instagram"
+                  value={form.instagram}
+                  onChange={updateField("instagram")}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="branch-facebook">Facebook</Label>
+                <Input
+                  id="branch-facebook"
+                  value={form.facebook}
+                  onChange={updateField("facebook")}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="branch-twitter">Twitter/X</Label>
+                <Input
+                  id="branch-twitter"
+                  value={form.twitter}
+                  onChange={updateField("twitter")}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.name || saveMutation.isPending}
+                className="flex-1"
+              >
+                {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add Branch"}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Branch list */}
+      <Card>
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">All Branches</h2>
+        </div>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : branches.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Store className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No branches yet</h3>
+              <p className="text-gray-600">Add your first branch to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Instagram</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {branches.map((branch) => (
+                  <TableRow key={branch.id}>
+                    <TableCell className="font-medium">{branch.name}</TableCell>
+                    <TableCell className="text-gray-600">{branch.address || "-"}</TableCell>
+                    <TableCell className="text-gray-600">{branch.instagram || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(branch)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => deleteMutation.mutate(branch.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,547 @@
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  campaignDays,
+  campaignStatuses,
+  campaignsOverlap,
+  type Branch,
+  type Campaign,
+  type CampaignStatus,
+  type PriceConflict,
+} from "@shared/schema";
+
+type CalendarView = "month" | "week";
+type ColorBy = "status" | "branch";
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const BAR_HEIGHT = 24;
+const DAY_HEADER_HEIGHT = 28;
+
+const statusColors: Record<CampaignStatus, string> = {
+  draft: "bg-gray-200 text-gray-800",
+  scheduled: "bg-blue-200 text-blue-900",
+  active: "bg-green-200 text-green-900",
+  completed: "bg-yellow-200 text-yellow-900",
+};
+
+const statusLabels: Record<CampaignStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  active: "Active",
+  completed: "Completed",
+};
+
+// Branches take colours in order; chain-wide campaigns are slate
+const branchPalette = [
+  "bg-sky-200 text-sky-900",
+  "bg-emerald-200 text-emerald-900",
+  "bg-violet-200 text-violet-900",
+  "bg-orange-200 text-orange-900",
+  "bg-pink-200 text-pink-900",
+  "bg-teal-200 text-teal-900",
+  "bg-lime-200 text-lime-900",
+  "bg-indigo-200 text-indigo-900",
+];
+const CHAIN_WIDE_COLOR = "bg-slate-300 text-slate-900";
+
+const dayKey = (day: Date) => format(day, "yyyy-MM-dd");
+
+interface DatedCampaign {
+  campaign: Campaign;
+  first: string;
+  last: string | null; // runs on indefinitely
+}
+
+interface Segment extends DatedCampaign {
+  startCol: number;
+  endCol: number;
+  lane: number;
+}
+
+// Bars of the campaigns running in the week, stacked in lanes so they do not
+// cover each other
+function layoutWeek(days: string[], campaigns: DatedCampaign[]) {
+  const weekStart = days[0];
+  const weekEnd = days[days.length - 1];
+  const running = campaigns
+    .filter((entry) => entry.first <= weekEnd && (entry.last === null || entry.last >= weekStart))
+    .sort(
+      (a, b) =>
+        a.first.localeCompare(b.first) || (b.last ?? "9999").localeCompare(a.last ?? "9999")
+    );
+
+  const laneEnds: number[] = [];
+  const segments: Segment[] = running.map((entry) => {
+    const startCol = entry.first < weekStart ? 0 : days.indexOf(entry.first);
+    const endCol =
+      entry.last === null || entry.last > weekEnd ? days.length - 1 : days.indexOf(entry.last);
+    let lane = laneEnds.findIndex((end) => end < startCol);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = endCol;
+    return { ...entry, startCol, endCol, lane };
+  });
+  return { segments, laneCount: laneEnds.length };
+}
+
+interface Overlap {
+  branchId: number | null;
+  first: string;
+  last: string | null;
+  campaigns: [Campaign, Campaign];
+}
+
+// Published campaigns of the same branch (or both chain-wide) that run on a
+// common day
+function findOverlaps(campaigns: DatedCampaign[]): Overlap[] {
+  const published = campaigns.filter((entry) => entry.campaign.status !== "draft");
+  const overlaps: Overlap[] = [];
+  published.forEach((a, index) => {
+    published.slice(index + 1).forEach((b) => {
+      if (a.campaign.branchId !== b.campaign.branchId) return;
+      if (!campaignsOverlap(a.campaign, b.campaign)) return;
+      const lasts = [a.last, b.last].filter((last): last is string => last !== null).sort();
+      overlaps.push({
+        branchId: a.campaign.branchId,
+        first: a.first > b.first ? a.first : b.first,
+        last: lasts[0] ?? null,
+        campaigns: [a.campaign, b.campaign],
+      });
+    });
+  });
+  return overlaps;
+}
+
+const coversDay = (overlap: Overlap, day: string) =>
+  overlap.first <= day && (overlap.last === null || day <= overlap.last);
+
+export default function CampaignCalendar() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [view, setView] = useState<CalendarView>("month");
+  const [colorBy, setColorBy] = useState<ColorBy>("status");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [dragging, setDragging] = useState(false);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  // The bar being dragged and the day it was picked up by
+  const dragged = useRef<{ campaign: Campaign; grabDay: string } | null>(null);
+
+  const campaignsKey = ["/api/campaigns", user?.id];
+  const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
+    queryKey: campaignsKey,
+    queryFn: async () => {
+      const response = await fetch("/api/campaigns");
+      if (!response.ok) throw new Error("Failed to fetch campaigns");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    queryFn: async () => {
+      const response = await fetch("/api/branches");
+      if (!response.ok) throw new Error("Failed to fetch branches");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  // Moves the bar straight away and puts it back if the server refuses
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ campaign, days }: { campaign: Campaign; days: number }) => {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startDate: addDays(new Date(campaign.startDate!), days).toISOString(),
+          endDate: campaign.endDate
+            ? addDays(new Date(campaign.endDate), days).toISOString()
+            : null,
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to reschedule campaign");
+      }
+      return (await response.json()) as Campaign & { priceConflicts: PriceConflict[] };
+    },
+    onMutate: async ({ campaign, days }) => {
+      await queryClient.cancelQueries({ queryKey: campaignsKey });
+      const previous = queryClient.getQueryData<Campaign[]>(campaignsKey);
+      queryClient.setQueryData<Campaign[]>(campaignsKey, (current = []) =>
+        current.map((item) =>
+          item.id === campaign.id
+            ? {
+                ...item,
+                startDate: addDays(new Date(campaign.startDate!), days),
+                endDate: campaign.endDate ? addDays(new Date(campaign.endDate), days) : null,
+              }
+            : item
+        )
+      );
+      return { previous };
+    },
+    onSuccess: ({ priceConflicts, ...updated }) => {
+      queryClient.setQueryData<Campaign[]>(campaignsKey, (current = []) =>
+        current.map((item) => (item.id === updated.id ? updated : item))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      if (priceConflicts.length > 0) {
+        const names = Array.from(new Set(priceConflicts.map((c) => c.productName))).join(", ");
+        toast({
+          title: "Rescheduled with price conflicts",
+          description: `Overlapping campaigns advertise ${names} at other prices.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Campaign rescheduled",
+        description: `${updated.name} now starts on ${format(
+          new Date(updated.startDate!),
+          "dd.MM.yyyy"
+        )}.`,
+      });
+    },
+    onError: (error: Error, _variables, context) => {
+      queryClient.setQueryData(campaignsKey, context?.previous);
+      toast({ title: "Reschedule failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canReschedule = (campaign: Campaign) => {
+    if (!user || !campaign.startDate) return false;
+    if (user.role === "admin" || user.role === "designer") return true;
+    return (
+      user.role === "branch_manager" &&
+      user.branchId !== null &&
+      campaign.branchId === user.branchId
+    );
+  };
+
+  const visibleDays = useMemo(() => {
+    const start =
+      view === "month"
+        ? startOfWeek(startOfMonth(cursor), WEEK_OPTIONS)
+        : startOfWeek(cursor, WEEK_OPTIONS);
+    const end =
+      view === "month"
+        ? endOfWeek(endOfMonth(cursor), WEEK_OPTIONS)
+        : endOfWeek(cursor, WEEK_OPTIONS);
+    return eachDayOfInterval({ start, end });
+  }, [view, cursor]);
+
+  const weeks = useMemo(() => {
+    const rows: Date[][] = [];
+    for (let i = 0; i < visibleDays.length; i += 7) rows.push(visibleDays.slice(i, i + 7));
+    return rows;
+  }, [visibleDays]);
+
+  const dated: DatedCampaign[] = campaigns.flatMap((campaign) => {
+    const days = campaignDays(campaign);
+    return days ? [{ campaign, ...days }] : [];
+  });
+  const undatedCount = campaigns.length - dated.length;
+  const overlaps = findOverlaps(dated);
+  const visibleStart = dayKey(visibleDays[0]);
+  const visibleEnd = dayKey(visibleDays[visibleDays.length - 1]);
+  const visibleOverlaps = overlaps.filter(
+    (overlap) =>
+      overlap.first <= visibleEnd && (overlap.last === null || overlap.last >= visibleStart)
+  );
+
+  const branchName = (branchId: number | null) =>
+    branchId === null
+      ? "Chain-wide"
+      : branches.find((branch) => branch.id === branchId)?.name ?? `Branch #${branchId}`;
+
+  const branchColor = (branchId: number | null) => {
+    if (branchId === null) return CHAIN_WIDE_COLOR;
+    const index = branches.findIndex((branch) => branch.id === branchId);
+    return branchPalette[(index === -1 ? branchId : index) % branchPalette.length];
+  };
+
+  const colorFor = (campaign: Campaign) =>
+    colorBy === "status" ? statusColors[campaign.status] : branchColor(campaign.branchId);
+
+  const describeOverlap = (overlap: Overlap) =>
+    `${branchName(overlap.branchId)}: ${overlap.campaigns[0].name} / ${overlap.campaigns[1].name}`;
+
+  const describeCampaign = ({ campaign, last }: DatedCampaign) =>
+    `${campaign.name} (${statusLabels[campaign.status]}, ${branchName(campaign.branchId)})` +
+    (last === null ? " - no end date" : "");
+
+  const isOverlapping = (campaign: Campaign) =>
+    overlaps.some((overlap) => overlap.campaigns.some((item) => item.id === campaign.id));
+
+  const step = (direction: 1 | -1) =>
+    setCursor((current) =>
+      view === "month" ? addMonths(current, direction) : addWeeks(current, direction)
+    );
+
+  const handleDragStart = (
+    event: React.DragEvent<HTMLDivElement>,
+    segment: Segment,
+    days: string[]
+  ) => {
+    // The day under the pointer, so the bar moves by as many days as the pointer
+    const rect = event.currentTarget.getBoundingClientRect();
+    const span = segment.endCol - segment.startCol + 1;
+    const offset = Math.min(
+      span - 1,
+      Math.floor(((event.clientX - rect.left) / rect.width) * span)
+    );
+    dragged.current = { campaign: segment.campaign, grabDay: days[segment.startCol + offset] };
+    event.dataTransfer.effectAllowed = "move";
+    // Changing the DOM during dragstart cancels the drag in some browsers
+    setTimeout(() => setDragging(true), 0);
+  };
+
+  const handleDragEnd = () => {
+    dragged.current = null;
+    setDragging(false);
+    setDropDay(null);
+  };
+
+  const handleDrop = (day: string) => {
+    const source = dragged.current;
+    handleDragEnd();
+    if (!source) return;
+    const days = differenceInCalendarDays(parseISO(day), parseISO(source.grabDay));
+    if (days !== 0) rescheduleMutation.mutate({ campaign: source.campaign, days });
+  };
+
+  const title =
+    view === "month"
+      ? format(cursor, "MMMM yyyy")
+      : `${format(visibleDays[0], "dd.MM")} – ${format(visibleDays[6], "dd.MM.yyyy")}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Campaign Calendar</h1>
+          <p className="text-gray-600 mt-2">
+            When each campaign runs. Drag a campaign to move its dates.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Select value={colorBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="status">Color by status</SelectItem>
+              <SelectItem value="branch">Color by branch</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Month</SelectItem>
+              <SelectItem value="week">Week</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {visibleOverlaps.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Overlapping campaigns</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 space-y-1">
+              {visibleOverlaps.map((overlap) => (
+                <li key={`${overlap.campaigns[0].id}-${overlap.campaigns[1].id}`}>
+                  {branchName(overlap.branchId)}: {overlap.campaigns[0].name} and{" "}
+                  {overlap.campaigns[1].name} both run from{" "}
+                  {format(parseISO(overlap.first), "dd.MM.yyyy")}
+                  {overlap.last ? ` to ${format(parseISO(overlap.last), "dd.MM.yyyy")}` : " on"}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+            <div className="flex flex-wrap justify-end gap-2 text-xs">
+              {colorBy === "status"
+                ? campaignStatuses.map((status) => (
+                    <span key={status} className={cn("px-2 py-0.5 rounded", statusColors[status])}>
+                      {statusLabels[status]}
+                    </span>
+                  ))
+                : [null, ...branches.map((branch) => branch.id)].map((branchId) => (
+                    <span
+                      key={branchId ?? "chain"}
+                      className={cn("px-2 py-0.5 rounded", branchColor(branchId))}
+                    >
+                      {branchName(branchId)}
+                    </span>
+                  ))}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="h-96 bg-gray-100 rounded animate-pulse"></div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <div className="grid grid-cols-7 bg-gray-50 border-b">
+                {WEEKDAYS.map((weekday) => (
+                  <div
+                    key={weekday}
+                    className="px-2 py-1 text-xs font-medium text-gray-500 uppercase"
+                  >
+                    {weekday}
+                  </div>
+                ))}
+              </div>
+              {weeks.map((week) => {
+                const days = week.map(dayKey);
+                const { segments, laneCount } = layoutWeek(days, dated);
+                const lanes = Math.max(laneCount, view === "week" ? 8 : 3);
+                const minHeight = DAY_HEADER_HEIGHT + lanes * BAR_HEIGHT + 8;
+                return (
+                  <div
+                    key={days[0]}
+                    className="relative border-b last:border-b-0"
+                    style={{ minHeight }}
+                  >
+                    <div className="absolute inset-0 grid grid-cols-7">
+                      {week.map((day, col) => {
+                        const key = days[col];
+                        const dayOverlaps = overlaps.filter((overlap) => coversDay(overlap, key));
+                        const outside = view === "month" && day.getMonth() !== cursor.getMonth();
+                        return (
+                          <div
+                            key={key}
+                            className={cn(
+                              "relative border-r last:border-r-0 px-2 py-1",
+                              outside && "bg-gray-50",
+                              dropDay === key && "bg-blue-50"
+                            )}
+                            onDragOver={(event) => {
+                              if (!dragged.current) return;
+                              event.preventDefault();
+                              setDropDay(key);
+                            }}
+                            onDrop={(event) => {
+                              event.preventDefault();
+                              handleDrop(key);
+                            }}
+                          >
+                            {dayOverlaps.length > 0 && (
+                              <div
+                                className="absolute inset-0 bg-red-100/60 border border-red-200"
+                                title={dayOverlaps.map(describeOverlap).join("\n")}
+                              />
+                            )}
+                            <div className="relative flex items-center justify-between text-xs">
+                              <span className={cn(outside ? "text-gray-400" : "text-gray-700")}>
+                                {format(day, view === "week" ? "EEE dd.MM" : "d")}
+                              </span>
+                              {dayOverlaps.length > 0 && (
+                                <AlertTriangle className="w-3.5 h-3.5 text-red-600" />
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {segments.map((segment) => {
+                      const { campaign } = segment;
+                      const movable = canReschedule(campaign);
+                      return (
+                        <div
+                          key={campaign.id}
+                          draggable={movable}
+                          onDragStart={(event) => handleDragStart(event, segment, days)}
+                          onDragEnd={handleDragEnd}
+                          onClick={() => setLocation(`/create-campaign?campaignId=${campaign.id}`)}
+                          title={describeCampaign(segment)}
+                          className={cn(
+                            "absolute h-5 px-2 text-xs leading-5 truncate rounded shadow-sm",
+                            "cursor-pointer",
+                            colorFor(campaign),
+                            movable && "cursor-grab",
+                            isOverlapping(campaign) && "ring-2 ring-red-500",
+                            segment.first < days[0] && "rounded-l-none",
+                            (segment.last === null || segment.last > days[6]) && "rounded-r-none",
+                            dragging && "pointer-events-none opacity-70"
+                          )}
+                          style={{
+                            top: DAY_HEADER_HEIGHT + segment.lane * BAR_HEIGHT,
+                            left: `calc(${(segment.startCol / 7) * 100}% + 2px)`,
+                            width: `calc(${
+                              ((segment.endCol - segment.startCol + 1) / 7) * 100
+                            }% - 4px)`,
+                          }}
+                        >
+                          {campaign.name}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {undatedCount > 0 && (
+            <p className="text-sm text-gray-500">
+              {undatedCount} campaign{undatedCount === 1 ? " has" : "s have"} no start date and{" "}
+              {undatedCount === 1 ? "is" : "are"} not shown.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
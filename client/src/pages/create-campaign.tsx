@@ -37,6 +37,7 @@ import {
 import { format } from "date-fns";
 import { tr } from "date-fns/locale";
 import type { Product, CampaignProduct, Template } from "@shared/schema";
+import { parseBrochureLayout } from "@shared/layout";
 
 type CreationStep = "products" | "pages" | "templates" | "date" | "editor";
 
@@ -95,7 +96,7 @@ export default function CreateCampaign() {
     queryKey: ["/api/templates", user?.id],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await fetch(`/api/templates?userId=${user.id}`);
+      const response = await fetch("/api/templates");
       if (!response.ok) throw new Error("Failed to fetch templates");
       return response.json();
     },
@@ -106,17 +107,26 @@ export default function CreateCampaign() {
   useEffect(() => {
     if (isEditing && campaign) {
       setCurrentCampaign(campaign);
+      // Restore page setup from the saved brochure layout
+      const layout = parseBrochureLayout(campaign.layout);
+      setPageCount(layout.pageCount);
+      setPageTemplates(layout.pageTemplates);
+      if (campaign.startDate) setCampaignStartDate(new Date(campaign.startDate));
+      if (campaign.endDate) {
+        setDateType("range");
+        setCampaignEndDate(new Date(campaign.endDate));
+      }
     }
   }, [campaign, isEditing]);
 
   // Load campaign products when editing
   useEffect(() => {
-    if (isEditing && campaignProducts) {
+    if (isEditing && campaign && campaignProducts) {
       setSelectedProducts(campaignProducts);
-      // Skip to editor step if editing existing campaign
+      // Skip to editor step once both the campaign and its products are loaded
       setCreationStep("editor");
     }
-  }, [campaignProducts, isEditing]);
+  }, [campaign, campaignProducts, isEditing]);
 
   // Auto-distribute products when moving to editor step
   const handleProceedToEditor = () => {
@@ -150,6 +160,8 @@ export default function CreateCampaign() {
       scaleX: 1,
       scaleY: 1,
       pageNumber: 1,
+      rotation: 0,
+      gridIndex: null,
       product,
     };
     setSelectedProducts((prev) => [...prev, campaignProduct]);
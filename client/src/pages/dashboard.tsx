@@ -4,13 +4,21 @@ import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { BarChart3, Users, Calendar, Download, Plus, Edit, Trash2, Eye, FileText, Image, Megaphone, PlayCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
-import type { Campaign } from "@shared/schema";
+import { campaignStatuses, type Campaign, type CampaignStatus } from "@shared/schema";
+
+const statusLabels: Record<CampaignStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  active: "Active",
+  completed: "Completed",
+};
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -22,12 +30,13 @@ export default function Dashboard() {
   const [isDownloadOpen, setIsDownloadOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CampaignStatus | "all">("all");
 
   const { data: campaigns = [], isLoading: campaignsLoading, error: campaignsError } = useQuery<Campaign[]>({
     queryKey: ["/api/campaigns", user?.id],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await fetch(`/api/campaigns?userId=${user.id}`);
+      const response = await fetch("/api/campaigns");
       if (!response.ok) {
         console.error('Failed to fetch campaigns:', response.status);
         return [];
@@ -48,7 +57,7 @@ export default function Dashboard() {
   }>({
     queryKey: ["/api/statistics"],
     queryFn: async () => {
-      const response = await fetch(`/api/statistics?userId=${user?.id}`);
+      const response = await fetch("/api/statistics");
       if (!response.ok) throw new Error('Failed to fetch statistics');
       return response.json();
     },
@@ -117,6 +126,8 @@ export default function Dashboard() {
     switch (status) {
       case "active":
         return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+      case "scheduled":
+        return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
       case "draft":
         return <Badge variant="secondary">Draft</Badge>;
       case "completed":
@@ -130,6 +141,11 @@ export default function Dashboard() {
     return new Date(date).toLocaleDateString();
   };
 
+  const filteredCampaigns =
+    statusFilter === "all"
+      ? campaigns
+      : campaigns.filter((campaign) => campaign.status === statusFilter);
+
   const handleDeleteConfirm = () => {
     if (campaignToDelete) {
       deleteCampaignMutation.mutate(campaignToDelete.id);
@@ -235,8 +251,26 @@ export default function Dashboard() {
 
       {/* Campaigns List */}
       <Card>
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h2 className="text-xl font-semibold text-gray-900">Recent Campaigns</h2>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as CampaignStatus | "all")}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses ({campaigns.length})</SelectItem>
+              {campaignStatuses.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {`${statusLabels[status]} (${
+                    campaigns.filter((campaign) => campaign.status === status).length
+                  })`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         {campaigns.length === 0 ? (
           <CardContent className="p-6 text-center">
@@ -249,6 +283,10 @@ export default function Dashboard() {
               <Button>Create Campaign</Button>
             </Link>
           </CardContent>
+        ) : filteredCampaigns.length === 0 ? (
+          <CardContent className="p-6 text-center text-gray-600">
+            No {statusLabels[statusFilter as CampaignStatus].toLowerCase()} campaigns
+          </CardContent>
         ) : (
           <div className="overflow-x-auto">
             <table className="w-full">
@@ -272,7 +310,7 @@ export default function Dashboard() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {Array.isArray(campaigns) && campaigns.map((campaign: Campaign) => (
+                {filteredCampaigns.map((campaign: Campaign) => (
                   <tr key={campaign.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-3">
@@ -287,6 +325,12 @@ export default function Dashboard() {
                     </td>
                     <td className="px-6 py-4">
                       {getStatusBadge(campaign.status)}
+                      {campaign.startDate && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatDate(campaign.startDate)}
+                          {campaign.endDate && ` – ${formatDate(campaign.endDate)}`}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-gray-900">{campaign.companyName || "N/A"}</td>
                     <td className="px-6 py-4 text-gray-600">
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { useBrochureTracking, usePublicBrochure } from "@/hooks/use-public-brochure";
+
+// Framed by /embed.js on store websites: a swipeable strip of the shared
+// brochure's pages. Product details live on the full /b/:slug viewer.
+export default function EmbedBrochure({ slug }: { slug: string }) {
+  const { data: brochure, error, isLoading } = usePublicBrochure(slug);
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const track = useBrochureTracking(slug, true);
+
+  useEffect(() => {
+    if (brochure) track({ type: "share_open" });
+  }, [brochure, track]);
+
+  const currentPage = brochure?.pages[current]?.pageNumber;
+  useEffect(() => {
+    if (currentPage !== undefined) track({ type: "page_view", pageNumber: currentPage });
+  }, [currentPage, track]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  // Tells the host page how tall the frame has to be
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || window.parent === window) return;
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage(
+        { type: "brochure-embed:resize", height: root.offsetHeight },
+        "*"
+      );
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [brochure, error]);
+
+  const viewerUrl = `/b/${encodeURIComponent(slug)}`;
+  const pageCount = brochure?.pages.length ?? 0;
+
+  return (
+    <div ref={rootRef} className="bg-white">
+      {isLoading ? (
+        <div className="h-64 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : !brochure || pageCount === 0 ? (
+        <p className="p-6 text-center text-sm text-gray-600">
+          {error?.status === 410
+            ? "This campaign has ended."
+            : "This brochure is not available."}
+        </p>
+      ) : (
+        <>
+          <Carousel setApi={setApi} opts={{ loop: false }}>
+            <CarouselContent className="ml-0">
+              {brochure.pages.map((page) => (
+                <CarouselItem key={page.pageNumber} className="pl-0">
+                  <a href={viewerUrl} target="_blank" rel="noreferrer">
+                    <img
+                      src={`${page.imageUrl}?width=720`}
+                      alt={`${brochure.name} - page ${page.pageNumber}`}
+                      className="w-full block"
+                      style={{ aspectRatio: String(brochure.aspectRatio) }}
+                      loading={page.pageNumber <= 2 ? "eager" : "lazy"}
+                      draggable={false}
+                    />
+                  </a>
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+          </Carousel>
+          <div className="h-14 px-2 flex items-center justify-between border-t">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => api?.scrollPrev()}
+              disabled={current === 0}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-600 tabular-nums">
+              {current + 1} / {pageCount}
+            </span>
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" asChild>
+                <a href={viewerUrl} target="_blank" rel="noreferrer" aria-label="Open brochure">
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => api?.scrollNext()}
+                disabled={current === pageCount - 1}
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
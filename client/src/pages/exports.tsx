@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileDown, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isExportFinished } from "@/hooks/use-export-job";
+import type { ExportJob, ExportStatus } from "@shared/schema";
+import { OUTPUT_FORMATS } from "@shared/layout";
+
+type ExportListItem = ExportJob & { campaignName: string | null };
+
+const statusLabels: Record<ExportStatus, string> = {
+  queued: "Queued",
+  running: "Rendering",
+  completed: "Ready",
+  failed: "Failed",
+};
+
+const statusVariants: Record<ExportStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+};
+
+function describeFormats(job: ExportJob) {
+  if (job.outputFormats.length === 0) return "Editor canvas";
+  return job.outputFormats.map((f) => OUTPUT_FORMATS[f].label).join(", ");
+}
+
+export default function Exports() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Poll while anything is still rendering; the editor follows single jobs live
+  const { data: jobs = [], isLoading } = useQuery<ExportListItem[]>({
+    queryKey: ["/api/exports"],
+    queryFn: async () => {
+      const response = await fetch("/api/exports");
+      if (!response.ok) throw new Error("Failed to fetch exports");
+      return response.json();
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => !isExportFinished(job)) ? 2000 : false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await fetch(`/api/exports/${jobId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Delete failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+      toast({
+        title: "Export deleted",
+        description: "The exported file has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Exports</h1>
+        <p className="text-gray-600 mt-2">
+          Brochure exports rendered on the server. Finished files can be downloaded until they
+          expire.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <FileDown className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No exports yet</h3>
+              <p className="text-gray-600">
+                Use Download in the brochure editor to export a saved campaign.
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="font-medium">{job.campaignName ?? "-"}</TableCell>
+                    <TableCell className="text-gray-600">
+                      <div>{job.fileType.toUpperCase()}</div>
+                      <div className="text-xs">{describeFormats(job)}</div>
+                    </TableCell>
+                    <TableCell className="min-w-40">
+                      <Badge variant={statusVariants[job.status]}>{statusLabels[job.status]}</Badge>
+                      {job.status === "running" && job.totalPages ? (
+                        <Progress
+                          value={(job.completedPages / job.totalPages) * 100}
+                          className="mt-2 h-2"
+                        />
+                      ) : null}
+                      {job.status === "failed" && job.error && (
+                        <div className="text-xs text-red-600 mt-1">{job.error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {format(new Date(job.createdAt), "dd.MM.yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {job.expiresAt ? format(new Date(job.expiresAt), "dd.MM.yyyy HH:mm") : "-"}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {job.status === "completed" && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={`/api/exports/${job.id}/download`} download>
+                            <Download className="w-4 h-4" />
+                          </a>
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => deleteMutation.mutate(job.id)}
+                        disabled={job.status === "running" || deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
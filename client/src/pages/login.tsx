@@ -1,18 +1,21 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { loginSchema, type LoginCredentials } from "@shared/schema";
-import { login } from "@/lib/auth";
+import { login, LoginError } from "@/lib/auth";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
-import { FileText, AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { FileText, AlertCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
+  // Set while the server is refusing attempts (429)
+  const [throttle, setThrottle] = useState<{ message: string; until: number } | null>(null);
   const { setUser } = useAuth();
   const { toast } = useToast();
 
@@ -24,16 +27,31 @@ export default function LoginPage() {
     },
   });
 
+  // Re-enable the form once the wait is over
+  useEffect(() => {
+    if (!throttle) return;
+    const timeout = setTimeout(() => setThrottle(null), Math.max(throttle.until - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [throttle]);
+
   const onSubmit = async (data: LoginCredentials) => {
     setIsLoading(true);
     try {
       const response = await login(data);
+      setThrottle(null);
       setUser(response.user);
       toast({
         title: "Login successful",
         description: `Welcome back, ${response.user.name}!`,
       });
     } catch (error) {
+      if (error instanceof LoginError && error.status === 429) {
+        setThrottle({
+          message: error.message,
+          until: Date.now() + (error.retryAfter ?? 60) * 1000,
+        });
+        return;
+      }
       toast({
         title: "Login failed",
         description: "Invalid credentials. Please try again.",
@@ -57,6 +75,14 @@ export default function LoginPage() {
               <p className="text-gray-600 mt-2">Professional marketing made simple</p>
             </div>
 
+            {throttle && (
+              <Alert variant="destructive" className="mb-6">
+                <Clock className="h-4 w-4" />
+                <AlertTitle>Sign-in temporarily blocked</AlertTitle>
+                <AlertDescription>{throttle.message}</AlertDescription>
+              </Alert>
+            )}
+
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div>
                 <Label htmlFor="username">Username</Label>
@@ -94,7 +120,7 @@ export default function LoginPage() {
               <Button
                 type="submit"
                 className="w-full"
-                disabled={isLoading}
+                disabled={isLoading || !!throttle}
               >
                 {isLoading ? "Signing in..." : "Sign In"}
               </Button>
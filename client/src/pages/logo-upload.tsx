@@ -20,7 +20,7 @@ export default function LogoUpload() {
     queryKey: ["/api/logos", user?.id],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await fetch(`/api/logos?userId=${user.id}`);
+      const response = await fetch("/api/logos");
       if (!response.ok) throw new Error('Failed to fetch logos');
       return response.json();
     },
@@ -31,7 +31,7 @@ export default function LogoUpload() {
     queryKey: ["/api/logos/active", user?.id],
     queryFn: async () => {
       if (!user?.id) return null;
-      const response = await fetch(`/api/logos/active?userId=${user.id}`);
+      const response = await fetch("/api/logos/active");
       if (!response.ok) return null;
       return response.json();
     },
@@ -73,8 +73,6 @@ export default function LogoUpload() {
     mutationFn: async (logoId: number) => {
       const response = await fetch(`/api/logos/${logoId}/activate`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId: user?.id }),
       });
       if (!response.ok) {
         throw new Error("Activation failed");
@@ -109,7 +107,6 @@ export default function LogoUpload() {
     const formData = new FormData();
     formData.append("file", selectedFile);
     formData.append("name", logoName);
-    formData.append("userId", user.id.toString());
 
     uploadMutation.mutate(formData);
   };
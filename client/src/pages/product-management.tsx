@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Package, Upload, Edit, Trash2, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { HistoryDialog } from "@/components/audit/history-panel";
 import type { Product, InsertProduct } from "@shared/schema";
 
 export default function ProductManagement() {
@@ -80,7 +81,10 @@ export default function ProductManagement() {
       const response = await fetch(`/api/products/${id}`, {
         method: "DELETE",
       });
-      if (!response.ok) throw new Error("Failed to delete product");
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Failed to delete product");
+      }
       return response.json();
     },
     onSuccess: () => {
@@ -88,8 +92,12 @@ export default function ProductManagement() {
       queryClient.invalidateQueries({ queryKey: ["/api/products", user?.id] });
       toast({ title: "Product deleted successfully!" });
     },
-    onError: () => {
-      toast({ title: "Failed to delete product", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete product",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -312,6 +320,11 @@ export default function ProductManagement() {
                       ${product.originalPrice}
                     </span>
                     <div className="flex gap-2">
+                      <HistoryDialog
+                        title={`History: ${product.name}`}
+                        entityType="product"
+                        entityId={product.id}
+                      />
                       <Button
                         size="sm"
                         variant="outline"
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfDay, subMonths } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, FileText } from "lucide-react";
+import type { Product, ProductReport as ProductReportData } from "@shared/schema";
+
+const PERIODS = [
+  { months: 0, label: "All time" },
+  { months: 3, label: "Last 3 months" },
+  { months: 6, label: "Last 6 months" },
+  { months: 12, label: "Last 12 months" },
+];
+
+const formatNumber = (value: number) => value.toLocaleString("tr-TR");
+const formatPercent = (value: number) => `%${value.toLocaleString("tr-TR")}`;
+const formatPrice = (value: number) =>
+  `₺${value.toLocaleString("tr-TR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (value: Date | string) => format(new Date(value), "dd.MM.yyyy");
+
+// The same filters drive the table and both downloads
+function reportParams(months: number, category: string) {
+  const params = new URLSearchParams();
+  if (months > 0) params.set("from", startOfDay(subMonths(new Date(), months)).toISOString());
+  if (category !== "all") params.set("category", category);
+  return params.toString();
+}
+
+export default function ProductReport() {
+  const { user } = useAuth();
+  const [months, setMonths] = useState(0);
+  const [category, setCategory] = useState("all");
+  const query = reportParams(months, category);
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: !!user,
+  });
+  const categoryOptions = Array.from(new Set(products.map((product) => product.category))).sort(
+    (a, b) => a.localeCompare(b, "tr")
+  );
+
+  const { data: report, isLoading } = useQuery<ProductReportData>({
+    queryKey: ["/api/reports/products", query],
+    queryFn: async () => {
+      const response = await fetch(`/api/reports/products?${query}`);
+      if (!response.ok) throw new Error("Failed to fetch product report");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Product Report</h1>
+          <p className="text-gray-600 mt-2">
+            How often each product is featured in campaigns and at what discount
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {categoryOptions.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period.months} value={String(period.months)}>
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" asChild>
+            <a href={`/api/reports/products.csv?${query}`} download>
+              <FileText className="w-4 h-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/reports/products.xlsx?${query}`} download>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-48 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">By category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.categories.length === 0 ? (
+                <p className="text-sm text-gray-600 py-4 text-center">
+                  No products featured in this period
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Products</TableHead>
+                      <TableHead className="text-right">Campaigns</TableHead>
+                      <TableHead className="text-right">Avg discount</TableHead>
+                      <TableHead className="text-right">Max discount</TableHead>
+                      <TableHead className="text-right">Clicks</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.categories.map((row) => (
+                      <TableRow key={row.category}>
+                        <TableCell className="font-medium">{row.category}</TableCell>
+                        <TableCell className="text-right">{formatNumber(row.productCount)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatNumber(row.campaignCount)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatPercent(row.avgDiscountPercent)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatPercent(row.maxDiscountPercent)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(row.clicks)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">By product</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.products.length === 0 ? (
+                <p className="text-sm text-gray-600 py-4 text-center">
+                  No products featured in this period
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Campaigns</TableHead>
+                      <TableHead className="text-right">Avg discount</TableHead>
+                      <TableHead className="text-right">Max discount</TableHead>
+                      <TableHead className="text-right">Original price</TableHead>
+                      <TableHead className="text-right">Avg new price</TableHead>
+                      <TableHead>Featured</TableHead>
+                      <TableHead className="text-right">Clicks</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.products.map((row) => (
+                      <TableRow key={row.productId}>
+                        <TableCell>
+                          <p className="font-medium">{row.name}</p>
+                          <p className="text-xs text-gray-500">{row.category}</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatNumber(row.campaignCount)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatPercent(row.avgDiscountPercent)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatPercent(row.maxDiscountPercent)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(row.originalPrice)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPrice(row.avgNewPrice)}
+                          <p className="text-xs text-gray-500">
+                            {formatPercent(row.avgSavingPercent)} less
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600 whitespace-nowrap">
+                          {formatDate(row.firstFeaturedAt)} – {formatDate(row.lastFeaturedAt)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(row.clicks)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  updateProfileSchema,
+  changePasswordSchema,
+  type UpdateProfile,
+  type ChangePassword,
+  userRoleLabels,
+} from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+async function readError(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null);
+  return body?.message || fallback;
+}
+
+export default function Profile() {
+  const { user, setUser } = useAuth();
+  const { toast } = useToast();
+
+  const profileForm = useForm<UpdateProfile>({
+    resolver: zodResolver(updateProfileSchema),
+    defaultValues: { name: user?.name || "" },
+  });
+
+  const passwordForm = useForm<ChangePassword>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "" },
+  });
+
+  useEffect(() => {
+    if (user) profileForm.reset({ name: user.name });
+  }, [user]);
+
+  const profileMutation = useMutation({
+    mutationFn: async (data: UpdateProfile) => {
+      const response = await fetch("/api/auth/me", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Update failed"));
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setUser(data.user);
+      toast({
+        title: "Profile updated",
+        description: "Your details have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async (data: ChangePassword) => {
+      const response = await fetch("/api/auth/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Password change failed"));
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      passwordForm.reset();
+      toast({
+        title: "Password changed",
+        description: "Use your new password the next time you sign in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password change failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Profile</h1>
+        <p className="text-gray-600 mt-2">
+          Signed in as <strong>{user?.username}</strong>
+          {user?.role && ` · ${userRoleLabels[user.role]}`}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-8">
+          <form
+            onSubmit={profileForm.handleSubmit((data) => profileMutation.mutate(data))}
+            className="space-y-6"
+          >
+            <h2 className="text-xl font-semibold text-gray-900">Your Details</h2>
+            <div>
+              <Label htmlFor="profile-name">Name</Label>
+              <Input id="profile-name" {...profileForm.register("name")} className="mt-2" />
+              {profileForm.formState.errors.name && (
+                <p className="text-sm text-red-600 mt-1 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {profileForm.formState.errors.name.message}
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={profileMutation.isPending}>
+              {profileMutation.isPending ? "Saving..." : "Save Details"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-8">
+          <form
+            onSubmit={passwordForm.handleSubmit((data) => passwordMutation.mutate(data))}
+            className="space-y-6"
+          >
+            <h2 className="text-xl font-semibold text-gray-900">Change Password</h2>
+            <div>
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                {...passwordForm.register("currentPassword")}
+                className="mt-2"
+              />
+              {passwordForm.formState.errors.currentPassword && (
+                <p className="text-sm text-red-600 mt-1 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {passwordForm.formState.errors.currentPassword.message}
+                </p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                {...passwordForm.register("newPassword")}
+                className="mt-2"
+              />
+              {passwordForm.formState.errors.newPassword && (
+                <p className="text-sm text-red-600 mt-1 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {passwordForm.formState.errors.newPassword.message}
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={passwordMutation.isPending}>
+              {passwordMutation.isPending ? "Changing..." : "Change Password"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
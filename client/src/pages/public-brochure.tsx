@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarX, ChevronLeft, ChevronRight, FileQuestion } from "lucide-react";
+import {
+  BrochureUnavailableError,
+  useBrochureTracking,
+  usePublicBrochure,
+} from "@/hooks/use-public-brochure";
+import type { PublicBrochure, PublicBrochureHotspot } from "@shared/schema";
+
+const SWIPE_THRESHOLD = 50;
+
+const formatDate = (value: Date | string) => format(new Date(value), "d MMMM yyyy", { locale: tr });
+
+const formatPrice = (value: number) => `₺${value.toFixed(2)}`;
+
+function describeValidity(brochure: Pick<PublicBrochure, "startDate" | "endDate" | "validUntil">) {
+  const { startDate, endDate, validUntil } = brochure;
+  if (startDate && endDate) return `${formatDate(startDate)} - ${formatDate(endDate)}`;
+  if (endDate) return `Until ${formatDate(endDate)}`;
+  return validUntil;
+}
+
+function Unavailable({ error }: { error: BrochureUnavailableError | null }) {
+  const ended = error?.status === 410;
+  const Icon = ended ? CalendarX : FileQuestion;
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <div className="text-center max-w-sm">
+        <div className="w-16 h-16 bg-white rounded-full flex items-center justify-center mx-auto mb-4">
+          <Icon className="w-8 h-8 text-gray-400" />
+        </div>
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          {ended ? "This campaign has ended" : "Brochure not found"}
+        </h1>
+        <p className="text-gray-600">
+          {ended && error.endDate
+            ? `The offers in this brochure were valid until ${formatDate(error.endDate)}.`
+            : "The link may be mistyped, or the brochure is no longer shared."}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ProductDialog({
+  hotspot,
+  validity,
+  onClose,
+}: {
+  hotspot: PublicBrochureHotspot | null;
+  validity: string | null;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={!!hotspot} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        {hotspot && (
+          <>
+            {hotspot.imageUrl && (
+              <img
+                src={hotspot.imageUrl}
+                alt={hotspot.name}
+                className="w-full h-48 object-contain rounded-md bg-gray-50"
+              />
+            )}
+            <DialogHeader>
+              <DialogTitle>{hotspot.name}</DialogTitle>
+              {hotspot.description && (
+                <DialogDescription>{hotspot.description}</DialogDescription>
+              )}
+            </DialogHeader>
+            <div className="flex items-baseline gap-3">
+              <span className="text-2xl font-bold text-red-600">
+                {formatPrice(hotspot.newPrice)}
+              </span>
+              {hotspot.originalPrice > hotspot.newPrice && (
+                <span className="text-gray-500 line-through">
+                  {formatPrice(hotspot.originalPrice)}
+                </span>
+              )}
+              {hotspot.discountPercent > 0 && (
+                <Badge variant="destructive">-{Math.round(hotspot.discountPercent)}%</Badge>
+              )}
+            </div>
+            {validity && <p className="text-sm text-gray-600">Valid {validity}</p>}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Read-only brochure behind a share link: pages turn like a printed leaflet
+// and every product opens its details
+export default function PublicBrochurePage({ slug }: { slug: string }) {
+  const [current, setCurrent] = useState(0);
+  const [selected, setSelected] = useState<PublicBrochureHotspot | null>(null);
+  const touchStartX = useRef<number | null>(null);
+
+  const { data: brochure, error, isLoading } = usePublicBrochure(slug);
+  const track = useBrochureTracking(slug);
+
+  const pageCount = brochure?.pages.length ?? 0;
+  const goTo = (index: number) => setCurrent(Math.min(Math.max(index, 0), pageCount - 1));
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowRight") setCurrent((i) => Math.min(i + 1, pageCount - 1));
+      if (event.key === "ArrowLeft") setCurrent((i) => Math.max(i - 1, 0));
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [pageCount]);
+
+  useEffect(() => {
+    if (!brochure) return;
+    document.title = brochure.name;
+    track({ type: "share_open" });
+  }, [brochure, track]);
+
+  const currentPage = brochure?.pages[current]?.pageNumber;
+  useEffect(() => {
+    if (currentPage !== undefined) track({ type: "page_view", pageNumber: currentPage });
+  }, [currentPage, track]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!brochure || brochure.pages.length === 0) {
+    return <Unavailable error={error} />;
+  }
+
+  const validity = describeValidity(brochure);
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <header className="bg-white border-b px-4 py-3 text-center">
+        <h1 className="font-semibold text-gray-900">{brochure.name}</h1>
+        {validity && <p className="text-sm text-gray-600">{validity}</p>}
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-4 p-4">
+        <div
+          className="relative w-full select-none [perspective:2000px]"
+          style={{
+            aspectRatio: String(brochure.aspectRatio),
+            maxWidth: `min(100%, calc((100vh - 10rem) * ${brochure.aspectRatio}))`,
+          }}
+          onTouchStart={(event) => (touchStartX.current = event.touches[0].clientX)}
+          onTouchEnd={(event) => {
+            if (touchStartX.current === null) return;
+            const delta = event.changedTouches[0].clientX - touchStartX.current;
+            touchStartX.current = null;
+            if (Math.abs(delta) < SWIPE_THRESHOLD) return;
+            goTo(current + (delta < 0 ? 1 : -1));
+          }}
+        >
+          {/* Turned pages swing over the spine and out of view */}
+          {brochure.pages.map((page, index) => (
+            <div
+              key={page.pageNumber}
+              className="absolute inset-0 origin-left transition-transform duration-700 ease-in-out [backface-visibility:hidden] shadow-lg bg-white"
+              style={{
+                transform: index < current ? "rotateY(-180deg)" : "rotateY(0deg)",
+                zIndex: index < current ? index : pageCount - index,
+                pointerEvents: index === current ? "auto" : "none",
+              }}
+              aria-hidden={index !== current}
+            >
+              <img
+                src={page.imageUrl}
+                alt={`${brochure.name} - page ${page.pageNumber}`}
+                className="w-full h-full object-contain"
+                loading={Math.abs(index - current) <= 1 ? "eager" : "lazy"}
+                draggable={false}
+              />
+              {page.hotspots.map((hotspot) => (
+                <button
+                  key={hotspot.campaignProductId}
+                  type="button"
+                  className="absolute rounded-md transition-colors hover:bg-black/10 focus-visible:outline focus-visible:outline-2 focus-visible:outline-primary"
+                  style={{
+                    left: `${hotspot.left}%`,
+                    top: `${hotspot.top}%`,
+                    width: `${hotspot.width}%`,
+                    height: `${hotspot.height}%`,
+                  }}
+                  aria-label={hotspot.name}
+                  onClick={() => {
+                    setSelected(hotspot);
+                    track({
+                      type: "product_click",
+                      campaignProductId: hotspot.campaignProductId,
+                    });
+                  }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goTo(current - 1)}
+            disabled={current === 0}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-600 tabular-nums">
+            {current + 1} / {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goTo(current + 1)}
+            disabled={current === pageCount - 1}
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </main>
+
+      <ProductDialog hotspot={selected} validity={validity} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
@@ -1,47 +1,316 @@
-import { Card, CardContent } from "@/components/ui/card";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Share2, Facebook, Twitter, Instagram, Linkedin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Code, Copy, ExternalLink, Link2Off, Share2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { shareableCampaignStatuses, type Campaign, type Organization } from "@shared/schema";
+
+const shareUrl = (campaign: Campaign) => `${window.location.origin}/b/${campaign.shareSlug}`;
+
+const embedSnippet = (campaign: Campaign) =>
+  `<div data-campaign="${campaign.shareSlug}"></div>\n` +
+  `<script src="${window.location.origin}/embed.js" async></script>`;
+
+// Mirrors the server: the end date counts as a full day
+function hasEnded(campaign: Campaign) {
+  if (!campaign.endDate) return false;
+  const end = new Date(campaign.endDate);
+  end.setHours(23, 59, 59, 999);
+  return new Date() > end;
+}
 
 export default function SocialMedia() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [embedCampaign, setEmbedCampaign] = useState<Campaign | null>(null);
+  const [originsText, setOriginsText] = useState("");
+  const isAdmin = user?.role === "admin";
+
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+    queryFn: async () => {
+      const response = await fetch("/api/organization");
+      if (!response.ok) throw new Error("Failed to fetch organization");
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (organization) setOriginsText(organization.embedOrigins.join("\n"));
+  }, [organization]);
+
+  const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns", user?.id],
+    queryFn: async () => {
+      const response = await fetch("/api/campaigns");
+      if (!response.ok) throw new Error("Failed to fetch campaigns");
+      return response.json();
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ campaignId, shared }: { campaignId: number; shared: boolean }) => {
+      const response = await fetch(`/api/campaigns/${campaignId}/share`, {
+        method: shared ? "POST" : "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Could not update sharing");
+      }
+      return response.json() as Promise<Campaign>;
+    },
+    onSuccess: (campaign) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      if (campaign.shareSlug) {
+        copyLink(campaign);
+      } else {
+        toast({
+          title: "Link disabled",
+          description: "The brochure is no longer publicly available.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sharing failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const originsMutation = useMutation({
+    mutationFn: async (embedOrigins: string[]) => {
+      const response = await fetch("/api/organization/embed-origins", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ embedOrigins }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Could not save allowed websites");
+      }
+      return response.json() as Promise<Organization>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/organization"], updated);
+      toast({
+        title: "Allowed websites saved",
+        description: `${updated.embedOrigins.length} website(s) can embed your brochures.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveOrigins = () =>
+    originsMutation.mutate(
+      originsText
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+    );
+
+  const copySnippet = async (campaign: Campaign) => {
+    try {
+      await navigator.clipboard.writeText(embedSnippet(campaign));
+      toast({ title: "Embed code copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the code and copy it manually." });
+    }
+  };
+
+  const copyLink = async (campaign: Campaign) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(campaign));
+      toast({ title: "Link copied", description: shareUrl(campaign) });
+    } catch {
+      toast({ title: "Share link", description: shareUrl(campaign) });
+    }
+  };
+
   return (
-    <div className="max-w-4xl mx-auto space-y-8">
+    <div className="max-w-5xl mx-auto space-y-8">
       <div>
         <h1 className="text-3xl font-bold text-gray-900">Social Media</h1>
-        <p className="text-gray-600 mt-2">Share your campaigns across social platforms</p>
+        <p className="text-gray-600 mt-2">
+          Publish campaigns as interactive brochures anyone can open from a link, and share the
+          link on your social channels. Links stop working once a campaign ends.
+        </p>
       </div>
 
-      {/* Coming Soon */}
       <Card>
-        <CardContent className="p-12 text-center">
-          <div className="w-20 h-20 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
-            <Share2 className="w-10 h-10 text-primary" />
-          </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">Social Media Integration</h2>
-          <p className="text-gray-600 mb-6 max-w-md mx-auto">
-            Connect your social media accounts to share campaigns directly from the platform.
-            This feature is coming soon!
-          </p>
-          
-          <div className="flex justify-center space-x-4 mb-8">
-            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-              <Facebook className="w-6 h-6 text-blue-600" />
-            </div>
-            <div className="w-12 h-12 bg-sky-100 rounded-lg flex items-center justify-center">
-              <Twitter className="w-6 h-6 text-sky-600" />
-            </div>
-            <div className="w-12 h-12 bg-pink-100 rounded-lg flex items-center justify-center">
-              <Instagram className="w-6 h-6 text-pink-600" />
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+              ))}
             </div>
-            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-              <Linkedin className="w-6 h-6 text-blue-700" />
+          ) : campaigns.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Share2 className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No campaigns yet</h3>
+              <p className="text-gray-600">Create a campaign to publish it as a brochure.</p>
             </div>
-          </div>
-          
-          <Button disabled>
-            Coming Soon
-          </Button>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Runs</TableHead>
+                  <TableHead>Link</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">{campaign.name}</TableCell>
+                    <TableCell className="text-gray-600">
+                      {campaign.startDate ? format(new Date(campaign.startDate), "dd.MM.yyyy") : "-"}
+                      {" - "}
+                      {campaign.endDate ? format(new Date(campaign.endDate), "dd.MM.yyyy") : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {!campaign.shareSlug ? (
+                        <Badge variant="outline">Not shared</Badge>
+                      ) : hasEnded(campaign) ? (
+                        <Badge variant="secondary">Ended</Badge>
+                      ) : !shareableCampaignStatuses.includes(campaign.status) ? (
+                        <Badge variant="secondary">Hidden</Badge>
+                      ) : (
+                        <Badge>Live</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {campaign.shareSlug ? (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(campaign)}>
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEmbedCampaign(campaign)}
+                          >
+                            <Code className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={`/b/${campaign.shareSlug}`} target="_blank" rel="noreferrer">
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() =>
+                              shareMutation.mutate({ campaignId: campaign.id, shared: false })
+                            }
+                            disabled={shareMutation.isPending}
+                          >
+                            <Link2Off className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() =>
+                            shareMutation.mutate({ campaignId: campaign.id, shared: true })
+                          }
+                          disabled={
+                            shareMutation.isPending ||
+                            !shareableCampaignStatuses.includes(campaign.status)
+                          }
+                          title={
+                            shareableCampaignStatuses.includes(campaign.status)
+                              ? undefined
+                              : "Schedule the campaign before publishing it"
+                          }
+                        >
+                          <Share2 className="w-4 h-4 mr-2" />
+                          Publish
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Website embedding</CardTitle>
+          <CardDescription>
+            Shared brochures can be shown on these websites with the embed code. Enter one address
+            per line, e.g. https://www.example.com.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={originsText}
+            onChange={(event) => setOriginsText(event.target.value)}
+            placeholder="https://www.example.com"
+            rows={4}
+            disabled={!isAdmin}
+          />
+          {isAdmin ? (
+            <Button onClick={saveOrigins} disabled={originsMutation.isPending}>
+              Save allowed websites
+            </Button>
+          ) : (
+            <p className="text-sm text-gray-600">Only admins can change the allowed websites.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!embedCampaign} onOpenChange={(open) => !open && setEmbedCampaign(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Embed {embedCampaign?.name}</DialogTitle>
+            <DialogDescription>
+              Paste this where the brochure should appear. It only loads on allowed websites.
+            </DialogDescription>
+          </DialogHeader>
+          {embedCampaign && (
+            <>
+              <pre className="bg-gray-100 rounded-md p-3 text-xs whitespace-pre-wrap break-all">
+                {embedSnippet(embedCampaign)}
+              </pre>
+              <Button onClick={() => copySnippet(embedCampaign)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy code
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
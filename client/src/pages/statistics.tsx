@@ -1,30 +1,209 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { format, startOfDay, subDays } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
-import { Card, CardContent } from "@/components/ui/card";
-import { BarChart3, TrendingUp, Users, Eye } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Download, Eye, MousePointerClick, Share2 } from "lucide-react";
+import type { AnalyticsDimension, AnalyticsReport, AnalyticsRow, Campaign } from "@shared/schema";
+
+const RANGES = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const chartConfig = {
+  shareOpens: { label: "Link opens", color: "hsl(207, 90%, 54%)" },
+  pageViews: { label: "Page views", color: "hsl(142, 71%, 45%)" },
+  productClicks: { label: "Product clicks", color: "hsl(271, 81%, 56%)" },
+  downloads: { label: "Downloads", color: "hsl(38, 92%, 50%)" },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => value.toLocaleString("tr-TR");
+
+// Product clicks per page view
+const clickRate = (row: Pick<AnalyticsRow, "pageViews" | "productClicks">) =>
+  row.pageViews > 0 ? `${((row.productClicks / row.pageViews) * 100).toFixed(1)}%` : "-";
+
+function useAnalytics(dimension: AnalyticsDimension, days: number, campaignId: string) {
+  const { user } = useAuth();
+  return useQuery<AnalyticsReport>({
+    queryKey: ["/api/analytics", dimension, days, campaignId],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        from: startOfDay(subDays(new Date(), days - 1)).toISOString(),
+      });
+      if (campaignId !== "all") params.set("campaignId", campaignId);
+      const response = await fetch(`/api/analytics/${dimension}?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch analytics");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+  icon: Icon,
+  iconClassName,
+}: {
+  label: string;
+  value: number;
+  detail?: string;
+  icon: typeof Eye;
+  iconClassName: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-600">{label}</p>
+            <p className="text-2xl font-bold text-gray-900">{formatNumber(value)}</p>
+            {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+          </div>
+          <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${iconClassName}`}>
+            <Icon className="w-6 h-6" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BreakdownTable({
+  title,
+  rows,
+  nameHeader,
+}: {
+  title: string;
+  rows: AnalyticsRow[];
+  nameHeader: string;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-600 py-4 text-center">No activity in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{nameHeader}</TableHead>
+                <TableHead className="text-right">Opens</TableHead>
+                <TableHead className="text-right">Views</TableHead>
+                <TableHead className="text-right">Clicks</TableHead>
+                <TableHead className="text-right">Downloads</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, 10).map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.shareOpens)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.pageViews)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.productClicks)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.downloads)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Statistics() {
   const { user } = useAuth();
+  const [days, setDays] = useState(30);
+  const [campaignId, setCampaignId] = useState("all");
 
-  const { data: stats, isLoading } = useQuery<{
-    totalCampaigns: number;
-    activeCampaigns: number;
-    totalTemplates: number;
-    totalDownloads: number;
-  }>({
-    queryKey: ["/api/statistics", user?.id],
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns", user?.id],
+    queryFn: async () => {
+      const response = await fetch("/api/campaigns");
+      if (!response.ok) throw new Error("Failed to fetch campaigns");
+      return response.json();
+    },
     enabled: !!user,
   });
 
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
+  const daily = useAnalytics("day", days, campaignId);
+  const byCampaign = useAnalytics("campaign", days, campaignId);
+  const byProduct = useAnalytics("product", days, campaignId);
+  const byChannel = useAnalytics("channel", days, campaignId);
+
+  const totals = daily.data?.totals;
+  const dailyRows = (daily.data?.rows ?? []).map((row) => ({
+    ...row,
+    day: format(new Date(`${row.key}T00:00:00`), "dd.MM"),
+  }));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Statistics</h1>
-          <p className="text-gray-600 mt-2">Track your campaign performance</p>
+          <p className="text-gray-600 mt-2">
+            Opens, page views and product clicks on shared brochures, and downloads from the
+            editor
+          </p>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[...Array(6)].map((_, i) => (
+        <div className="flex gap-3">
+          <Select value={campaignId} onValueChange={setCampaignId}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All campaigns</SelectItem>
+              {campaigns.map((campaign) => (
+                <SelectItem key={campaign.id} value={String(campaign.id)}>
+                  {campaign.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range.days} value={String(range.days)}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {daily.isLoading || !totals ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {[...Array(4)].map((_, i) => (
             <Card key={i} className="animate-pulse">
               <CardContent className="p-6">
                 <div className="h-20 bg-gray-200 rounded"></div>
@@ -32,123 +211,133 @@ export default function Statistics() {
             </Card>
           ))}
         </div>
-      </div>
-    );
-  }
-
-  const mockEngagementData = [
-    { platform: "Email", views: 1250, clicks: 89 },
-    { platform: "Social Media", views: 2340, clicks: 156 },
-    { platform: "Direct Link", views: 890, clicks: 67 },
-  ];
-
-  return (
-    <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Statistics</h1>
-        <p className="text-gray-600 mt-2">Track your campaign performance and analytics</p>
-      </div>
-
-      {/* Overview Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Total Campaigns</p>
-                <p className="text-2xl font-bold text-gray-900">{stats?.totalCampaigns || 0}</p>
-                <p className="text-xs text-green-600 mt-1">↗ +12% this month</p>
-              </div>
-              <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-                <BarChart3 className="w-6 h-6 text-blue-600" />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Total Views</p>
-                <p className="text-2xl font-bold text-gray-900">4,580</p>
-                <p className="text-xs text-green-600 mt-1">↗ +24% this month</p>
-              </div>
-              <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center">
-                <Eye className="w-6 h-6 text-green-600" />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Engagement Rate</p>
-                <p className="text-2xl font-bold text-gray-900">6.8%</p>
-                <p className="text-xs text-green-600 mt-1">↗ +3.2% this month</p>
-              </div>
-              <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
-                <TrendingUp className="w-6 h-6 text-purple-600" />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardContent className="p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Downloads</p>
-                <p className="text-2xl font-bold text-gray-900">{stats?.totalDownloads || 0}</p>
-                <p className="text-xs text-green-600 mt-1">↗ +18% this month</p>
-              </div>
-              <div className="w-12 h-12 bg-amber-100 rounded-xl flex items-center justify-center">
-                <Users className="w-6 h-6 text-amber-600" />
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <StatCard
+            label="Link opens"
+            value={totals.shareOpens}
+            icon={Share2}
+            iconClassName="bg-blue-100 text-blue-600"
+          />
+          <StatCard
+            label="Page views"
+            value={totals.pageViews}
+            icon={Eye}
+            iconClassName="bg-green-100 text-green-600"
+          />
+          <StatCard
+            label="Product clicks"
+            value={totals.productClicks}
+            detail={`${clickRate(totals)} of page views`}
+            icon={MousePointerClick}
+            iconClassName="bg-purple-100 text-purple-600"
+          />
+          <StatCard
+            label="Downloads"
+            value={totals.downloads}
+            icon={Download}
+            iconClassName="bg-amber-100 text-amber-600"
+          />
+        </div>
+      )}
 
-      {/* Engagement Breakdown */}
       <Card>
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Engagement by Platform</h2>
-        </div>
-        <CardContent className="p-6">
-          <div className="space-y-4">
-            {mockEngagementData.map((item, index) => (
-              <div key={index} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <h3 className="font-semibold text-gray-900">{item.platform}</h3>
-                  <p className="text-sm text-gray-600">{item.views} views • {item.clicks} clicks</p>
-                </div>
-                <div className="text-right">
-                  <p className="font-semibold text-gray-900">
-                    {((item.clicks / item.views) * 100).toFixed(1)}%
-                  </p>
-                  <p className="text-xs text-gray-500">CTR</p>
-                </div>
-              </div>
-            ))}
-          </div>
+        <CardHeader>
+          <CardTitle className="text-lg">Daily activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {dailyRows.length === 0 ? (
+            <div className="h-64 flex items-center justify-center text-gray-400">
+              <BarChart3 className="w-8 h-8" />
+            </div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <LineChart data={dailyRows} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(chartConfig).map((metric) => (
+                  <Line
+                    key={metric}
+                    dataKey={metric}
+                    type="monotone"
+                    stroke={`var(--color-${metric})`}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
         </CardContent>
       </Card>
 
-      {/* Coming Soon */}
       <Card>
-        <CardContent className="p-8 text-center">
-          <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
-            <BarChart3 className="w-8 h-8 text-primary" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">Advanced Analytics</h3>
-          <p className="text-gray-600">
-            Detailed analytics including conversion tracking, A/B testing results, and more insights coming soon.
-          </p>
+        <CardHeader>
+          <CardTitle className="text-lg">By channel</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {(byChannel.data?.rows ?? []).length === 0 ? (
+            <p className="text-sm text-gray-600 py-4 text-center">
+              No visits yet. Add utm_source to shared links (e.g. ?utm_source=instagram) to tell
+              channels apart.
+            </p>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={byChannel.data!.rows} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="shareOpens" fill="var(--color-shareOpens)" radius={4} />
+                <Bar dataKey="productClicks" fill="var(--color-productClicks)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
         </CardContent>
       </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <BreakdownTable
+          title="Top campaigns"
+          nameHeader="Campaign"
+          rows={byCampaign.data?.rows ?? []}
+        />
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Most clicked products</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {(byProduct.data?.rows ?? []).length === 0 ? (
+              <p className="text-sm text-gray-600 py-4 text-center">
+                No product clicks in this period
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Clicks</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byProduct.data!.rows.slice(0, 10).map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">
+                        {formatNumber(row.productClicks)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
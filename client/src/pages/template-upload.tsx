@@ -23,7 +23,7 @@ export default function TemplateUpload() {
     queryKey: ["/api/templates", user?.id],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await fetch(`/api/templates?userId=${user.id}`);
+      const response = await fetch("/api/templates");
       if (!response.ok) throw new Error('Failed to fetch templates');
       return response.json();
     },
@@ -105,7 +105,6 @@ export default function TemplateUpload() {
     formData.append("file", selectedFile);
     formData.append("name", templateName);
     formData.append("description", templateDescription);
-    formData.append("userId", user.id.toString());
 
     uploadMutation.mutate(formData);
   };
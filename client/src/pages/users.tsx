@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users as UsersIcon, Edit, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { userRoles, userRoleLabels, type Branch, type User, type UserRole } from "@shared/schema";
+
+type SafeUser = Omit<User, "password">;
+
+type UserForm = {
+  username: string;
+  name: string;
+  password: string;
+  role: UserRole;
+  branchId: number | null;
+};
+
+const emptyForm: UserForm = {
+  username: "",
+  name: "",
+  password: "",
+  role: "designer",
+  branchId: null,
+};
+
+export default function Users() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<UserForm>(emptyForm);
+
+  const { data: users = [], isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+    queryFn: async () => {
+      const response = await fetch("/api/users");
+      if (!response.ok) throw new Error("Failed to fetch users");
+      return response.json();
+    },
+  });
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+    queryFn: async () => {
+      const response = await fetch("/api/branches");
+      if (!response.ok) throw new Error("Failed to fetch branches");
+      return response.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UserForm) => {
+      // Leaving the password empty while editing keeps the current one
+      const { password, ...rest } = data;
+      const body = editingId && !password ? rest : data;
+      const response = await fetch(editingId ? `/api/users/${editingId}` : "/api/users", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Save failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: editingId ? "User updated" : "User created",
+        description: editingId
+          ? "The account has been updated."
+          : "The new user can now sign in.",
+      });
+      setEditingId(null);
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/users/${userId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Delete failed");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User deleted",
+        description: "The account has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (user: SafeUser) => {
+    setEditingId(user.id);
+    setForm({
+      username: user.username,
+      name: user.name,
+      password: "",
+      role: user.role,
+      branchId: user.branchId,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const branchName = (branchId: number | null) =>
+    branches.find((b) => b.id === branchId)?.name || "Headquarters";
+
+  const canSave =
+    !!form.username && !!form.name && (!!editingId || form.password.length >= 8);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+        <p className="text-gray-600 mt-2">Create accounts and assign roles and branches</p>
+      </div>
+
+      {/* User form */}
+      <Card>
+        <CardContent className="p-8">
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900">
+              {editingId ? "Edit User" : "Add User"}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="user-username">Username</Label>
+                <Input
+                  id="user-username"
+                  value={form.username}
+                  onChange={(e) => setForm((prev) => ({ ...prev, username: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="user-name">Name</Label>
+                <Input
+                  id="user-name"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="user-password">
+                  {editingId ? "New Password (optional)" : "Password"}
+                </Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={form.password}
+                  onChange={(e) => setForm((prev) => ({ ...prev, password: e.target.value }))}
+                  placeholder="At least 8 characters"
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label>Role</Label>
+                <Select
+                  value={form.role}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, role: value as UserRole }))}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {userRoles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {userRoleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Branch</Label>
+                <Select
+                  value={form.branchId ? form.branchId.toString() : "none"}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      branchId: value === "none" ? null : parseInt(value),
+                    }))
+                  }
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Headquarters</SelectItem>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id.toString()}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!canSave || saveMutation.isPending}
+                className="flex-1"
+              >
+                {saveMutation.isPending ? "Saving..." : editingId ? "Save Changes" : "Add User"}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* User list */}
+      <Card>
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">All Users</h2>
+        </div>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-8">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <UsersIcon className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No users yet</h3>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Branch</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">{user.name}</TableCell>
+                    <TableCell className="text-gray-600">{user.username}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{userRoleLabels[user.role]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-600">{branchName(user.branchId)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(user)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => deleteMutation.mutate(user.id)}
+                        disabled={deleteMutation.isPending || user.id === currentUser?.id}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+CREATE TABLE "campaign_products" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"product_id" integer NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"discount_percent" real DEFAULT 0 NOT NULL,
+	"new_price" real NOT NULL,
+	"position_x" real DEFAULT 0,
+	"position_y" real DEFAULT 0,
+	"scale_x" real DEFAULT 1.4,
+	"scale_y" real DEFAULT 1.4,
+	"page_number" integer DEFAULT 1
+);
+--> statement-breakpoint
+CREATE TABLE "campaigns" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"user_id" integer NOT NULL,
+	"template_id" integer,
+	"logo_id" integer,
+	"company_name" text,
+	"start_date" timestamp,
+	"end_date" timestamp,
+	"valid_until" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "logos" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"is_active" boolean DEFAULT false NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "products" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"category" text NOT NULL,
+	"original_price" real NOT NULL,
+	"image_url" text,
+	"description" text
+);
+--> statement-breakpoint
+CREATE TABLE "templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"file_path" text NOT NULL,
+	"thumbnail_path" text,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "campaign_products" ADD COLUMN "rotation" real DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "campaign_products" ADD COLUMN "grid_index" integer;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "layout" jsonb;
\ No newline at end of file
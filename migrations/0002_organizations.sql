@@ -0,0 +1,41 @@
+CREATE TABLE "branches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"address" text,
+	"phone" text,
+	"instagram" text,
+	"facebook" text,
+	"twitter" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Existing data predates organizations: put everything in one default
+-- organization and keep every existing user as its administrator.
+INSERT INTO "organizations" ("name") SELECT 'Default organization' WHERE EXISTS (SELECT 1 FROM "users") OR EXISTS (SELECT 1 FROM "products") OR EXISTS (SELECT 1 FROM "templates") OR EXISTS (SELECT 1 FROM "logos") OR EXISTS (SELECT 1 FROM "campaigns");--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "branch_id" integer;--> statement-breakpoint
+ALTER TABLE "logos" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "templates" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "branch_id" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+UPDATE "campaigns" SET "organization_id" = (SELECT MIN("id") FROM "organizations");--> statement-breakpoint
+UPDATE "logos" SET "organization_id" = (SELECT MIN("id") FROM "organizations");--> statement-breakpoint
+UPDATE "products" SET "organization_id" = (SELECT MIN("id") FROM "organizations");--> statement-breakpoint
+UPDATE "templates" SET "organization_id" = (SELECT MIN("id") FROM "organizations");--> statement-breakpoint
+UPDATE "users" SET "organization_id" = (SELECT MIN("id") FROM "organizations"), "role" = 'admin';--> statement-breakpoint
+-- The active logo used to be per user; keep only the newest one per organization
+UPDATE "logos" SET "is_active" = false WHERE "is_active" AND "id" <> (SELECT MAX("id") FROM "logos" WHERE "is_active");--> statement-breakpoint
+ALTER TABLE "campaigns" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "logos" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "templates" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "organization_id" SET NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "login_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"ip_address" text NOT NULL,
+	"outcome" text NOT NULL,
+	"user_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "login_attempts_username_idx" ON "login_attempts" USING btree ("username","created_at");--> statement-breakpoint
+CREATE INDEX "login_attempts_ip_address_idx" ON "login_attempts" USING btree ("ip_address","created_at");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"actor_id" integer,
+	"entity_type" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"campaign_id" integer,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_events_entity_idx" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_events_campaign_idx" ON "audit_events" USING btree ("campaign_id");--> statement-breakpoint
+CREATE INDEX "audit_events_organization_created_idx" ON "audit_events" USING btree ("organization_id","created_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "export_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"file_type" text NOT NULL,
+	"output_formats" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"completed_pages" integer DEFAULT 0 NOT NULL,
+	"total_pages" integer,
+	"file_name" text NOT NULL,
+	"file_path" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"expires_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "export_jobs_user_created_idx" ON "export_jobs" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "export_jobs_status_idx" ON "export_jobs" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "export_jobs_expires_idx" ON "export_jobs" USING btree ("expires_at");
\ No newline at end of file
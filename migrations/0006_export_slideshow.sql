@@ -0,0 +1 @@
+ALTER TABLE "export_jobs" ADD COLUMN "slideshow" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "campaigns" ADD COLUMN "share_slug" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "shared_at" timestamp;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_share_slug_unique" UNIQUE("share_slug");
\ No newline at end of file
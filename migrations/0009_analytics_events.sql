@@ -0,0 +1,18 @@
+CREATE TABLE "analytics_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"channel" text NOT NULL,
+	"utm_source" text,
+	"utm_medium" text,
+	"utm_campaign" text,
+	"campaign_product_id" integer,
+	"product_id" integer,
+	"page_number" integer,
+	"file_type" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "analytics_events_campaign_created_idx" ON "analytics_events" USING btree ("campaign_id","created_at");--> statement-breakpoint
+CREATE INDEX "analytics_events_organization_created_idx" ON "analytics_events" USING btree ("organization_id","created_at");
\ No newline at end of file
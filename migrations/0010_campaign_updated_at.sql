@@ -0,0 +1 @@
+ALTER TABLE "campaigns" ADD COLUMN "updated_at" timestamp DEFAULT now();
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "analytics_events" ALTER COLUMN "campaign_id" DROP NOT NULL;
\ No newline at end of file
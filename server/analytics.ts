@@ -0,0 +1,204 @@
+import {
+  UNSAVED_CAMPAIGN_KEY,
+  toAnalyticsDay,
+  type AnalyticsCount,
+  type AnalyticsDimension,
+  type AnalyticsEventType,
+  type AnalyticsMetrics,
+  type AnalyticsReport,
+  type AnalyticsRow,
+  type Campaign,
+  type InsertAnalyticsEvent,
+  type ViewerEvent,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_RANGE_DAYS = 30;
+export const MAX_RANGE_DAYS = 366;
+
+const METRICS: Record<AnalyticsEventType, keyof AnalyticsMetrics> = {
+  download: "downloads",
+  page_view: "pageViews",
+  product_click: "productClicks",
+  share_open: "shareOpens",
+};
+
+const emptyMetrics = (): AnalyticsMetrics => ({
+  downloads: 0,
+  pageViews: 0,
+  productClicks: 0,
+  shareOpens: 0,
+});
+
+const total = (metrics: AnalyticsMetrics) =>
+  metrics.downloads + metrics.pageViews + metrics.productClicks + metrics.shareOpens;
+
+// Channel names are free text from links, so they are normalised before they
+// become a grouping key
+const normalizeChannel = (value: string) => value.trim().toLowerCase().slice(0, 64);
+
+function channelFor(event: ViewerEvent): string {
+  if (event.utmSource) return normalizeChannel(event.utmSource);
+  if (event.embedded) return "embed";
+  if (event.referrer) {
+    try {
+      return normalizeChannel(new URL(event.referrer).hostname.replace(/^www\./, ""));
+    } catch {
+      // Not a URL; treated as a direct visit
+    }
+  }
+  return "direct";
+}
+
+// Analytics must never break what is being measured: failures are reported
+// and swallowed, like the audit log
+async function record(event: InsertAnalyticsEvent) {
+  try {
+    await storage.recordAnalyticsEvent(event);
+  } catch (error) {
+    console.error("Failed to record analytics event:", error);
+  }
+}
+
+export async function recordDownload(
+  campaign: Pick<Campaign, "id" | "organizationId">,
+  fileType: string
+): Promise<void> {
+  await record({
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+    type: "download",
+    channel: "editor",
+    fileType,
+  });
+}
+
+// A file the editor captured in the browser from a draft that has no campaign
+// yet; it is counted with the organization's unsaved drafts
+export async function recordDraftDownload(organizationId: number, fileType: string) {
+  await record({ organizationId, campaignId: null, type: "download", channel: "editor", fileType });
+}
+
+// A visitor event from the shared brochure. Returns false when it refers to a
+// product the campaign does not have.
+export async function recordViewerEvent(
+  campaign: Campaign,
+  event: ViewerEvent
+): Promise<boolean> {
+  let productId: number | null = null;
+  if (event.type === "product_click") {
+    const item =
+      event.campaignProductId !== undefined
+        ? await storage.getCampaignProduct(event.campaignProductId)
+        : undefined;
+    if (!item || item.campaignId !== campaign.id) return false;
+    productId = item.productId;
+  }
+
+  await record({
+    organizationId: campaign.organizationId,
+    campaignId: campaign.id,
+    type: event.type,
+    channel: channelFor(event),
+    utmSource: event.utmSource || null,
+    utmMedium: event.utmMedium || null,
+    utmCampaign: event.utmCampaign || null,
+    campaignProductId: event.type === "product_click" ? event.campaignProductId : null,
+    productId,
+    pageNumber: event.type === "page_view" ? (event.pageNumber ?? null) : null,
+  });
+  return true;
+}
+
+// Every local day from `from` to `to`, so quiet days show up as zeros
+function daysBetween(from: Date, to: Date): string[] {
+  const days = new Set<string>();
+  for (let time = from.getTime(); time < to.getTime(); time += DAY_MS / 2) {
+    days.add(toAnalyticsDay(new Date(time)));
+  }
+  days.add(toAnalyticsDay(to));
+  return Array.from(days);
+}
+
+async function labelsFor(
+  dimension: AnalyticsDimension,
+  campaigns: Campaign[],
+  keys: string[]
+): Promise<Map<string, string>> {
+  if (dimension === "campaign") {
+    return new Map([
+      ...campaigns.map((campaign): [string, string] => [String(campaign.id), campaign.name]),
+      [UNSAVED_CAMPAIGN_KEY, "Unsaved drafts"],
+    ]);
+  }
+  if (dimension === "product") {
+    const products = await Promise.all(keys.map((key) => storage.getProduct(Number(key))));
+    return new Map(
+      products.flatMap((product) => (product ? [[String(product.id), product.name]] : []))
+    );
+  }
+  return new Map(keys.map((key) => [key, key]));
+}
+
+// Pivots the raw counts into one row per dimension value: days in order,
+// everything else busiest first. unsavedOf adds the organization's downloads
+// of unsaved drafts.
+export async function buildAnalyticsReport(
+  campaigns: Campaign[],
+  dimension: AnalyticsDimension,
+  from: Date,
+  to: Date,
+  unsavedOf?: number
+): Promise<AnalyticsReport> {
+  const counts: AnalyticsCount[] = await storage.countAnalyticsEvents(
+    campaigns.map((campaign) => campaign.id),
+    dimension,
+    { from, to, unsavedOf }
+  );
+
+  const metricsByKey = new Map<string, AnalyticsMetrics>();
+  if (dimension === "day") {
+    daysBetween(from, to).forEach((day) => metricsByKey.set(day, emptyMetrics()));
+  }
+  const totals = emptyMetrics();
+  for (const { key, type, count } of counts) {
+    const metrics = metricsByKey.get(key) ?? emptyMetrics();
+    metrics[METRICS[type]] += count;
+    totals[METRICS[type]] += count;
+    metricsByKey.set(key, metrics);
+  }
+
+  const keys = Array.from(metricsByKey.keys());
+  const labels = await labelsFor(dimension, campaigns, keys);
+  const rows: AnalyticsRow[] = keys.map((key) => ({
+    key,
+    label: labels.get(key) ?? key,
+    ...metricsByKey.get(key)!,
+  }));
+  if (dimension !== "day") rows.sort((a, b) => total(b) - total(a));
+
+  return { dimension, from, to, totals, rows };
+}
+
+// All-time downloads of the given campaigns, for the dashboard counters
+export async function countDownloads(campaigns: Campaign[], unsavedOf?: number): Promise<number> {
+  const counts = await storage.countAnalyticsEvents(
+    campaigns.map((campaign) => campaign.id),
+    "campaign",
+    { unsavedOf }
+  );
+  return counts
+    .filter((count) => count.type === "download")
+    .reduce((sum, count) => sum + count.count, 0);
+}
+
+// The requested range, or the last DEFAULT_RANGE_DAYS days
+export function resolveRange(query: { from?: Date; to?: Date }): { from: Date; to: Date } {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  return { from, to };
+}
+
+export const isRangeTooLong = (from: Date, to: Date) =>
+  to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS;
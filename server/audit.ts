@@ -0,0 +1,104 @@
+import type { Request } from "express";
+import type {
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+  CampaignProduct,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Fields that never change meaningfully or must not be copied into the log
+const IGNORED_FIELDS = new Set(["id", "createdAt"]);
+const REDACTED_FIELDS = new Set(["password"]);
+
+type Snapshot = Record<string, unknown>;
+
+// Field-level difference between two versions of a record. Either side may be
+// missing (create / delete), in which case every field of the other side is
+// reported.
+export function diffRecords(before?: object, after?: object): AuditChanges {
+  const changes: AuditChanges = {};
+  const oldValues = before as Snapshot | undefined;
+  const newValues = after as Snapshot | undefined;
+  const keys = new Set([...Object.keys(oldValues ?? {}), ...Object.keys(newValues ?? {})]);
+
+  keys.forEach((key) => {
+    if (IGNORED_FIELDS.has(key)) return;
+
+    const oldValue = oldValues?.[key] ?? null;
+    const newValue = newValues?.[key] ?? null;
+    if (oldValues && newValues && JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+    const redact = (value: unknown) =>
+      REDACTED_FIELDS.has(key) && value !== null ? "[redacted]" : value;
+    changes[key] = {
+      ...(oldValues ? { before: redact(oldValue) } : {}),
+      ...(newValues ? { after: redact(newValue) } : {}),
+    };
+  });
+
+  return changes;
+}
+
+interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before?: object;
+  after?: object;
+  campaignId?: number | null;
+}
+
+// Records a change made by the signed-in user. Updates that change nothing are
+// skipped. A failure to write the log is reported but does not fail the
+// request, whose change has already been applied.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  const changes = diffRecords(entry.before, entry.after);
+  if (entry.action === "update" && Object.keys(changes).length === 0) return;
+
+  try {
+    await storage.createAuditEvent({
+      organizationId: req.user!.organizationId,
+      actorId: req.user!.id,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      campaignId: entry.campaignId ?? null,
+      changes,
+    });
+  } catch (error) {
+    console.error("Failed to record audit event:", error);
+  }
+}
+
+// Records the placed products a design save created, changed or removed
+export async function recordCampaignProductChanges(
+  req: Request,
+  campaignId: number,
+  before: CampaignProduct[],
+  after: CampaignProduct[]
+): Promise<void> {
+  const previous = new Map(before.map((cp) => [cp.id, cp]));
+  const current = new Set(after.map((cp) => cp.id));
+
+  for (const cp of after) {
+    const old = previous.get(cp.id);
+    await recordAudit(req, {
+      entityType: "campaign_product",
+      entityId: cp.id,
+      action: old ? "update" : "create",
+      before: old,
+      after: cp,
+      campaignId,
+    });
+  }
+  for (const cp of before.filter((cp) => !current.has(cp.id))) {
+    await recordAudit(req, {
+      entityType: "campaign_product",
+      entityId: cp.id,
+      action: "delete",
+      before: cp,
+      campaignId,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import type { User as UserRecord } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends Omit<UserRecord, "password"> {}
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+export function toSafeUser(user: UserRecord): Express.User {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+export function setupSession(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      store: storage.sessionStore,
+      secret: secret || "dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+      },
+    })
+  );
+}
+
+// Resolves the signed-in user from the session; every route mounted after it
+// can rely on req.user being set.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.session.userId;
+    const user = userId ? await storage.getUser(userId) : undefined;
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    req.user = toSafeUser(user);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
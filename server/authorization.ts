@@ -0,0 +1,195 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type {
+  Branch,
+  Campaign,
+  CampaignProduct,
+  ExportJob,
+  Product,
+  Template,
+  Logo,
+  User,
+  UserRole,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Resources resolved by the loaders below, available to the route handler
+// through res.locals once the caller has been authorized.
+interface LoadedResources {
+  campaign: Campaign;
+  campaignProduct: CampaignProduct;
+  product: Product;
+  template: Template;
+  logo: Logo;
+  branch: Branch;
+  managedUser: User;
+  exportJob: ExportJob;
+}
+
+declare global {
+  namespace Express {
+    interface Locals extends Partial<LoadedResources> {}
+  }
+}
+
+export type Action = "read" | "write";
+
+export function hasRole(user: Express.User, ...roles: UserRole[]): boolean {
+  return roles.includes(user.role);
+}
+
+// Roles that may manage the organization's shared catalogue and assets
+export const CONTENT_ROLES: UserRole[] = ["admin", "designer"];
+
+// Policies
+export function canAccessCampaign(
+  user: Express.User,
+  campaign: Campaign,
+  action: Action
+): boolean {
+  if (campaign.organizationId !== user.organizationId) return false;
+
+  switch (user.role) {
+    case "admin":
+    case "designer":
+      return true;
+    case "branch_manager":
+      // Their own branch's campaigns; chain-wide ones are read-only
+      if (user.branchId !== null && campaign.branchId === user.branchId) return true;
+      return action === "read" && campaign.branchId === null;
+    default:
+      return action === "read";
+  }
+}
+
+// Templates, logos, products and branches are shared across the organization:
+// everyone may use them, only content roles may change them.
+function canAccessShared(
+  user: Express.User,
+  resource: { organizationId: number },
+  action: Action,
+  writers: UserRole[] = CONTENT_ROLES
+): boolean {
+  if (resource.organizationId !== user.organizationId) return false;
+  return action === "read" || hasRole(user, ...writers);
+}
+
+export function canAccessTemplate(user: Express.User, template: Template, action: Action): boolean {
+  return canAccessShared(user, template, action);
+}
+
+export function canAccessLogo(user: Express.User, logo: Logo, action: Action): boolean {
+  return canAccessShared(user, logo, action);
+}
+
+export function canAccessProduct(user: Express.User, product: Product, action: Action): boolean {
+  return canAccessShared(user, product, action);
+}
+
+export function canAccessBranch(user: Express.User, branch: Branch, action: Action): boolean {
+  return canAccessShared(user, branch, action, ["admin"]);
+}
+
+// Accounts are managed by the organization's admins only
+export function canManageUser(user: Express.User, target: User, _action: Action): boolean {
+  return target.organizationId === user.organizationId && hasRole(user, "admin");
+}
+
+// Exports are private to whoever requested them
+export function canAccessExportJob(user: Express.User, job: ExportJob, _action: Action): boolean {
+  return job.organizationId === user.organizationId && job.userId === user.id;
+}
+
+// Campaign products have no owner of their own; access follows the campaign.
+export async function canAccessCampaignProduct(
+  user: Express.User,
+  campaignProduct: CampaignProduct,
+  action: Action
+): Promise<boolean> {
+  const campaign = await storage.getCampaign(campaignProduct.campaignId);
+  return !!campaign && canAccessCampaign(user, campaign, action);
+}
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user!, ...roles)) {
+      return res.status(403).json({ message: "Your role does not allow this action" });
+    }
+    next();
+  };
+}
+
+// Loads the record named by a route parameter and checks it against a policy:
+// 404 when it does not exist, 403 when the caller may not access it. The
+// action defaults to "read" for GET requests and "write" otherwise.
+function loadResource<K extends keyof LoadedResources>(
+  key: K,
+  label: string,
+  param: string,
+  action: Action | undefined,
+  load: (id: number) => Promise<LoadedResources[K] | undefined>,
+  authorize: (
+    user: Express.User,
+    resource: LoadedResources[K],
+    action: Action
+  ) => boolean | Promise<boolean>
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params[param]);
+      const resource = Number.isNaN(id) ? undefined : await load(id);
+      if (!resource) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+
+      const requested = action ?? (req.method === "GET" ? "read" : "write");
+      if (!(await authorize(req.user!, resource, requested))) {
+        return res
+          .status(403)
+          .json({ message: `You do not have access to this ${label.toLowerCase()}` });
+      }
+
+      (res.locals as Partial<LoadedResources>)[key] = resource;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export const loadCampaign = (param = "id", action?: Action) =>
+  loadResource(
+    "campaign",
+    "Campaign",
+    param,
+    action,
+    (id) => storage.getCampaign(id),
+    canAccessCampaign
+  );
+
+export const loadCampaignProduct = (param = "id", action?: Action) =>
+  loadResource(
+    "campaignProduct",
+    "Campaign product",
+    param,
+    action,
+    (id) => storage.getCampaignProduct(id),
+    canAccessCampaignProduct
+  );
+
+export const loadProduct = (param = "id", action?: Action) =>
+  loadResource("product", "Product", param, action, (id) => storage.getProduct(id), canAccessProduct);
+
+export const loadTemplate = (param = "id", action?: Action) =>
+  loadResource("template", "Template", param, action, (id) => storage.getTemplate(id), canAccessTemplate);
+
+export const loadLogo = (param = "id", action?: Action) =>
+  loadResource("logo", "Logo", param, action, (id) => storage.getLogo(id), canAccessLogo);
+
+export const loadBranch = (param = "id", action?: Action) =>
+  loadResource("branch", "Branch", param, action, (id) => storage.getBranch(id), canAccessBranch);
+
+export const loadUser = (param = "id", action?: Action) =>
+  loadResource("managedUser", "User", param, action, (id) => storage.getUser(id), canManageUser);
+
+export const loadExportJob = (param = "id", action?: Action) =>
+  loadResource("exportJob", "Export", param, action, (id) => storage.getExportJob(id), canAccessExportJob);
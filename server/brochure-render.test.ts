@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Campaign, Product } from "@shared/schema";
+import {
+  PageSurface,
+  drawBrochurePage,
+  prepareBrochure,
+  readAsset,
+  type PlacedProduct,
+  type Sized,
+} from "./brochure-render";
+
+// Keeps the text a page draws, to check labels without rasterizing
+class RecordingSurface extends PageSurface<Sized> {
+  texts: string[] = [];
+
+  rect() {}
+  baselineText(value: string) {
+    this.texts.push(value);
+  }
+  ascent(size: number) {
+    return size * 0.75;
+  }
+  textWidth(value: string, size: number) {
+    return value.length * size * 0.6;
+  }
+  cover() {}
+  image() {}
+}
+
+const campaign = (dates: Pick<Campaign, "startDate" | "endDate">): Campaign => ({
+  id: 1,
+  name: "Render",
+  description: null,
+  status: "active",
+  userId: 1,
+  organizationId: 1,
+  branchId: null,
+  templateId: null,
+  logoId: null,
+  companyName: null,
+  validUntil: null,
+  layout: null,
+  shareSlug: null,
+  sharedAt: null,
+  createdAt: null,
+  updatedAt: null,
+  ...dates,
+});
+
+function placed(imageUrl: string): PlacedProduct {
+  const product: Product = {
+    id: 1,
+    organizationId: 1,
+    name: "Remote",
+    category: "Test",
+    originalPrice: 10,
+    imageUrl,
+    description: null,
+  };
+  return {
+    id: 1,
+    campaignId: 1,
+    productId: 1,
+    quantity: 1,
+    discountPercent: 0,
+    newPrice: 10,
+    positionX: 0,
+    positionY: 0,
+    scaleX: 1.4,
+    scaleY: 1.4,
+    pageNumber: 1,
+    rotation: 0,
+    gridIndex: 0,
+    product,
+  };
+}
+
+async function drawnText(target: Campaign, items: PlacedProduct[] = []) {
+  const surface = new RecordingSurface(540, 675);
+  const brochure = prepareBrochure(target, items, []);
+  await drawBrochurePage(surface, { load: async () => undefined }, brochure, 1);
+  return surface.texts;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("readAsset", () => {
+  it("reads bundled assets", async () => {
+    const bytes = await readAsset("/public/assets/blank_page_1762776670500.png");
+    expect(bytes?.length).toBeGreaterThan(0);
+  });
+
+  it("never goes to the network", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    for (const url of [
+      "https://images.example/tea.png",
+      "http://169.254.169.254/latest/meta-data",
+      "//images.example/tea.png",
+      "file:///etc/passwd",
+    ]) {
+      expect(await readAsset(url)).toBeUndefined();
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("drawBrochurePage", () => {
+  it("prints the campaign days of the store's calendar", async () => {
+    // 01:30 on 2 June to 00:30 on 9 June in Istanbul, a Monday
+    const texts = await drawnText(
+      campaign({
+        startDate: new Date("2025-06-01T22:30:00Z"),
+        endDate: new Date("2025-06-08T21:30:00Z"),
+      })
+    );
+    expect(texts).toContain("2-9 HAZİRAN");
+    expect(texts).toContain("Pazartesi");
+  });
+
+  it("labels products whose image is remote", async () => {
+    const texts = await drawnText(campaign({ startDate: null, endDate: null }), [
+      placed("https://images.example/tea.png"),
+    ]);
+    expect(texts).toContain("No Image");
+  });
+});
@@ -0,0 +1,498 @@
+import { createRequire } from "module";
+import { readFile } from "fs/promises";
+import path from "path";
+import { format, parseISO } from "date-fns";
+import { tr } from "date-fns/locale";
+import {
+  toBusinessDay,
+  type Campaign,
+  type CampaignProduct,
+  type Product,
+  type Template,
+} from "@shared/schema";
+import {
+  getPageGeometry,
+  parseBrochureLayout,
+  reflowPoint,
+  type BrochureLayout,
+  type OutputFormat,
+  type PageGeometry,
+} from "@shared/layout";
+import { layoutPages, type GridCell, type PlacedItem } from "@shared/layout-engine";
+import { storage } from "./storage";
+
+// Draws brochure pages from a saved campaign onto a PageSurface. The PDF and
+// bitmap renderers each implement a surface; everything here works in editor
+// units (origin top-left, y down) so positions match the canvas.
+
+export type PlacedProduct = CampaignProduct & { product: Product };
+
+// A campaign's products joined with their catalogue rows
+export async function getPlacedProducts(campaignId: number): Promise<PlacedProduct[]> {
+  const campaignProducts = await storage.getCampaignProducts(campaignId);
+  const placed = await Promise.all(
+    campaignProducts.map(async (cp) => ({
+      ...cp,
+      product: await storage.getProduct(cp.productId),
+    }))
+  );
+  return placed.filter((cp): cp is PlacedProduct => !!cp.product);
+}
+
+const require = createRequire(import.meta.url);
+export const FONT_DIR = path.join(
+  path.dirname(require.resolve("dejavu-fonts-ttf/package.json")),
+  "ttf"
+);
+
+const DEFAULT_PRODUCT_SCALE = 1.4;
+
+// Channels from 0 to 1
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const rgb = (r: number, g: number, b: number): RGBColor => ({ r, g, b });
+
+export const WHITE = rgb(1, 1, 1);
+const NAME_COLOR = rgb(0.067, 0.094, 0.153); // gray-900
+const PRICE_RED = rgb(0.85, 0.09, 0.12);
+const PRICE_YELLOW = rgb(1, 0.9, 0);
+const OUTLINE_YELLOW = rgb(1, 0.82, 0);
+const BADGE_YELLOW = rgb(1, 0.8, 0);
+const BADGE_RED = rgb(0.84, 0.1, 0.13);
+const DATE_RED = rgb(0.89, 0.12, 0.14);
+const PLACEHOLDER_FILL = rgb(0.996, 0.976, 0.765); // yellow-100
+const PLACEHOLDER_TEXT = rgb(0.294, 0.333, 0.388); // gray-600
+
+export interface Sized {
+  width: number;
+  height: number;
+}
+
+// Drawing primitives a renderer provides. `bleed` is how far (in the same
+// units) the artwork may run past the page edge on print sheets.
+export abstract class PageSurface<TImage extends Sized> {
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    readonly bleed = 0
+  ) {}
+
+  abstract rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RGBColor,
+    border?: { color: RGBColor; width: number }
+  ): void;
+
+  // fontFamily is a CSS font list; renderers that embed their own font may
+  // ignore it
+  abstract baselineText(
+    value: string,
+    x: number,
+    baseline: number,
+    size: number,
+    color: RGBColor,
+    bold?: boolean,
+    fontFamily?: string
+  ): void;
+
+  abstract ascent(size: number, bold?: boolean): number;
+
+  abstract textWidth(value: string, size: number, bold?: boolean): number;
+
+  // Scales the background to cover the page and its bleed
+  abstract cover(background: TImage): void;
+
+  // Draws an image centered on (cx, cy), rotated clockwise like CSS
+  abstract image(
+    image: TImage,
+    cx: number,
+    cy: number,
+    width: number,
+    height: number,
+    rotation: number
+  ): void;
+
+  // y is the top of the glyphs
+  text(
+    value: string,
+    x: number,
+    y: number,
+    size: number,
+    color: RGBColor,
+    bold = false,
+    fontFamily?: string
+  ) {
+    this.baselineText(value, x, y + this.ascent(size, bold), size, color, bold, fontFamily);
+  }
+}
+
+// Loads (and caches) images in the renderer's own representation
+export interface ImageSource<TImage> {
+  load(url: string): Promise<TImage | undefined>;
+}
+
+// Reads an uploaded or bundled asset from its public URL. Renders never go
+// to the network: remote URLs (any scheme, or protocol-relative) are not
+// resolved and the product gets a placeholder instead.
+export async function readAsset(url: string): Promise<Uint8Array | undefined> {
+  try {
+    if (/^[a-z][a-z\d+.-]*:/i.test(url) || url.startsWith("//")) return undefined;
+    const dir = url.startsWith("/public/assets/")
+      ? path.join(process.cwd(), "public", "assets")
+      : path.join(process.cwd(), "uploads");
+    return await readFile(path.join(dir, path.basename(url)));
+  } catch {
+    return undefined;
+  }
+}
+
+// Text sizes of a product card, matching the editor's Tailwind classes
+function cardStyle(productCount: number) {
+  const tier = productCount === 1 ? 0 : productCount <= 3 ? 1 : productCount <= 6 ? 2 : 3;
+  return {
+    nameSize: [12, 11, 10, 9][tier],
+    priceSize: [36, 24, 20, 18][tier],
+    oldPriceSize: [13, 12, 10, 10][tier],
+    badge: [
+      { width: 48, height: 36, text: 17 },
+      { width: 44, height: 32, text: 16 },
+      { width: 40, height: 28, text: 14 },
+      { width: 36, height: 24, text: 12 },
+    ][tier],
+    padX: tier === 0 ? 10 : 8,
+    padTop: tier === 0 ? 6 : 4,
+    padBottom: tier === 0 ? 8 : tier === 1 ? 6 : 4,
+  };
+}
+
+function parseColor(value: string | undefined): RGBColor | undefined {
+  const match = value?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : match[1];
+  const n = parseInt(hex, 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+// Splits text into at most maxLines lines that fit the width, ending the
+// last line with an ellipsis when the text is cut
+function wrapText(
+  surface: PageSurface<Sized>,
+  text: string,
+  size: number,
+  width: number,
+  maxLines: number
+) {
+  const fits = (line: string) => surface.textWidth(line, size, true) <= width;
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate) || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = `${kept[maxLines - 1]} ${lines[maxLines]}`;
+  while (last.length > 1 && !fits(`${last}…`)) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+}
+
+function formatPrice(value: number) {
+  return value.toFixed(2);
+}
+
+function drawFooter(surface: PageSurface<Sized>, layout: BrochureLayout, footerHeight: number) {
+  const top = surface.height - footerHeight;
+  const background = parseColor(layout.footerBgColor);
+  if (background) {
+    const { bleed } = surface;
+    surface.rect(-bleed, top, surface.width + 2 * bleed, footerHeight + bleed, background);
+  }
+
+  const size = 9;
+  const lineHeight = 12;
+  const addressWidth = surface.width * 0.6 - 16;
+  const addressLines = wrapText(surface, layout.footerAddress, size, addressWidth, 3);
+  const addressTop = top + (footerHeight - addressLines.length * lineHeight) / 2;
+  addressLines.forEach((line, i) =>
+    surface.text(line, 16, addressTop + i * lineHeight, size, WHITE)
+  );
+
+  const handles = [
+    ["IG", layout.social.instagram],
+    ["FB", layout.social.facebook],
+    ["X", layout.social.twitter],
+  ].filter(([, handle]) => handle);
+  let x = surface.width - 16;
+  for (const [label, handle] of handles.reverse()) {
+    const handleWidth = surface.textWidth(handle, size);
+    const labelWidth = surface.textWidth(label, size, true);
+    x -= handleWidth;
+    surface.text(handle, x, top + (footerHeight - size) / 2, size, WHITE);
+    x -= labelWidth + 3;
+    surface.text(label, x, top + (footerHeight - size) / 2, size, WHITE, true);
+    x -= 12;
+  }
+}
+
+function drawCompanyName(surface: PageSurface<Sized>, campaign: Campaign, layout: BrochureLayout) {
+  if (!layout.showCompanyName || !campaign.companyName) return;
+
+  const size = 36;
+  const { x, y } = layout.elementPositions.companyName;
+  // text-4xl has a 40px line box around the 36px glyphs
+  const color = parseColor(layout.titleColor) ?? WHITE;
+  surface.text(campaign.companyName, x, y + 2, size, color, true, layout.titleFont);
+}
+
+function drawDateBadge(
+  surface: PageSurface<Sized>,
+  campaign: Campaign,
+  layout: BrochureLayout,
+  pageNumber: number
+) {
+  if (!campaign.startDate) return;
+
+  // The store's calendar days, whatever zone the server runs in
+  const start = parseISO(toBusinessDay(new Date(campaign.startDate)));
+  const end = campaign.endDate ? parseISO(toBusinessDay(new Date(campaign.endDate))) : undefined;
+  const range = (
+    end
+      ? `${format(start, "d", { locale: tr })}-${format(end, "d MMMM", { locale: tr })}`
+      : format(start, "d MMMM", { locale: tr })
+  ).toLocaleUpperCase("tr-TR");
+  const weekday = format(start, "EEEE", { locale: tr });
+  const day = weekday.charAt(0).toLocaleUpperCase("tr-TR") + weekday.slice(1);
+
+  const rangeSize = 16;
+  const daySize = 12;
+  const rangeWidth = surface.textWidth(range, rangeSize, true);
+  const dayWidth = surface.textWidth(day, daySize);
+  const width = Math.max(rangeWidth, dayWidth) + 24;
+  const height = 8 + rangeSize * 1.25 + daySize * 1.25 + 8;
+  const position = layout.datePositions[String(pageNumber)] ?? { x: surface.width - 140, y: 8 };
+
+  surface.rect(position.x, position.y, width, height, DATE_RED);
+  const center = position.x + width / 2;
+  surface.text(
+    range,
+    center - rangeWidth / 2,
+    position.y + 8 + rangeSize * 0.125,
+    rangeSize,
+    WHITE,
+    true
+  );
+  surface.text(
+    day,
+    center - dayWidth / 2,
+    position.y + 8 + rangeSize * 1.25 + daySize * 0.125,
+    daySize,
+    WHITE
+  );
+}
+
+async function drawProduct<TImage extends Sized>(
+  surface: PageSurface<TImage>,
+  images: ImageSource<TImage>,
+  item: PlacedProduct,
+  cell: GridCell,
+  productCount: number
+) {
+  const style = cardStyle(productCount);
+
+  // Product image, object-contain inside the padded inner box, then scaled
+  // and rotated around the box center
+  const image = item.product.imageUrl ? await images.load(item.product.imageUrl) : undefined;
+  if (image) {
+    const boxWidth = cell.innerWidth - 16;
+    const boxHeight = cell.innerHeight - 16;
+    const fit = Math.min(boxWidth / image.width, boxHeight / image.height);
+    surface.image(
+      image,
+      cell.x + cell.innerWidth / 2,
+      cell.y + cell.innerHeight / 2,
+      image.width * fit * (item.scaleX ?? DEFAULT_PRODUCT_SCALE),
+      image.height * fit * (item.scaleY ?? DEFAULT_PRODUCT_SCALE),
+      item.rotation ?? 0
+    );
+  } else if (item.product.imageUrl) {
+    // The image is remote or missing: a label like the editor's "No Image"
+    const label = "No Image";
+    const size = 12;
+    const width = surface.textWidth(label, size, true) + 24;
+    const height = size + 16;
+    const x = cell.x + (cell.innerWidth - width) / 2;
+    const y = cell.y + (cell.innerHeight - height) / 2;
+    surface.rect(x, y, width, height, PLACEHOLDER_FILL);
+    surface.text(label, x + 12, y + 8, size, PLACEHOLDER_TEXT, true);
+  }
+
+  // Price box: old price (struck through) above the new price
+  const hasDiscount = item.discountPercent > 0;
+  const oldPrice = `${formatPrice(item.product.originalPrice)} TL`;
+  const currencySize = 17.6;
+  const [whole, cents] = formatPrice(item.newPrice).split(".");
+  const centsSize = style.priceSize * 0.7;
+  const currencyWidth = surface.textWidth("₺", currencySize, true);
+  const wholeWidth = surface.textWidth(whole, style.priceSize, true);
+  const centsWidth = surface.textWidth(`.${cents}`, centsSize, true);
+  const newPriceWidth = currencyWidth + 2 + wholeWidth + centsWidth;
+  const oldPriceWidth = hasDiscount ? surface.textWidth(oldPrice, style.oldPriceSize, true) : 0;
+
+  const boxWidth = Math.max(newPriceWidth, oldPriceWidth) + style.padX * 2;
+  const boxHeight =
+    style.padTop + (hasDiscount ? style.oldPriceSize + 4 : 0) + style.priceSize + style.padBottom;
+  const boxRight = cell.x + cell.width - 4;
+  const boxBottom = cell.y + cell.height - 4;
+  const boxX = boxRight - boxWidth;
+  const boxY = boxBottom - boxHeight;
+
+  surface.rect(boxX - 3, boxY - 3, boxWidth + 6, boxHeight + 6, OUTLINE_YELLOW);
+  surface.rect(boxX, boxY, boxWidth, boxHeight, PRICE_RED);
+
+  let lineTop = boxY + style.padTop;
+  if (hasDiscount) {
+    surface.text(oldPrice, boxX + style.padX, lineTop, style.oldPriceSize, WHITE, true);
+    const strikeY = lineTop + style.oldPriceSize * 0.45;
+    surface.rect(boxX + style.padX, strikeY, oldPriceWidth, 2, OUTLINE_YELLOW);
+    lineTop += style.oldPriceSize + 4;
+  }
+  let x = boxX + style.padX;
+  // Smaller currency sign and cents share the baseline of the whole part
+  const baseline = lineTop + surface.ascent(style.priceSize, true);
+  surface.baselineText("₺", x, baseline, currencySize, PRICE_YELLOW, true);
+  x += currencyWidth + 2;
+  surface.baselineText(whole, x, baseline, style.priceSize, PRICE_YELLOW, true);
+  x += wholeWidth;
+  surface.baselineText(`.${cents}`, x, baseline, centsSize, PRICE_YELLOW, true);
+
+  // Discount badge hanging off the top-right corner of the price box
+  if (hasDiscount) {
+    const { badge } = style;
+    const badgeX = boxRight + 6 - badge.width;
+    const badgeY = boxY - 20;
+    surface.rect(badgeX, badgeY, badge.width, badge.height, BADGE_YELLOW, {
+      color: BADGE_RED,
+      width: 2,
+    });
+    const label = `%${item.discountPercent}`;
+    surface.text(
+      label,
+      badgeX + (badge.width - surface.textWidth(label, badge.text, true)) / 2,
+      badgeY + (badge.height - badge.text) / 2,
+      badge.text,
+      BADGE_RED,
+      true
+    );
+  }
+
+  // Product name, right-aligned to the left of the price box
+  const nameRight = boxX - 3 - 8;
+  const nameWidth = nameRight - (cell.x + 4);
+  if (nameWidth > 0) {
+    const lineHeight = style.nameSize * 1.25;
+    const lines = wrapText(surface, item.product.name, style.nameSize, nameWidth, 2);
+    const firstTop = boxBottom - lines.length * lineHeight;
+    lines.forEach((line, i) => {
+      const width = surface.textWidth(line, style.nameSize, true);
+      const top = firstTop + i * lineHeight;
+      surface.text(line, nameRight - width, top, style.nameSize, NAME_COLOR, true);
+    });
+  }
+}
+
+// Moves the header elements saved for the editor canvas onto another format
+function reflowLayout(layout: BrochureLayout, to: PageGeometry): BrochureLayout {
+  const from = getPageGeometry(layout);
+  const move = (point: { x: number; y: number }) => reflowPoint(point, from, to);
+  return {
+    ...layout,
+    elementPositions: {
+      companyName: move(layout.elementPositions.companyName),
+      dateRange: move(layout.elementPositions.dateRange),
+    },
+    datePositions: Object.fromEntries(
+      Object.entries(layout.datePositions).map(([page, point]) => [page, move(point)])
+    ),
+  };
+}
+
+// A campaign resolved for rendering: its layout in the target format and
+// every product's grid cell
+export interface Brochure {
+  campaign: Campaign;
+  layout: BrochureLayout;
+  geometry: PageGeometry;
+  pageCount: number;
+  items: PlacedProduct[];
+  placed: PlacedItem[];
+  templates: Template[];
+}
+
+// Uses the editor canvas, or re-flows the design into one of the campaign's
+// output formats
+export function prepareBrochure(
+  campaign: Campaign,
+  items: PlacedProduct[],
+  templates: Template[],
+  outputFormat?: OutputFormat
+): Brochure {
+  const design = parseBrochureLayout(campaign.layout);
+  const geometry = getPageGeometry(design, outputFormat);
+  const layout = outputFormat ? reflowLayout(design, geometry) : design;
+  const pageCount = Math.max(layout.pageCount, ...items.map((item) => item.pageNumber ?? 1));
+  const placed = layoutPages(
+    items.map(({ id, pageNumber, gridIndex }) => ({ id, pageNumber: pageNumber ?? 1, gridIndex })),
+    geometry.width,
+    geometry.height,
+    geometry.zones
+  );
+  return { campaign, layout, geometry, pageCount, items, placed, templates };
+}
+
+// Background, footer, header elements and products of one page
+export async function drawBrochurePage<TImage extends Sized>(
+  surface: PageSurface<TImage>,
+  images: ImageSource<TImage>,
+  brochure: Brochure,
+  pageNumber: number
+) {
+  const { campaign, layout, geometry } = brochure;
+
+  const templateId = layout.pageTemplates[String(pageNumber)] ?? campaign.templateId;
+  const template = brochure.templates.find((t) => t.id === templateId);
+  const background = template ? await images.load(`/uploads/${template.filePath}`) : undefined;
+  if (background) surface.cover(background);
+
+  drawFooter(surface, layout, geometry.zones.footerHeight);
+  drawCompanyName(surface, campaign, layout);
+  drawDateBadge(surface, campaign, layout, pageNumber);
+
+  const pageItems = brochure.placed.filter((p) => p.pageNumber === pageNumber);
+  for (const { id, cell } of pageItems) {
+    const item = brochure.items.find((i) => i.id === id)!;
+    await drawProduct(surface, images, item, cell, pageItems.length);
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCampaignSchedule,
+  onCampaignStatusTransition,
+  recordScheduledTransition,
+  type CampaignStatusTransition,
+} from "./campaign-scheduler";
+import { storage } from "./storage";
+
+async function createCampaign(startDate: string, endDate: string) {
+  const organization = await storage.createOrganization({ name: "Scheduler Test" });
+  return storage.createCampaign({
+    name: "Scheduled",
+    status: "scheduled",
+    userId: 1,
+    organizationId: organization.id,
+    startDate: new Date(startDate),
+    endDate: new Date(endDate),
+  });
+}
+
+describe("applyCampaignSchedule", () => {
+  it("moves campaigns along by the Istanbul day and emits the transitions", async () => {
+    const campaign = await createCampaign("2025-06-02T09:00:00Z", "2025-06-08T09:00:00Z");
+    const seen: CampaignStatusTransition[] = [];
+    const unsubscribe = onCampaignStatusTransition((transition) => {
+      if (transition.campaign.id === campaign.id) seen.push(transition);
+    });
+
+    try {
+      // 21:30 UTC on 1 June is already 2 June in Istanbul
+      await applyCampaignSchedule(new Date("2025-06-01T20:59:00Z"));
+      expect((await storage.getCampaign(campaign.id))?.status).toBe("scheduled");
+      await applyCampaignSchedule(new Date("2025-06-01T21:30:00Z"));
+      expect((await storage.getCampaign(campaign.id))?.status).toBe("active");
+      await applyCampaignSchedule(new Date("2025-06-08T21:30:00Z"));
+      expect((await storage.getCampaign(campaign.id))?.status).toBe("completed");
+    } finally {
+      unsubscribe();
+    }
+
+    expect(seen.map(({ from, to, source }) => [from, to, source])).toEqual([
+      ["scheduled", "active", "schedule"],
+      ["active", "completed", "schedule"],
+    ]);
+  });
+});
+
+describe("recordScheduledTransition", () => {
+  it("audits sweep transitions without an actor and leaves saves to the route", async () => {
+    const campaign = await createCampaign("2025-06-02T09:00:00Z", "2025-06-08T09:00:00Z");
+    const transition = (source: CampaignStatusTransition["source"]) => ({
+      campaign: { ...campaign, status: "active" as const },
+      from: "scheduled" as const,
+      to: "active" as const,
+      at: new Date(),
+      source,
+    });
+
+    await recordScheduledTransition(transition("save"));
+    expect(await storage.getAuditEvents(campaign.organizationId, { limit: 10 })).toEqual([]);
+
+    await recordScheduledTransition(transition("schedule"));
+    const events = await storage.getAuditEvents(campaign.organizationId, { limit: 10 });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      actorId: null,
+      entityType: "campaign",
+      entityId: campaign.id,
+      action: "update",
+      changes: { status: { before: "scheduled", after: "active" } },
+    });
+  });
+
+  it("keeps the price conflicts of a campaign the sweep puts live", async () => {
+    const campaign = await createCampaign("2025-06-02T09:00:00Z", "2025-06-08T09:00:00Z");
+    const { organizationId } = campaign;
+    const product = await storage.createProduct({
+      organizationId,
+      name: "Çay",
+      category: "İçecek",
+      originalPrice: 100,
+    });
+    const branch = await storage.createBranch({ organizationId, name: "Meram" });
+    const running = {
+      userId: 1,
+      organizationId,
+      status: "active" as const,
+      startDate: new Date("2025-06-01T09:00:00Z"),
+      endDate: new Date("2025-06-04T09:00:00Z"),
+    };
+    const chainWide = await storage.createCampaign({ ...running, name: "Chain" });
+    // Another branch's campaign is left out, as a branch manager could not see it
+    const otherBranch = await storage.createCampaign({
+      ...running,
+      name: "Branch",
+      branchId: branch.id,
+    });
+    for (const [target, newPrice] of [
+      [campaign, 80],
+      [chainWide, 75],
+      [otherBranch, 70],
+    ] as const) {
+      await storage.addProductToCampaign({
+        campaignId: target.id,
+        productId: product.id,
+        newPrice,
+      });
+    }
+
+    await recordScheduledTransition({
+      campaign: { ...campaign, status: "active" },
+      from: "scheduled",
+      to: "active",
+      at: new Date(),
+      source: "schedule",
+    });
+    const [event] = await storage.getAuditEvents(organizationId, { limit: 10 });
+    expect(event.changes).toEqual({
+      status: { before: "scheduled", after: "active" },
+      priceConflicts: { after: ['Çay: 80 here, 75 in "Chain"'] },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { EventEmitter } from "events";
+import {
+  campaignStatusOn,
+  type AuditChanges,
+  type Campaign,
+  type CampaignStatus,
+  type PriceConflict,
+} from "@shared/schema";
+import { findPriceConflicts } from "./price-conflicts";
+import { storage } from "./storage";
+
+// Published campaigns follow their dates: a sweep every minute moves them
+// from scheduled to active to completed as the days change in Europe/Istanbul.
+// Saves that change the dates settle the status straight away.
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface CampaignStatusTransition {
+  campaign: Campaign;
+  from: CampaignStatus;
+  to: CampaignStatus;
+  at: Date;
+  // "schedule" for the sweep, "save" when an edit to the dates changed it
+  source: "save" | "schedule";
+}
+
+const transitions = new EventEmitter();
+transitions.setMaxListeners(0);
+
+export function onCampaignStatusTransition(
+  listener: (transition: CampaignStatusTransition) => void
+) {
+  transitions.on("transition", listener);
+  return () => {
+    transitions.off("transition", listener);
+  };
+}
+
+// Emits the transition when a save or the sweep changed the status. Listeners
+// must not throw.
+export function notifyStatusChange(
+  before: Campaign,
+  after: Campaign,
+  source: CampaignStatusTransition["source"] = "save"
+) {
+  if (before.status === after.status) return;
+  const transition: CampaignStatusTransition = {
+    campaign: after,
+    from: before.status,
+    to: after.status,
+    at: new Date(),
+    source,
+  };
+  transitions.emit("transition", transition);
+}
+
+// Conflicts of a campaign going live. Without a user to scope them to, it is
+// compared with chain-wide campaigns and those of its own branch, which
+// everyone who can read its history can read too.
+async function scheduledPriceConflicts(campaign: Campaign): Promise<PriceConflict[]> {
+  const visible = (await storage.getCampaigns(campaign.organizationId)).filter(
+    (other) => other.branchId === null || other.branchId === campaign.branchId
+  );
+  return findPriceConflicts(campaign, await storage.getCampaignProducts(campaign.id), visible);
+}
+
+const describeConflict = (conflict: PriceConflict) =>
+  `${conflict.productName}: ${conflict.price} here, ${conflict.conflictingPrice} in ` +
+  `"${conflict.conflictingCampaign.name}"`;
+
+// Saves are audited with the user's whole edit; sweep transitions have no
+// request behind them, so they are logged here as changes without an actor.
+// Saves report price conflicts to the editor; a campaign the sweep puts live
+// keeps its conflicts with the status change instead.
+export async function recordScheduledTransition(transition: CampaignStatusTransition) {
+  if (transition.source !== "schedule") return;
+  const { campaign, from, to } = transition;
+  try {
+    const changes: AuditChanges = { status: { before: from, after: to } };
+    if (to === "active") {
+      const conflicts = await scheduledPriceConflicts(campaign);
+      if (conflicts.length > 0) changes.priceConflicts = { after: conflicts.map(describeConflict) };
+    }
+    await storage.createAuditEvent({
+      organizationId: campaign.organizationId,
+      actorId: null,
+      entityType: "campaign",
+      entityId: campaign.id,
+      action: "update",
+      campaignId: campaign.id,
+      changes,
+    });
+  } catch (error) {
+    console.error("Failed to record campaign status change:", error);
+  }
+}
+
+let sweeping = false;
+
+export async function applyCampaignSchedule(now = new Date()): Promise<void> {
+  if (sweeping) return;
+  sweeping = true;
+  try {
+    const campaigns = await storage.getCampaignsByStatus(["scheduled", "active"]);
+    for (const campaign of campaigns) {
+      const status = campaignStatusOn(campaign, now);
+      if (status === campaign.status) continue;
+      const updated = await storage.updateCampaign(campaign.id, { status });
+      if (!updated) continue;
+      notifyStatusChange(campaign, updated, "schedule");
+    }
+  } catch (error) {
+    console.error("Campaign status sweep failed:", error);
+  } finally {
+    sweeping = false;
+  }
+}
+
+export async function startCampaignScheduler() {
+  onCampaignStatusTransition((transition) => {
+    void recordScheduledTransition(transition);
+  });
+  await applyCampaignSchedule();
+  setInterval(() => applyCampaignSchedule(), SWEEP_INTERVAL_MS).unref();
+}
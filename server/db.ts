@@ -0,0 +1,18 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any drizzle Postgres database (node-postgres in production, pglite or a
+// local server in tests) that knows about the shared schema.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
@@ -0,0 +1,58 @@
+// Served as /embed.js. Store websites include it next to an element carrying
+// the share slug of a campaign:
+//
+//   <div data-campaign="SLUG"></div>
+//   <script src="https://<app>/embed.js" async></script>
+//
+// (or put data-campaign on the script tag itself). Every such element gets an
+// iframe of /embed/SLUG, which reports its height so the frame never scrolls.
+// Kept as plain ES5 without dependencies so it runs on any site as is.
+export const EMBED_SCRIPT = `(function () {
+  var script = document.currentScript;
+  if (!script || window.__brochureEmbed) return;
+  window.__brochureEmbed = true;
+  var origin = new URL(script.src).origin;
+
+  function mount(target) {
+    var slug = target.getAttribute("data-campaign");
+    if (!slug || target.getAttribute("data-brochure-mounted")) return;
+    target.setAttribute("data-brochure-mounted", "true");
+
+    var frame = document.createElement("iframe");
+    frame.src = origin + "/embed/" + encodeURIComponent(slug);
+    frame.title = target.getAttribute("data-title") || "Brochure";
+    frame.loading = "lazy";
+    frame.setAttribute("data-brochure-embed", slug);
+    frame.style.cssText =
+      "display:block;width:100%;height:600px;border:0;margin:0 auto;max-width:" +
+      (target.getAttribute("data-max-width") || "480px");
+
+    if (target.tagName === "SCRIPT") {
+      target.parentNode.insertBefore(frame, target.nextSibling);
+    } else {
+      target.appendChild(frame);
+    }
+  }
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.origin !== origin || !data || data.type !== "brochure-embed:resize") return;
+    var frames = document.querySelectorAll("iframe[data-brochure-embed]");
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === event.source) {
+        frames[i].style.height = Math.ceil(data.height) + "px";
+      }
+    }
+  });
+
+  function mountAll() {
+    var targets = document.querySelectorAll("[data-campaign]");
+    for (var i = 0; i < targets.length; i++) mount(targets[i]);
+  }
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
+`;
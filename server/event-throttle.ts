@@ -0,0 +1,79 @@
+// Limits for the public event endpoint, which anyone with a brochure link can
+// call. Counts live in memory: losing them on a restart only lets a few
+// extra events through, unlike sign-in failures (see login-throttle.ts).
+interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+// One visitor flipping through pages and clicking products stays well under
+// the address limit; the brochure limit caps what a botnet can add
+const IP_LIMIT: RateLimit = { limit: 60, windowMs: 60 * 1000 };
+const SLUG_LIMIT: RateLimit = { limit: 1200, windowMs: 60 * 1000 };
+
+// A page viewed again within this time in the same visit is not a new view
+const VIEW_REPEAT_MS = 30 * 60 * 1000;
+
+// Keys are dropped once expired; the caps bound memory under a flood
+const MAX_WINDOWS = 10000;
+const MAX_VIEWS = 50000;
+
+const windows = new Map<string, { count: number; resetAt: number }>();
+const seenViews = new Map<string, number>();
+
+export type EventThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+function prune<V>(
+  entries: Map<string, V>,
+  max: number,
+  expiresAt: (value: V) => number,
+  now: number
+) {
+  if (entries.size < max) return;
+  entries.forEach((value, key) => {
+    if (expiresAt(value) <= now) entries.delete(key);
+  });
+  // Still nearly full: drop the oldest keys, which come first in a Map, so
+  // the next inserts do not scan again
+  const keys = entries.keys();
+  while (entries.size > max * 0.9) entries.delete(keys.next().value!);
+}
+
+function take(key: string, rate: RateLimit, now: number): EventThrottleDecision {
+  const window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    prune(windows, MAX_WINDOWS, (entry) => entry.resetAt, now);
+    windows.delete(key);
+    windows.set(key, { count: 1, resetAt: now + rate.windowMs });
+    return { allowed: true };
+  }
+  if (window.count >= rate.limit) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+  }
+  window.count++;
+  return { allowed: true };
+}
+
+// Counts one event against the sender's address and the brochure
+export function checkEventThrottle(ipAddress: string, slug: string): EventThrottleDecision {
+  const now = Date.now();
+  const byIp = take(`ip:${ipAddress}`, IP_LIMIT, now);
+  if (!byIp.allowed) return byIp;
+  return take(`slug:${slug}`, SLUG_LIMIT, now);
+}
+
+// Whether this visit already reported the view; the first report of a view
+// is remembered, so only repeats answer true
+export function isRepeatView(campaignId: number, visit: string, view: string): boolean {
+  const now = Date.now();
+  const key = `${campaignId}\u0000${visit}\u0000${view}`;
+  const seenAt = seenViews.get(key);
+  if (seenAt !== undefined && seenAt + VIEW_REPEAT_MS > now) return true;
+
+  prune(seenViews, MAX_VIEWS, (at) => at + VIEW_REPEAT_MS, now);
+  seenViews.delete(key);
+  seenViews.set(key, now);
+  return false;
+}
@@ -0,0 +1,232 @@
+import { EventEmitter } from "events";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import JSZip from "jszip";
+import {
+  slideshowFileTypes,
+  slideshowOptionsSchema,
+  type Campaign,
+  type ExportFileType,
+  type ExportJob,
+  type InsertExportJob,
+  type SlideshowFileType,
+  type Template,
+} from "@shared/schema";
+import type { OutputFormat } from "@shared/layout";
+import { storage } from "./storage";
+import { getPlacedProducts, prepareBrochure, type PlacedProduct } from "./brochure-render";
+import { renderCampaignPdf } from "./pdf";
+import { renderCampaignPageImage } from "./page-image";
+import { renderCampaignPageSvg } from "./page-svg";
+import { renderCampaignSlideshow } from "./slideshow";
+
+// Brochure exports run in this process, outside the request: jobs are stored
+// in export_jobs, a few workers take them in order and report progress after
+// every page. Jobs that were queued or running when the process stopped are
+// started again on boot.
+
+export const EXPORT_DIR = path.join(process.cwd(), "exports");
+const WORKER_COUNT = 2;
+const RETENTION_DAYS = Number(process.env.EXPORT_RETENTION_DAYS) || 7;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const pending: number[] = [];
+let activeWorkers = 0;
+
+// Emits the updated job under its id after every change
+const progress = new EventEmitter();
+progress.setMaxListeners(0);
+
+export const isFinished = (job: ExportJob) =>
+  job.status === "completed" || job.status === "failed";
+
+export function subscribeToExport(jobId: number, listener: (job: ExportJob) => void) {
+  progress.on(String(jobId), listener);
+  return () => {
+    progress.off(String(jobId), listener);
+  };
+}
+
+async function updateJob(id: number, updates: Partial<InsertExportJob>) {
+  const job = await storage.updateExportJob(id, updates);
+  if (job) progress.emit(String(id), job);
+  return job;
+}
+
+export async function enqueueExport(job: InsertExportJob): Promise<ExportJob> {
+  const created = await storage.createExportJob({ ...job, status: "queued" });
+  pending.push(created.id);
+  startWorkers();
+  return created;
+}
+
+function startWorkers() {
+  while (activeWorkers < WORKER_COUNT && pending.length > 0) {
+    const id = pending.shift()!;
+    activeWorkers++;
+    runJob(id).finally(() => {
+      activeWorkers--;
+      startWorkers();
+    });
+  }
+}
+
+const isSlideshowFileType = (fileType: ExportFileType): fileType is SlideshowFileType =>
+  (slideshowFileTypes as readonly ExportFileType[]).includes(fileType);
+
+interface Rendition {
+  outputFormat?: OutputFormat;
+  pageCount: number;
+}
+
+async function runJob(id: number) {
+  try {
+    const job = await storage.getExportJob(id);
+    if (!job || job.status !== "queued") return;
+
+    const campaign = await storage.getCampaign(job.campaignId);
+    if (!campaign) {
+      await updateJob(id, {
+        status: "failed",
+        error: "Campaign not found",
+        finishedAt: new Date(),
+      });
+      return;
+    }
+
+    const [placed, templates] = await Promise.all([
+      getPlacedProducts(campaign.id),
+      storage.getTemplates(campaign.organizationId),
+    ]);
+    const formats: (OutputFormat | undefined)[] =
+      job.outputFormats.length > 0 ? job.outputFormats : [undefined];
+    const renditions: Rendition[] = formats.map((outputFormat) => ({
+      outputFormat,
+      pageCount: prepareBrochure(campaign, placed, templates, outputFormat).pageCount,
+    }));
+    const totalPages = renditions.reduce((sum, r) => sum + r.pageCount, 0);
+    await updateJob(id, { status: "running", completedPages: 0, totalPages });
+
+    const { data, extension } = await renderArtifact(job, campaign, placed, templates, renditions);
+    const fileName = `${job.fileName}.${extension}`;
+    const filePath = path.join(EXPORT_DIR, `${id}-${fileName}`);
+    await mkdir(EXPORT_DIR, { recursive: true });
+    await writeFile(filePath, data);
+
+    const finishedAt = new Date();
+    await updateJob(id, {
+      status: "completed",
+      completedPages: totalPages,
+      fileName,
+      filePath,
+      finishedAt,
+      expiresAt: new Date(finishedAt.getTime() + RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    });
+  } catch (error) {
+    console.error(`Export job ${id} failed:`, error);
+    await updateJob(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Export failed",
+      finishedAt: new Date(),
+    }).catch(() => undefined);
+  }
+}
+
+// One rendition with a single file is returned as is; anything more is
+// zipped, with a folder per output format when there are several
+async function renderArtifact(
+  job: ExportJob,
+  campaign: Campaign,
+  placed: PlacedProduct[],
+  templates: Template[],
+  renditions: Rendition[]
+): Promise<{ data: Uint8Array; extension: string }> {
+  const files: { name: string; data: Uint8Array }[] = [];
+  let completedPages = 0;
+  const pageDone = async () => {
+    await updateJob(job.id, { completedPages: ++completedPages });
+    // Let requests in between pages
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  for (const { outputFormat, pageCount } of renditions) {
+    const folder = renditions.length > 1 && outputFormat ? `${outputFormat}/` : "";
+
+    const { fileType } = job;
+    if (fileType === "pdf") {
+      const pdf = await renderCampaignPdf(campaign, placed, templates, outputFormat, pageDone);
+      files.push({ name: `${outputFormat ?? job.fileName}.pdf`, data: pdf });
+      continue;
+    }
+    if (isSlideshowFileType(fileType)) {
+      const options = { ...(job.slideshow ?? slideshowOptionsSchema.parse({})), fileType };
+      const video = await renderCampaignSlideshow(
+        campaign,
+        placed,
+        templates,
+        { ...options, outputFormat },
+        pageDone
+      );
+      files.push({ name: `${outputFormat ?? job.fileName}.${fileType}`, data: video });
+      continue;
+    }
+
+    const extension = fileType === "jpeg" ? "jpg" : fileType;
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page =
+        fileType === "svg"
+          ? await renderCampaignPageSvg(campaign, placed, templates, { pageNumber, outputFormat })
+          : await renderCampaignPageImage(campaign, placed, templates, {
+              pageNumber,
+              imageType: fileType,
+              outputFormat,
+            });
+      if (page) {
+        const data = typeof page === "string" ? Buffer.from(page) : page;
+        files.push({ name: `${folder}page-${pageNumber}.${extension}`, data });
+      }
+      await pageDone();
+    }
+  }
+
+  if (files.length === 1) {
+    return { data: files[0].data, extension: path.extname(files[0].name).slice(1) };
+  }
+
+  const zip = new JSZip();
+  files.forEach((file) => zip.file(file.name, file.data));
+  return { data: await zip.generateAsync({ type: "uint8array" }), extension: "zip" };
+}
+
+export async function removeExport(job: ExportJob) {
+  if (job.filePath) {
+    await unlink(job.filePath).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+  await storage.deleteExportJob(job.id);
+}
+
+async function removeExpiredExports() {
+  try {
+    const expired = await storage.getExpiredExportJobs(new Date());
+    for (const job of expired) await removeExport(job);
+  } catch (error) {
+    console.error("Could not remove expired exports:", error);
+  }
+}
+
+// Re-queues work interrupted by a restart and starts the retention sweep
+export async function startExportQueue() {
+  const unfinished = await storage.getExportJobsByStatus(["queued", "running"]);
+  for (const job of unfinished) {
+    if (job.status === "running") {
+      await storage.updateExportJob(job.id, { status: "queued", completedPages: 0 });
+    }
+    pending.push(job.id);
+  }
+  startWorkers();
+
+  await removeExpiredExports();
+  setInterval(removeExpiredExports, CLEANUP_INTERVAL_MS).unref();
+}
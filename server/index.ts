@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import path from "path";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startExportQueue } from "./export-queue";
+import { startCampaignScheduler } from "./campaign-scheduler";
 
 const app = express();
 app.use(express.json());
@@ -41,6 +43,8 @@ app.use((req, res, next) => {
   // This route is handled by routes.ts registerRoutes function
 
   const server = await registerRoutes(app);
+  await startExportQueue();
+  await startCampaignScheduler();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
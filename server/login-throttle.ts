@@ -0,0 +1,87 @@
+import type { LoginAttempt } from "@shared/schema";
+import { storage } from "./storage";
+
+// Failures are counted per username (reset by a successful sign-in) and per
+// IP address (never reset, so one valid account cannot be used to clear an
+// address that is guessing others). Past the backoff threshold each further
+// failure doubles the wait; past the lockout threshold the key is locked.
+interface ThrottlePolicy {
+  backoffAfter: number;
+  lockoutAfter: number;
+}
+
+const USERNAME_POLICY: ThrottlePolicy = { backoffAfter: 3, lockoutAfter: 10 };
+const IP_POLICY: ThrottlePolicy = { backoffAfter: 10, lockoutAfter: 50 };
+
+const WINDOW_MS = 60 * 60 * 1000; // failures older than an hour are forgotten
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "backoff" | "locked"; retryAfterSeconds: number };
+
+function decide(failures: LoginAttempt[], policy: ThrottlePolicy, now: number): ThrottleDecision {
+  const count = failures.length;
+  if (count < policy.backoffAfter) return { allowed: true };
+
+  const lastFailure = failures[0].createdAt.getTime();
+  const locked = count >= policy.lockoutAfter;
+  const wait = locked
+    ? LOCKOUT_MS
+    : Math.min(BASE_DELAY_MS * 2 ** (count - policy.backoffAfter), MAX_DELAY_MS);
+
+  const remaining = lastFailure + wait - now;
+  if (remaining <= 0) return { allowed: true };
+
+  return {
+    allowed: false,
+    reason: locked ? "locked" : "backoff",
+    retryAfterSeconds: Math.ceil(remaining / 1000),
+  };
+}
+
+// Failures since the most recent success (attempts are newest first)
+function consecutiveFailures(attempts: LoginAttempt[]): LoginAttempt[] {
+  const lastSuccess = attempts.findIndex((a) => a.outcome === "success");
+  const recent = lastSuccess === -1 ? attempts : attempts.slice(0, lastSuccess);
+  return recent.filter((a) => a.outcome === "failure");
+}
+
+export async function checkLoginThrottle(
+  username: string,
+  ipAddress: string
+): Promise<ThrottleDecision> {
+  const now = Date.now();
+  const since = new Date(now - WINDOW_MS);
+  const [byUsername, byIp] = await Promise.all([
+    storage.getLoginAttempts({ username, since }),
+    storage.getLoginAttempts({ ipAddress, since }),
+  ]);
+
+  const decisions = [
+    decide(consecutiveFailures(byUsername), USERNAME_POLICY, now),
+    decide(byIp.filter((a) => a.outcome === "failure"), IP_POLICY, now),
+  ];
+
+  // Report the longest wait when both keys are throttled
+  return decisions.reduce((worst, decision) => {
+    if (decision.allowed) return worst;
+    if (worst.allowed || decision.retryAfterSeconds > worst.retryAfterSeconds) return decision;
+    return worst;
+  }, { allowed: true } as ThrottleDecision);
+}
+
+export function throttleMessage(decision: Extract<ThrottleDecision, { allowed: false }>): string {
+  const seconds = decision.retryAfterSeconds;
+  const minutes = Math.ceil(seconds / 60);
+  const wait =
+    seconds >= 60
+      ? `${minutes} minute${minutes === 1 ? "" : "s"}`
+      : `${seconds} second${seconds === 1 ? "" : "s"}`;
+
+  return decision.reason === "locked"
+    ? `Too many failed sign-in attempts. Sign-in is locked; try again in ${wait}.`
+    : `Too many failed sign-in attempts. Try again in ${wait}.`;
+}
@@ -0,0 +1,180 @@
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BROCHURE_LAYOUT } from "@shared/layout";
+import type { Campaign, Product } from "@shared/schema";
+import type { PlacedProduct } from "./brochure-render";
+import { renderCampaignPageImage, type PageImageType } from "./page-image";
+
+// Golden-image checks for the Skia renderer. Run with UPDATE_GOLDEN=1 to
+// rewrite the images under __golden__ after an intended visual change, and
+// look at the new files before committing them.
+
+const GOLDEN_DIR = path.join(import.meta.dirname, "__golden__");
+
+// A pixel differs when any channel moves by more than this; a few differing
+// pixels are allowed for anti-aliasing and codec differences between builds
+const CHANNEL_TOLERANCE = 24;
+const MAX_DIFFERING_PIXELS = 0.001;
+
+const campaign: Campaign = {
+  id: 1,
+  name: "Golden Campaign",
+  description: null,
+  status: "active",
+  userId: 1,
+  organizationId: 1,
+  branchId: null,
+  templateId: null,
+  logoId: null,
+  companyName: "Karatay Market",
+  // Midday in Istanbul, so the badge reads the same days in any zone
+  startDate: new Date("2025-06-02T09:00:00Z"),
+  endDate: new Date("2025-06-08T09:00:00Z"),
+  validUntil: null,
+  layout: {
+    ...DEFAULT_BROCHURE_LAYOUT,
+    pageCount: 2,
+    titleColor: "#b91c1c",
+    footerBgColor: "#1f2937",
+    footerAddress: "Mevlana Cad. No: 1, Konya",
+    social: { instagram: "karataymarket", facebook: "", twitter: "" },
+  },
+  shareSlug: null,
+  sharedAt: null,
+  createdAt: new Date("2025-05-01T09:00:00Z"),
+  updatedAt: new Date("2025-05-01T09:00:00Z"),
+};
+
+function product(id: number, name: string, originalPrice: number, imageUrl: string | null) {
+  const row: Product = {
+    id,
+    organizationId: 1,
+    name,
+    category: "Test",
+    originalPrice,
+    imageUrl,
+    description: null,
+  };
+  return row;
+}
+
+function placed(
+  id: number,
+  row: Product,
+  newPrice: number,
+  pageNumber: number,
+  gridIndex: number
+): PlacedProduct {
+  return {
+    id,
+    campaignId: campaign.id,
+    productId: row.id,
+    quantity: 1,
+    discountPercent: Math.round((1 - newPrice / row.originalPrice) * 100),
+    newPrice,
+    positionX: 0,
+    positionY: 0,
+    scaleX: 1.4,
+    scaleY: 1.4,
+    pageNumber,
+    rotation: 0,
+    gridIndex,
+    product: row,
+  };
+}
+
+// A checked-in asset, so the render stays offline
+const bike = product(
+  1,
+  "Elektrikli Bisiklet",
+  24999.9,
+  "/public/assets/electrikli_bisiklet_1762773708992.JPG"
+);
+const tea = product(2, "Çaykur Rize Çayı 1 kg", 189.5, null);
+const cheese = product(3, "Ezine Beyaz Peynir", 245, null);
+
+const items = [
+  placed(1, bike, 19999.9, 1, 0),
+  placed(2, tea, 149.95, 1, 1),
+  placed(3, cheese, 199, 1, 2),
+  placed(4, tea, 139.9, 2, 0),
+];
+
+async function pixels(image: Buffer) {
+  const decoded = await loadImage(image);
+  const canvas = createCanvas(decoded.width, decoded.height);
+  const ctx = canvas.getContext("2d");
+  ctx.drawImage(decoded, 0, 0);
+  return ctx.getImageData(0, 0, decoded.width, decoded.height);
+}
+
+// Share of pixels that differ beyond the channel tolerance
+async function differingPixels(actual: Buffer, expected: Buffer) {
+  const [a, b] = await Promise.all([pixels(actual), pixels(expected)]);
+  expect([a.width, a.height]).toEqual([b.width, b.height]);
+
+  let differing = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(a.data[i + channel] - b.data[i + channel]) > CHANNEL_TOLERANCE) {
+        differing++;
+        break;
+      }
+    }
+  }
+  return differing / (a.width * a.height);
+}
+
+async function expectGolden(name: string, image: Buffer) {
+  const file = path.join(GOLDEN_DIR, name);
+  if (process.env.UPDATE_GOLDEN || !existsSync(file)) {
+    // Missing goldens only fail on CI, where nobody looks at them
+    const missingOnCi = !!process.env.CI && !process.env.UPDATE_GOLDEN;
+    expect(missingOnCi, `${name} has no golden image`).toBe(false);
+    await mkdir(GOLDEN_DIR, { recursive: true });
+    await writeFile(file, image);
+    return;
+  }
+  expect(await differingPixels(image, await readFile(file))).toBeLessThanOrEqual(
+    MAX_DIFFERING_PIXELS
+  );
+}
+
+describe("renderCampaignPageImage", () => {
+  const cases: [string, number, PageImageType][] = [
+    ["page-1.png", 1, "png"],
+    ["page-1.jpeg", 1, "jpeg"],
+    ["page-2.png", 2, "png"],
+  ];
+
+  it.each(cases)("matches %s", async (name, pageNumber, imageType) => {
+    const image = await renderCampaignPageImage(campaign, items, [], {
+      pageNumber,
+      imageType,
+      width: 540,
+    });
+    expect(image).toBeDefined();
+    await expectGolden(name, image!);
+  });
+
+  it("matches the story format", async () => {
+    const image = await renderCampaignPageImage(campaign, items, [], {
+      pageNumber: 1,
+      imageType: "png",
+      outputFormat: "instagram_story",
+      width: 360,
+    });
+    await expectGolden("page-1-story.png", image!);
+  });
+
+  it("has no pages past the last one", async () => {
+    const image = await renderCampaignPageImage(campaign, items, [], {
+      pageNumber: 3,
+      imageType: "png",
+    });
+    expect(image).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+import path from "path";
+import {
+  GlobalFonts,
+  createCanvas,
+  loadImage,
+  type Image,
+  type SKRSContext2D,
+} from "@napi-rs/canvas";
+import type { Campaign, Template } from "@shared/schema";
+import type { OutputFormat } from "@shared/layout";
+import {
+  FONT_DIR,
+  PageSurface,
+  drawBrochurePage,
+  prepareBrochure,
+  readAsset,
+  type ImageSource,
+  type PlacedProduct,
+  type RGBColor,
+} from "./brochure-render";
+
+// Renders single brochure pages to bitmaps with Skia, for API and scheduled
+// exports that cannot rely on the editor running in a browser.
+
+export type PageImageType = "png" | "jpeg" | "webp";
+
+export const FONT_FAMILY = "DejaVu Sans";
+GlobalFonts.registerFromPath(path.join(FONT_DIR, "DejaVuSans.ttf"), FONT_FAMILY);
+GlobalFonts.registerFromPath(path.join(FONT_DIR, "DejaVuSans-Bold.ttf"), FONT_FAMILY);
+
+const toCss = ({ r, g, b }: RGBColor) =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+// Skia decodes PNG, JPEG, WebP, GIF and SVG; PDF templates are skipped
+class ImageCache implements ImageSource<Image> {
+  private images = new Map<string, Promise<Image | undefined>>();
+
+  load(url: string): Promise<Image | undefined> {
+    let image = this.images.get(url);
+    if (!image) {
+      image = this.decode(url);
+      this.images.set(url, image);
+    }
+    return image;
+  }
+
+  private async decode(url: string): Promise<Image | undefined> {
+    const bytes = await readAsset(url);
+    if (!bytes) return undefined;
+
+    try {
+      return await loadImage(Buffer.from(bytes));
+    } catch (error) {
+      console.warn(`Could not decode ${url} for page image:`, error);
+      return undefined;
+    }
+  }
+}
+
+class CanvasSurface extends PageSurface<Image> {
+  constructor(
+    private ctx: SKRSContext2D,
+    width: number,
+    height: number
+  ) {
+    super(width, height);
+  }
+
+  private setFont(size: number, bold?: boolean) {
+    this.ctx.font = `${bold ? "bold " : ""}${size}px "${FONT_FAMILY}"`;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RGBColor,
+    border?: { color: RGBColor; width: number }
+  ) {
+    this.ctx.fillStyle = toCss(color);
+    this.ctx.fillRect(x, y, width, height);
+    if (border) {
+      this.ctx.strokeStyle = toCss(border.color);
+      this.ctx.lineWidth = border.width;
+      this.ctx.strokeRect(x, y, width, height);
+    }
+  }
+
+  baselineText(
+    value: string,
+    x: number,
+    baseline: number,
+    size: number,
+    color: RGBColor,
+    bold?: boolean
+  ) {
+    this.setFont(size, bold);
+    this.ctx.fillStyle = toCss(color);
+    this.ctx.textBaseline = "alphabetic";
+    this.ctx.fillText(value, x, baseline);
+  }
+
+  ascent(size: number, bold?: boolean) {
+    this.setFont(size, bold);
+    return this.ctx.measureText("H").actualBoundingBoxAscent;
+  }
+
+  textWidth(value: string, size: number, bold?: boolean) {
+    this.setFont(size, bold);
+    return this.ctx.measureText(value).width;
+  }
+
+  cover(background: Image) {
+    const scale = Math.max(this.width / background.width, this.height / background.height);
+    const width = background.width * scale;
+    const height = background.height * scale;
+    this.ctx.drawImage(
+      background,
+      (this.width - width) / 2,
+      (this.height - height) / 2,
+      width,
+      height
+    );
+  }
+
+  image(image: Image, cx: number, cy: number, width: number, height: number, rotation: number) {
+    this.ctx.save();
+    this.ctx.translate(cx, cy);
+    this.ctx.rotate((rotation * Math.PI) / 180);
+    this.ctx.drawImage(image, -width / 2, -height / 2, width, height);
+    this.ctx.restore();
+  }
+}
+
+export interface PageImageOptions {
+  pageNumber: number;
+  imageType: PageImageType;
+  outputFormat?: OutputFormat;
+  // Pixel width; defaults to the format's export size
+  width?: number;
+}
+
+// Returns undefined when the campaign has no such page
+export async function renderCampaignPageImage(
+  campaign: Campaign,
+  items: PlacedProduct[],
+  templates: Template[],
+  options: PageImageOptions
+): Promise<Buffer | undefined> {
+  const brochure = prepareBrochure(campaign, items, templates, options.outputFormat);
+  if (options.pageNumber < 1 || options.pageNumber > brochure.pageCount) return undefined;
+
+  const { geometry } = brochure;
+  const pixelWidth = options.width ?? geometry.exportWidth;
+  const scale = pixelWidth / geometry.width;
+  const canvas = createCanvas(pixelWidth, Math.round(geometry.height * scale));
+  const ctx = canvas.getContext("2d");
+
+  // JPEG has no transparency, so unfilled areas come out white like in print
+  if (options.imageType === "jpeg") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+
+  const surface = new CanvasSurface(ctx, geometry.width, geometry.height);
+  await drawBrochurePage(surface, new ImageCache(), brochure, options.pageNumber);
+
+  switch (options.imageType) {
+    case "png":
+      return canvas.encode("png");
+    case "jpeg":
+      return canvas.encode("jpeg", 92);
+    case "webp":
+      return canvas.encode("webp", 90);
+  }
+}
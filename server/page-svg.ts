@@ -0,0 +1,203 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Campaign, Template } from "@shared/schema";
+import type { OutputFormat } from "@shared/layout";
+import { PRINT_PRESETS } from "@shared/print";
+import {
+  PageSurface,
+  drawBrochurePage,
+  prepareBrochure,
+  readAsset,
+  type ImageSource,
+  type PlacedProduct,
+  type RGBColor,
+} from "./brochure-render";
+import { FONT_FAMILY } from "./page-image";
+
+// Renders brochure pages as editable SVG: images are embedded as data URIs
+// and all text stays live <text>, so designers can touch pages up in
+// Illustrator or Inkscape. Text is measured with the same DejaVu metrics as
+// the other renderers.
+
+interface SvgImage {
+  href: string;
+  width: number;
+  height: number;
+}
+
+const TEXT_FONT = `'${FONT_FAMILY}', sans-serif`;
+
+const measure = createCanvas(1, 1).getContext("2d");
+
+const num = (value: number) => String(Number(value.toFixed(2)));
+
+const toHex = ({ r, g, b }: RGBColor) =>
+  `#${[r, g, b]
+    .map((c) => Math.round(c * 255).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+const escapeXml = (value: string) =>
+  value.replace(
+    /[&<>"]/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!
+  );
+
+function sniffImageType(bytes: Uint8Array): string | undefined {
+  const head = Buffer.from(bytes.subarray(0, 12)).toString("latin1");
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  if (head.startsWith("GIF8")) return "image/gif";
+  if (head.startsWith("RIFF") && head.slice(8) === "WEBP") return "image/webp";
+  if (/^\s*</.test(head)) return "image/svg+xml";
+  return undefined;
+}
+
+// Images are decoded once for their size and embedded as they are, linked
+// with xlink:href, which Illustrator still requires; PDF templates are skipped
+class EmbeddedImageCache implements ImageSource<SvgImage> {
+  private images = new Map<string, Promise<SvgImage | undefined>>();
+
+  load(url: string): Promise<SvgImage | undefined> {
+    let image = this.images.get(url);
+    if (!image) {
+      image = this.embed(url);
+      this.images.set(url, image);
+    }
+    return image;
+  }
+
+  private async embed(url: string): Promise<SvgImage | undefined> {
+    const bytes = await readAsset(url);
+    const type = bytes && sniffImageType(bytes);
+    if (!bytes || !type) return undefined;
+
+    try {
+      const { width, height } = await loadImage(Buffer.from(bytes));
+      const href = `data:${type};base64,${Buffer.from(bytes).toString("base64")}`;
+      return { href, width, height };
+    } catch (error) {
+      console.warn(`Could not decode ${url} for SVG:`, error);
+      return undefined;
+    }
+  }
+}
+
+class SvgSurface extends PageSurface<SvgImage> {
+  private elements: string[] = [];
+
+  private setFont(size: number, bold?: boolean) {
+    measure.font = `${bold ? "bold " : ""}${size}px "${FONT_FAMILY}"`;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RGBColor,
+    border?: { color: RGBColor; width: number }
+  ) {
+    const stroke = border
+      ? ` stroke="${toHex(border.color)}" stroke-width="${num(border.width)}"`
+      : "";
+    this.elements.push(
+      `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" ` +
+        `fill="${toHex(color)}"${stroke}/>`
+    );
+  }
+
+  baselineText(
+    value: string,
+    x: number,
+    baseline: number,
+    size: number,
+    color: RGBColor,
+    bold?: boolean,
+    fontFamily?: string
+  ) {
+    const family = escapeXml(fontFamily ?? TEXT_FONT);
+    const weight = bold ? ` font-weight="bold"` : "";
+    this.elements.push(
+      `<text x="${num(x)}" y="${num(baseline)}" font-family="${family}" ` +
+        `font-size="${num(size)}"${weight} fill="${toHex(color)}" xml:space="preserve">` +
+        `${escapeXml(value)}</text>`
+    );
+  }
+
+  ascent(size: number, bold?: boolean) {
+    this.setFont(size, bold);
+    return measure.measureText("H").actualBoundingBoxAscent;
+  }
+
+  textWidth(value: string, size: number, bold?: boolean) {
+    this.setFont(size, bold);
+    return measure.measureText(value).width;
+  }
+
+  cover(background: SvgImage) {
+    const scale = Math.max(this.width / background.width, this.height / background.height);
+    const width = background.width * scale;
+    const height = background.height * scale;
+    this.pushImage(background, (this.width - width) / 2, (this.height - height) / 2, width, height);
+  }
+
+  image(image: SvgImage, cx: number, cy: number, width: number, height: number, rotation: number) {
+    const transform = rotation
+      ? ` transform="rotate(${num(rotation)} ${num(cx)} ${num(cy)})"`
+      : "";
+    this.pushImage(image, cx - width / 2, cy - height / 2, width, height, transform);
+  }
+
+  private pushImage(
+    image: SvgImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    transform = ""
+  ) {
+    this.elements.push(
+      `<image x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" ` +
+        `preserveAspectRatio="none" xlink:href="${image.href}"${transform}/>`
+    );
+  }
+
+  // The viewBox is in editor units; width and height set the document size
+  toSvg(width: string, height: string, title: string) {
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `width="${width}" height="${height}" viewBox="0 0 ${num(this.width)} ${num(this.height)}">`,
+      `<title>${escapeXml(title)}</title>`,
+      ...this.elements,
+      `</svg>`,
+      "",
+    ].join("\n");
+  }
+}
+
+export interface PageSvgOptions {
+  pageNumber: number;
+  outputFormat?: OutputFormat;
+}
+
+// Returns undefined when the campaign has no such page
+export async function renderCampaignPageSvg(
+  campaign: Campaign,
+  items: PlacedProduct[],
+  templates: Template[],
+  options: PageSvgOptions
+): Promise<string | undefined> {
+  const brochure = prepareBrochure(campaign, items, templates, options.outputFormat);
+  if (options.pageNumber < 1 || options.pageNumber > brochure.pageCount) return undefined;
+
+  const { geometry } = brochure;
+  const surface = new SvgSurface(geometry.width, geometry.height);
+  await drawBrochurePage(surface, new EmbeddedImageCache(), brochure, options.pageNumber);
+
+  // Paper formats open at their trim size, the rest at the raster export size
+  const paper = geometry.printPreset ? PRINT_PRESETS[geometry.printPreset] : undefined;
+  const [width, height] = paper
+    ? [`${paper.widthMm}mm`, `${paper.heightMm}mm`]
+    : [String(geometry.exportWidth), String(geometry.exportHeight)];
+  return surface.toSvg(width, height, `${campaign.name} - ${options.pageNumber}`);
+}
@@ -0,0 +1,40 @@
+import { scrypt, scryptSync, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt hex>$<hash hex>"
+function formatHash(salt: string, hash: Buffer) {
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return formatHash(salt, hash);
+}
+
+// For seeding at startup, where there is no event loop work to yield to
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  return formatHash(salt, scryptSync(password, salt, KEY_LENGTH));
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith("scrypt$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Rows created before passwords were hashed; callers rehash on success
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, hashHex] = stored.split("$");
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return timingSafeEqual(actual, expected);
+}
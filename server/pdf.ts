@@ -0,0 +1,270 @@
+import {
+  PDFDocument,
+  PDFImage,
+  concatTransformationMatrix,
+  degrees,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  type PDFEmbeddedPage,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Campaign, Template } from "@shared/schema";
+import { getCropMarks, getPrintSheet, mmToPt, type PrintSheet } from "@shared/print";
+import type { OutputFormat } from "@shared/layout";
+import {
+  FONT_DIR,
+  PageSurface,
+  drawBrochurePage,
+  prepareBrochure,
+  readAsset,
+  type ImageSource,
+  type PlacedProduct,
+  type RGBColor,
+} from "./brochure-render";
+
+// Builds the brochure PDF from the saved campaign: one page per brochure
+// page, drawn in editor units (1 unit = 1pt) so positions match the canvas.
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+type Background = PDFImage | PDFEmbeddedPage;
+
+const toColor = ({ r, g, b }: RGBColor) => rgb(r, g, b);
+
+class AssetCache implements ImageSource<Background> {
+  private images = new Map<string, Promise<Background | undefined>>();
+
+  constructor(private doc: PDFDocument) {}
+
+  // PNG and JPEG are embedded as images and PDF templates as their first
+  // page; anything else (SVG, WebP, HTML) is skipped.
+  load(url: string): Promise<Background | undefined> {
+    let image = this.images.get(url);
+    if (!image) {
+      image = this.embed(url);
+      this.images.set(url, image);
+    }
+    return image;
+  }
+
+  private async embed(url: string): Promise<Background | undefined> {
+    const bytes = await readAsset(url);
+    if (!bytes) return undefined;
+
+    try {
+      if (bytes[0] === 0x89 && bytes[1] === 0x50) return await this.doc.embedPng(bytes);
+      if (bytes[0] === 0xff && bytes[1] === 0xd8) return await this.doc.embedJpg(bytes);
+      if (Buffer.from(bytes.subarray(0, 4)).toString("latin1") === "%PDF") {
+        const [page] = await this.doc.embedPdf(bytes, [0]);
+        return page;
+      }
+    } catch (error) {
+      console.warn(`Could not embed ${url} in PDF:`, error);
+    }
+    return undefined;
+  }
+}
+
+// On print sheets the caller maps the editor units onto the trim box
+class PdfSurface extends PageSurface<Background> {
+  constructor(
+    readonly page: PDFPage,
+    private fonts: Fonts,
+    width: number,
+    height: number,
+    bleed = 0
+  ) {
+    super(width, height, bleed);
+  }
+
+  private font(bold?: boolean) {
+    return bold ? this.fonts.bold : this.fonts.regular;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RGBColor,
+    border?: { color: RGBColor; width: number }
+  ) {
+    this.page.drawRectangle({
+      x,
+      y: this.height - y - height,
+      width,
+      height,
+      color: toColor(color),
+      borderColor: border && toColor(border.color),
+      borderWidth: border?.width,
+    });
+  }
+
+  baselineText(
+    value: string,
+    x: number,
+    baseline: number,
+    size: number,
+    color: RGBColor,
+    bold?: boolean
+  ) {
+    this.page.drawText(value, {
+      x,
+      y: this.height - baseline,
+      size,
+      font: this.font(bold),
+      color: toColor(color),
+    });
+  }
+
+  ascent(size: number, bold?: boolean) {
+    return this.font(bold).heightAtSize(size, { descender: false });
+  }
+
+  textWidth(value: string, size: number, bold?: boolean) {
+    return this.font(bold).widthOfTextAtSize(value, size);
+  }
+
+  // The overflow falls outside the page box and is not printed
+  cover(background: Background) {
+    const areaWidth = this.width + 2 * this.bleed;
+    const areaHeight = this.height + 2 * this.bleed;
+    const scale = Math.max(areaWidth / background.width, areaHeight / background.height);
+    const width = background.width * scale;
+    const height = background.height * scale;
+    const x = (this.width - width) / 2;
+    const y = (this.height - height) / 2;
+
+    if (background instanceof PDFImage) {
+      this.page.drawImage(background, { x, y, width, height });
+    } else {
+      this.page.drawPage(background, { x, y, width, height });
+    }
+  }
+
+  image(image: Background, cx: number, cy: number, width: number, height: number, rotation: number) {
+    const angle = (-rotation * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // The image rotates around its bottom-left corner, so start from where
+    // that corner ends up after rotating around the center
+    const dx = (-width / 2) * cos + (height / 2) * sin;
+    const dy = (-width / 2) * sin - (height / 2) * cos;
+    const options = {
+      x: cx + dx,
+      y: this.height - cy + dy,
+      width,
+      height,
+      rotate: degrees(-rotation),
+    };
+
+    if (image instanceof PDFImage) {
+      this.page.drawImage(image, options);
+    } else {
+      this.page.drawPage(image, options);
+    }
+  }
+}
+
+// Print sheets are sized in points with the trim, bleed and crop-mark slug;
+// the design units are scaled onto the trim box
+function startPrintPage(
+  doc: PDFDocument,
+  sheet: PrintSheet,
+  fonts: Fonts,
+  width: number,
+  height: number
+): PdfSurface {
+  const page = doc.addPage([mmToPt(sheet.sheetWidth), mmToPt(sheet.sheetHeight)]);
+  const offset = mmToPt(sheet.trimOffset);
+  const scale = mmToPt(sheet.trimWidth) / width;
+  const bleed = mmToPt(sheet.bleed);
+
+  page.setTrimBox(offset, offset, mmToPt(sheet.trimWidth), mmToPt(sheet.trimHeight));
+  page.setBleedBox(
+    offset - bleed,
+    offset - bleed,
+    mmToPt(sheet.trimWidth) + 2 * bleed,
+    mmToPt(sheet.trimHeight) + 2 * bleed
+  );
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(scale, 0, 0, scale, offset, offset)
+  );
+
+  return new PdfSurface(page, fonts, width, height, bleed / scale);
+}
+
+function finishPrintPage(page: PDFPage, sheet: PrintSheet) {
+  page.pushOperators(popGraphicsState());
+
+  // Hide whatever spills past the bleed under white slug margins, then mark
+  // the trim
+  const sheetWidth = mmToPt(sheet.sheetWidth);
+  const sheetHeight = mmToPt(sheet.sheetHeight);
+  const slug = mmToPt(sheet.trimOffset - sheet.bleed);
+  const margins = [
+    { x: 0, y: 0, width: sheetWidth, height: slug },
+    { x: 0, y: sheetHeight - slug, width: sheetWidth, height: slug },
+    { x: 0, y: 0, width: slug, height: sheetHeight },
+    { x: sheetWidth - slug, y: 0, width: slug, height: sheetHeight },
+  ];
+  margins.forEach((margin) => page.drawRectangle({ ...margin, color: rgb(1, 1, 1) }));
+
+  for (const mark of getCropMarks(sheet)) {
+    page.drawLine({
+      start: { x: mmToPt(mark.x1), y: sheetHeight - mmToPt(mark.y1) },
+      end: { x: mmToPt(mark.x2), y: sheetHeight - mmToPt(mark.y2) },
+      thickness: 0.25,
+      color: rgb(0, 0, 0),
+    });
+  }
+}
+
+// Renders the editor canvas, or re-flows the design into one of the
+// campaign's output formats. onPage is called after each page is drawn.
+export async function renderCampaignPdf(
+  campaign: Campaign,
+  items: PlacedProduct[],
+  templates: Template[],
+  outputFormat?: OutputFormat,
+  onPage?: (pageNumber: number, pageCount: number) => void | Promise<void>
+): Promise<Uint8Array> {
+  const brochure = prepareBrochure(campaign, items, templates, outputFormat);
+  const { width, height, printPreset } = brochure.geometry;
+  const sheet = printPreset ? getPrintSheet(printPreset, brochure.layout.bleedMm) : undefined;
+
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(campaign.name);
+  const [regular, bold] = await Promise.all([
+    readFile(path.join(FONT_DIR, "DejaVuSans.ttf")),
+    readFile(path.join(FONT_DIR, "DejaVuSans-Bold.ttf")),
+  ]);
+  const fonts: Fonts = {
+    regular: await doc.embedFont(regular, { subset: true }),
+    bold: await doc.embedFont(bold, { subset: true }),
+  };
+  const assets = new AssetCache(doc);
+
+  for (let pageNumber = 1; pageNumber <= brochure.pageCount; pageNumber++) {
+    const surface = sheet
+      ? startPrintPage(doc, sheet, fonts, width, height)
+      : new PdfSurface(doc.addPage([width, height]), fonts, width, height);
+
+    await drawBrochurePage(surface, assets, brochure, pageNumber);
+
+    if (sheet) finishPrintPage(surface.page, sheet);
+    await onPage?.(pageNumber, brochure.pageCount);
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,71 @@
+import {
+  campaignDays,
+  campaignsOverlap,
+  type Campaign,
+  type PriceConflict,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Prices are compared to the kuruş
+const samePrice = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+type CheckedCampaign = Pick<Campaign, "organizationId" | "startDate" | "endDate"> & {
+  id?: number;
+};
+
+// Products of `campaign` that other published campaigns advertise at a
+// different price on a common day. Only campaigns in `readableCampaigns` are
+// compared, so nobody learns about campaigns they cannot see.
+export async function findPriceConflicts(
+  campaign: CheckedCampaign,
+  items: { productId: number; newPrice: number }[],
+  readableCampaigns: Campaign[]
+): Promise<PriceConflict[]> {
+  if (items.length === 0 || !campaignDays(campaign)) return [];
+
+  const others = readableCampaigns.filter(
+    (other) =>
+      other.id !== campaign.id && other.status !== "draft" && campaignsOverlap(campaign, other)
+  );
+  if (others.length === 0) return [];
+
+  const productIds = new Set(items.map((item) => item.productId));
+  const [placements, products] = await Promise.all([
+    storage.getCampaignProductsForCampaigns(others.map((other) => other.id)),
+    storage.getProducts(campaign.organizationId),
+  ]);
+  const othersById = new Map(others.map((other) => [other.id, other]));
+  const advertised = placements.filter((placement) => productIds.has(placement.productId));
+  const productNames = new Map(products.map((product) => [product.id, product.name]));
+
+  const conflicts = new Map<string, PriceConflict>();
+  for (const item of items) {
+    for (const placement of advertised) {
+      if (placement.productId !== item.productId) continue;
+      if (samePrice(placement.newPrice, item.newPrice)) continue;
+      const other = othersById.get(placement.campaignId)!;
+      // A product placed twice at one price is reported once
+      const key = [item.productId, item.newPrice, other.id, placement.newPrice].join(":");
+      conflicts.set(key, {
+        productId: item.productId,
+        productName: productNames.get(item.productId) ?? `Product #${item.productId}`,
+        price: item.newPrice,
+        conflictingPrice: placement.newPrice,
+        conflictingCampaign: {
+          id: other.id,
+          name: other.name,
+          status: other.status,
+          branchId: other.branchId,
+          startDate: other.startDate,
+          endDate: other.endDate,
+        },
+      });
+    }
+  }
+
+  return Array.from(conflicts.values()).sort(
+    (a, b) =>
+      a.productName.localeCompare(b.productName, "tr") ||
+      a.conflictingCampaign.id - b.conflictingCampaign.id
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { ProductPerformance, ProductReport } from "@shared/schema";
+import { buildProductReport, productReportToCsv } from "./product-report";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("buildProductReport", () => {
+  it("counts the clicks within the requested range", async () => {
+    const organization = await storage.createOrganization({ name: "Report Test" });
+    const product = await storage.createProduct({
+      organizationId: organization.id,
+      name: "Çay",
+      category: "İçecek",
+      originalPrice: 100,
+    });
+    const campaign = await storage.createCampaign({
+      name: "Long running",
+      userId: 1,
+      organizationId: organization.id,
+      startDate: new Date("2025-01-01T09:00:00Z"),
+      endDate: new Date(Date.now() + 30 * DAY_MS),
+    });
+    const placed = await storage.addProductToCampaign({
+      campaignId: campaign.id,
+      productId: product.id,
+      newPrice: 80,
+    });
+    for (let i = 0; i < 2; i++) {
+      await storage.recordAnalyticsEvent({
+        organizationId: organization.id,
+        campaignId: campaign.id,
+        type: "product_click",
+        channel: "direct",
+        campaignProductId: placed.id,
+        productId: product.id,
+      });
+    }
+
+    const clicks = async (from: Date, to: Date) => {
+      const report = await buildProductReport(organization.id, [campaign], { from, to });
+      expect(report.products).toHaveLength(1);
+      return report.products[0].clicks;
+    };
+    const now = Date.now();
+    expect(await clicks(new Date("2025-01-01"), new Date(now - DAY_MS))).toBe(0);
+    expect(await clicks(new Date(now - DAY_MS), new Date(now + DAY_MS))).toBe(2);
+  });
+});
+
+describe("productReportToCsv", () => {
+  const row = (name: string, category: string): ProductPerformance => ({
+    productId: 1,
+    name,
+    category,
+    originalPrice: 10,
+    campaignCount: 1,
+    avgDiscountPercent: 0,
+    maxDiscountPercent: 0,
+    avgNewPrice: 12,
+    avgSavingPercent: -20,
+    firstFeaturedAt: new Date("2025-06-02T09:00:00Z"),
+    lastFeaturedAt: new Date("2025-06-02T09:00:00Z"),
+    clicks: 0,
+  });
+
+  it("keeps text that looks like a formula literal", () => {
+    const report: ProductReport = {
+      from: null,
+      to: null,
+      products: [
+        row('=HYPERLINK("http://evil.example","Çay")', "+Gıda"),
+        row("-Peynir", "@Süt"),
+        row("Simit", "Fırın"),
+      ],
+      categories: [],
+    };
+    const lines = productReportToCsv(report).split("\r\n");
+    expect(lines.slice(1, 4)).toEqual([
+      `"'=HYPERLINK(""http://evil.example"",""Çay"")",'+Gıda,` +
+        "1,0,0,10,12,-20,2025-06-02,2025-06-02,0",
+      "'-Peynir,'@Süt,1,0,0,10,12,-20,2025-06-02,2025-06-02,0",
+      "Simit,Fırın,1,0,0,10,12,-20,2025-06-02,2025-06-02,0",
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+import ExcelJS from "exceljs";
+import {
+  toBusinessDay,
+  type Campaign,
+  type CampaignProduct,
+  type CategoryPerformance,
+  type Product,
+  type ProductPerformance,
+  type ProductReport,
+  type ProductReportQuery,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Which products the organization promotes, how often and how deeply,
+// aggregated over every campaign the user can read.
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// A campaign is dated by its start, or by its creation while it has none
+const featuredAt = (campaign: Campaign) =>
+  new Date(campaign.startDate ?? campaign.createdAt ?? Date.now());
+
+function runsWithin(campaign: Campaign, query: ProductReportQuery) {
+  const start = featuredAt(campaign);
+  const end = campaign.endDate ? new Date(campaign.endDate) : start;
+  return (!query.from || end >= query.from) && (!query.to || start <= query.to);
+}
+
+export async function buildProductReport(
+  organizationId: number,
+  readableCampaigns: Campaign[],
+  query: ProductReportQuery
+): Promise<ProductReport> {
+  const campaigns = readableCampaigns.filter((campaign) => runsWithin(campaign, query));
+  const campaignIds = campaigns.map((campaign) => campaign.id);
+  const [placements, products, clickCounts] = await Promise.all([
+    storage.getCampaignProductsForCampaigns(campaignIds),
+    storage.getProducts(organizationId),
+    // Clicks within the range only, like the campaigns
+    storage.countAnalyticsEvents(campaignIds, "product", { from: query.from, to: query.to }),
+  ]);
+
+  const campaignsById = new Map(campaigns.map((campaign) => [campaign.id, campaign]));
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const clicks = new Map(
+    clickCounts
+      .filter((count) => count.type === "product_click")
+      .map((count) => [Number(count.key), count.count])
+  );
+
+  const byProduct = new Map<number, CampaignProduct[]>();
+  for (const placement of placements) {
+    const product = productsById.get(placement.productId);
+    if (!product || (query.category && product.category !== query.category)) continue;
+    byProduct.set(placement.productId, [...(byProduct.get(placement.productId) ?? []), placement]);
+  }
+
+  const rows: { product: Product; placements: CampaignProduct[]; row: ProductPerformance }[] = [];
+  byProduct.forEach((items, productId) => {
+    const product = productsById.get(productId)!;
+    const dates = items
+      .map((item) => featuredAt(campaignsById.get(item.campaignId)!).getTime())
+      .sort((a, b) => a - b);
+    const discounts = items.map((item) => item.discountPercent);
+    const avgNewPrice = average(items.map((item) => item.newPrice));
+
+    rows.push({
+      product,
+      placements: items,
+      row: {
+        productId,
+        name: product.name,
+        category: product.category,
+        originalPrice: product.originalPrice,
+        campaignCount: new Set(items.map((item) => item.campaignId)).size,
+        avgDiscountPercent: round(average(discounts)),
+        maxDiscountPercent: round(Math.max(...discounts)),
+        avgNewPrice: round(avgNewPrice),
+        avgSavingPercent:
+          product.originalPrice > 0 ? round((1 - avgNewPrice / product.originalPrice) * 100) : 0,
+        firstFeaturedAt: new Date(dates[0]),
+        lastFeaturedAt: new Date(dates[dates.length - 1]),
+        clicks: clicks.get(productId) ?? 0,
+      },
+    });
+  });
+
+  // Most promoted first
+  rows.sort(
+    (a, b) =>
+      b.row.campaignCount - a.row.campaignCount ||
+      b.row.avgDiscountPercent - a.row.avgDiscountPercent ||
+      a.row.name.localeCompare(b.row.name, "tr")
+  );
+
+  const byCategory = new Map<string, typeof rows>();
+  rows.forEach((entry) => {
+    const category = entry.product.category;
+    byCategory.set(category, [...(byCategory.get(category) ?? []), entry]);
+  });
+  const categories: CategoryPerformance[] = Array.from(byCategory.entries()).map(
+    ([category, entries]) => {
+      const items = entries.flatMap((entry) => entry.placements);
+      const discounts = items.map((item) => item.discountPercent);
+      return {
+        category,
+        productCount: entries.length,
+        campaignCount: new Set(items.map((item) => item.campaignId)).size,
+        avgDiscountPercent: round(average(discounts)),
+        maxDiscountPercent: round(Math.max(...discounts)),
+        clicks: entries.reduce((sum, entry) => sum + entry.row.clicks, 0),
+      };
+    }
+  );
+  categories.sort((a, b) => b.campaignCount - a.campaignCount);
+
+  return {
+    from: query.from ?? null,
+    to: query.to ?? null,
+    products: rows.map((entry) => entry.row),
+    categories,
+  };
+}
+
+const DATE = "dd.mm.yyyy";
+
+interface ReportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | Date;
+  // Excel column width and number format
+  width: number;
+  numFmt?: string;
+}
+
+// Column layout shared by the CSV and the Products sheet
+const PRODUCT_COLUMNS: ReportColumn<ProductPerformance>[] = [
+  { header: "Product", value: (row) => row.name, width: 32 },
+  { header: "Category", value: (row) => row.category, width: 18 },
+  { header: "Campaigns", value: (row) => row.campaignCount, width: 11 },
+  { header: "Avg discount %", value: (row) => row.avgDiscountPercent, width: 15, numFmt: "0.00" },
+  { header: "Max discount %", value: (row) => row.maxDiscountPercent, width: 15, numFmt: "0.00" },
+  { header: "Original price", value: (row) => row.originalPrice, width: 14, numFmt: "#,##0.00" },
+  { header: "Avg new price", value: (row) => row.avgNewPrice, width: 14, numFmt: "#,##0.00" },
+  { header: "Avg saving %", value: (row) => row.avgSavingPercent, width: 13, numFmt: "0.00" },
+  { header: "First featured", value: (row) => row.firstFeaturedAt, width: 14, numFmt: DATE },
+  { header: "Last featured", value: (row) => row.lastFeaturedAt, width: 14, numFmt: DATE },
+  { header: "Clicks", value: (row) => row.clicks, width: 10 },
+];
+
+const CATEGORY_COLUMNS: ReportColumn<CategoryPerformance>[] = [
+  { header: "Category", value: (row) => row.category, width: 24 },
+  { header: "Products", value: (row) => row.productCount, width: 10 },
+  { header: "Campaigns", value: (row) => row.campaignCount, width: 11 },
+  { header: "Avg discount %", value: (row) => row.avgDiscountPercent, width: 15, numFmt: "0.00" },
+  { header: "Max discount %", value: (row) => row.maxDiscountPercent, width: 15, numFmt: "0.00" },
+  { header: "Clicks", value: (row) => row.clicks, width: 10 },
+];
+
+function csvCell(value: string | number | Date) {
+  let text = value instanceof Date ? toBusinessDay(value) : String(value);
+  // Product names are user input: spreadsheets would run one starting like a
+  // formula, so such text is kept literal with a leading quote
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Products only, one row each. The byte order mark makes Excel read the
+// Turkish characters as UTF-8.
+export function productReportToCsv(report: ProductReport): string {
+  const lines = [
+    PRODUCT_COLUMNS.map((column) => csvCell(column.header)).join(","),
+    ...report.products.map((row) =>
+      PRODUCT_COLUMNS.map((column) => csvCell(column.value(row))).join(",")
+    ),
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+// Products and categories on separate sheets, with typed cells
+export async function productReportToXlsx(report: ProductReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const addSheet = <T>(
+    name: string,
+    columns: ReportColumn<T>[],
+    rows: T[]
+  ) => {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: "frozen", ySplit: 1 }] });
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+      style: column.numFmt ? { numFmt: column.numFmt } : {},
+    }));
+    sheet.getRow(1).font = { bold: true };
+    rows.forEach((row) => sheet.addRow(columns.map((column) => column.value(row))));
+  };
+
+  addSheet("Products", PRODUCT_COLUMNS, report.products);
+  addSheet("Categories", CATEGORY_COLUMNS, report.categories);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,170 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Campaign } from "@shared/schema";
+import { renderCampaignPageImage } from "./page-image";
+import { registerPublicRoutes } from "./public-routes";
+import { storage } from "./storage";
+
+// Counts renders while still drawing real pages
+vi.mock("./page-image", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./page-image")>();
+  return { ...actual, renderCampaignPageImage: vi.fn(actual.renderCampaignPageImage) };
+});
+
+let server: Server;
+let baseUrl: string;
+let campaign: Campaign;
+let campaignProductId: number;
+
+beforeAll(async () => {
+  const app = express();
+  // Lets the tests send events from several addresses, as behind the proxy
+  app.set("trust proxy", 1);
+  app.use(express.json());
+  registerPublicRoutes(app);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  campaign = await storage.createCampaign({
+    name: "Public",
+    status: "active",
+    userId: 1,
+    organizationId: 1,
+  });
+  campaign = (await storage.updateCampaign(campaign.id, {
+    shareSlug: "public-routes-test",
+    sharedAt: new Date(),
+  }))!;
+  const placed = await storage.addProductToCampaign({
+    campaignId: campaign.id,
+    productId: 1,
+    newPrice: 9,
+  });
+  campaignProductId = placed.id;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.mocked(renderCampaignPageImage).mockClear();
+});
+
+const page = (file: string) =>
+  fetch(`${baseUrl}/api/public/brochures/public-routes-test/pages/${file}`);
+
+describe("GET /api/public/brochures/:slug/pages/:page.:ext", () => {
+  it("renders the public sizes only", async () => {
+    for (const width of [16, 500, 4096]) {
+      expect((await page(`1.png?width=${width}`)).status).toBe(400);
+    }
+    const response = await page("1.png?width=480");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/png");
+    expect(renderCampaignPageImage).toHaveBeenCalledTimes(1);
+  });
+
+  it("reuses a render until the campaign changes", async () => {
+    const [first, second] = await Promise.all([page("1.jpg?width=480"), page("1.jpg?width=480")]);
+    expect([first.status, second.status]).toEqual([200, 200]);
+    expect((await page("1.jpg?width=480")).status).toBe(200);
+    expect(renderCampaignPageImage).toHaveBeenCalledTimes(1);
+
+    // Another size is another render
+    expect((await page("1.jpg?width=720")).status).toBe(200);
+    expect(renderCampaignPageImage).toHaveBeenCalledTimes(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await storage.updateCampaignProduct(campaignProductId, { newPrice: 8 });
+    expect((await page("1.jpg?width=480")).status).toBe(200);
+    expect(renderCampaignPageImage).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("POST /api/public/brochures/:slug/events", () => {
+  const postEvent = (address: string, body: object) =>
+    fetch(`${baseUrl}/api/public/brochures/public-routes-test/events`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": address },
+      body: JSON.stringify(body),
+    });
+
+  async function counts() {
+    const rows = await storage.countAnalyticsEvents([campaign.id], "campaign", {});
+    return Object.fromEntries(rows.map((row) => [row.type, row.count]));
+  }
+
+  it("counts each view once per visit", async () => {
+    const view = { type: "page_view", pageNumber: 1 };
+    for (const body of [
+      { ...view, sessionId: "visit-a" },
+      { ...view, sessionId: "visit-a" },
+      { ...view, sessionId: "visit-b" },
+      { ...view, pageNumber: 2, sessionId: "visit-a" },
+      { type: "share_open", sessionId: "visit-a" },
+      { type: "share_open", sessionId: "visit-a" },
+      // Without a visit id the address stands in for it
+      view,
+      view,
+      { type: "product_click", campaignProductId, sessionId: "visit-a" },
+      { type: "product_click", campaignProductId, sessionId: "visit-a" },
+    ]) {
+      expect((await postEvent("10.0.0.1", body)).status).toBe(204);
+    }
+    expect(await counts()).toEqual({ page_view: 4, share_open: 1, product_click: 2 });
+  });
+
+  it("throttles an address that floods the brochure", async () => {
+    const click = { type: "product_click", campaignProductId };
+    for (let i = 0; i < 60; i++) {
+      expect((await postEvent("10.0.0.2", click)).status).toBe(204);
+    }
+    const throttled = await postEvent("10.0.0.2", click);
+    expect(throttled.status).toBe(429);
+    expect(Number(throttled.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect((await postEvent("10.0.0.3", click)).status).toBe(204);
+  });
+});
+
+describe("GET /api/public/oembed", () => {
+  it("points the thumbnail at a public size", async () => {
+    const url = encodeURIComponent(`${baseUrl}/b/public-routes-test`);
+    const response = await fetch(`${baseUrl}/api/public/oembed?url=${url}&maxwidth=300`);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.width).toBe(300);
+    expect(body.thumbnail_width).toBe(480);
+    expect(body.thumbnail_url).toMatch(/\/pages\/1\.jpg\?width=480$/);
+  });
+});
+
+describe("unpublished campaigns", () => {
+  it("hides a shared campaign once it is set back to draft or completed by hand", async () => {
+    const shared = await storage.createCampaign({
+      name: "Withdrawn",
+      status: "active",
+      userId: 1,
+      organizationId: 1,
+    });
+    await storage.updateCampaign(shared.id, { shareSlug: "withdrawn", sharedAt: new Date() });
+    const oembed = encodeURIComponent(`${baseUrl}/b/withdrawn`);
+    const statuses = async () =>
+      Promise.all(
+        [
+          "/api/public/brochures/withdrawn",
+          "/api/public/brochures/withdrawn/pages/1.png?width=480",
+          `/api/public/oembed?url=${oembed}`,
+        ].map(async (path) => (await fetch(`${baseUrl}${path}`)).status)
+      );
+
+    expect(await statuses()).toEqual([200, 200, 200]);
+    for (const status of ["draft", "completed"] as const) {
+      await storage.updateCampaign(shared.id, { status });
+      expect(await statuses()).toEqual([404, 404, 404]);
+    }
+  });
+});
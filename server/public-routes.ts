@@ -0,0 +1,369 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import type { Campaign, Organization, PublicBrochure } from "@shared/schema";
+import {
+  pageImageQuerySchema,
+  shareableCampaignStatuses,
+  toBusinessDay,
+  viewerEventSchema,
+} from "@shared/schema";
+import { getPageGeometry, parseBrochureLayout } from "@shared/layout";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getPlacedProducts, prepareBrochure } from "./brochure-render";
+import { renderCampaignPageImage, type PageImageType } from "./page-image";
+import { EMBED_SCRIPT } from "./embed-script";
+import { recordViewerEvent } from "./analytics";
+import { checkEventThrottle, isRepeatView } from "./event-throttle";
+
+// Shared brochures, readable by anyone holding the link. Registered ahead of
+// requireAuth, so nothing here may expose more than the published pages.
+
+const PAGE_WIDTH = 1080;
+
+// The only sizes rendered for visitors: the embed, the viewer and the full
+// page. Anything else would let a link holder fill the render cache.
+const PUBLIC_PAGE_WIDTHS = [480, 720, PAGE_WIDTH];
+
+// Rendered pages, keyed by the campaign's last change. Product and template
+// edits do not touch the campaign, so entries also expire after a while.
+const RENDER_CACHE_TTL = 5 * 60 * 1000;
+const RENDER_CACHE_SIZE = 100;
+const renderedPages = new Map<string, { expires: number; image: Promise<Buffer | undefined> }>();
+
+// Concurrent requests for the same page share one render
+function renderCachedPage(
+  campaign: Campaign,
+  options: { pageNumber: number; imageType: PageImageType; width: number },
+  render: () => Promise<Buffer | undefined>
+) {
+  const version = campaign.updatedAt ? new Date(campaign.updatedAt).getTime() : 0;
+  const { pageNumber, imageType, width } = options;
+  const key = [campaign.id, version, pageNumber, imageType, width].join(":");
+  const now = Date.now();
+  const cached = renderedPages.get(key);
+  if (cached && cached.expires > now) return cached.image;
+
+  const entry = { expires: now + RENDER_CACHE_TTL, image: render() };
+  renderedPages.delete(key);
+  renderedPages.set(key, entry);
+  entry.image.catch(() => {
+    if (renderedPages.get(key) === entry) renderedPages.delete(key);
+  });
+  // Maps keep insertion order, so the first key is the oldest render
+  while (renderedPages.size > RENDER_CACHE_SIZE) {
+    renderedPages.delete(renderedPages.keys().next().value!);
+  }
+  return entry.image;
+}
+
+// Default size of the embedded carousel; the page nav sits below the page
+const EMBED_WIDTH = 480;
+const EMBED_CONTROLS_HEIGHT = 56;
+
+const oembedQuerySchema = z.object({
+  url: z.string().url(),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional(),
+  format: z.string().optional(),
+});
+
+// The end date is inclusive: a campaign ending today is live until midnight
+// in Europe/Istanbul, when the scheduler completes it
+export function isCampaignExpired(campaign: Campaign, now = new Date()): boolean {
+  if (!campaign.endDate) return false;
+  return toBusinessDay(now) > toBusinessDay(new Date(campaign.endDate));
+}
+
+// Links show published campaigns only. Ended ones are told apart below; a
+// campaign set back to draft, or completed by hand before its end date, is
+// hidden as if the link were unknown.
+const isPublished = (campaign: Campaign) =>
+  isCampaignExpired(campaign) || shareableCampaignStatuses.includes(campaign.status);
+
+// Puts the shared campaign in res.locals.campaign; unknown and unpublished
+// links are 404, ended campaigns 410 with enough to tell the visitor when it ended
+async function loadSharedCampaign(req: Request, res: Response, next: NextFunction) {
+  try {
+    const campaign = await storage.getCampaignByShareSlug(req.params.slug);
+    if (!campaign || !isPublished(campaign)) {
+      return res.status(404).json({ message: "Brochure not found" });
+    }
+    if (isCampaignExpired(campaign)) {
+      return res.status(410).json({
+        message: "This campaign has ended",
+        name: campaign.name,
+        endDate: campaign.endDate,
+      });
+    }
+
+    res.locals.campaign = campaign;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: "Failed to load brochure" });
+  }
+}
+
+// Ahead of loadSharedCampaign, so a flood never reaches storage
+function throttleEvents(req: Request, res: Response, next: NextFunction) {
+  const throttle = checkEventThrottle(req.ip || "unknown", req.params.slug);
+  if (!throttle.allowed) {
+    res.set("Retry-After", String(throttle.retryAfterSeconds));
+    return res.status(429).json({ message: "Too many events" });
+  }
+  next();
+}
+
+const percent = (value: number, total: number) => Number(((value / total) * 100).toFixed(3));
+
+// Lets the organization's allowed sites read the brochure from their own pages
+function allowEmbedOrigin(req: Request, res: Response, organization?: Organization) {
+  res.vary("Origin");
+  const origin = req.get("Origin");
+  if (origin && organization?.embedOrigins.includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+  }
+}
+
+function frameAncestors(organization?: Organization) {
+  return ["'self'", ...(organization?.embedOrigins ?? [])].join(" ");
+}
+
+const baseUrl = (req: Request) => `${req.protocol}://${req.get("host")}`;
+
+const oembedUrl = (req: Request, slug: string) =>
+  `${baseUrl(req)}/api/public/oembed?url=${encodeURIComponent(`${baseUrl(req)}/b/${slug}`)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"]/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!
+  );
+
+export function registerPublicRoutes(app: Express) {
+  app.get("/api/public/brochures/:slug", loadSharedCampaign, async (req, res) => {
+    try {
+      const campaign = res.locals.campaign!;
+      const [placed, templates] = await Promise.all([
+        getPlacedProducts(campaign.id),
+        storage.getTemplates(campaign.organizationId),
+      ]);
+      const brochure = prepareBrochure(campaign, placed, templates);
+      const { geometry } = brochure;
+
+      const pages = Array.from({ length: brochure.pageCount }, (_, i) => i + 1).map(
+        (pageNumber) => ({
+          pageNumber,
+          imageUrl: `/api/public/brochures/${req.params.slug}/pages/${pageNumber}.webp`,
+          hotspots: brochure.placed
+            .filter((p) => p.pageNumber === pageNumber)
+            .map(({ id, cell }) => {
+              const item = placed.find((i) => i.id === id)!;
+              return {
+                campaignProductId: id,
+                left: percent(cell.x, geometry.width),
+                top: percent(cell.y, geometry.height),
+                width: percent(cell.width, geometry.width),
+                height: percent(cell.height, geometry.height),
+                name: item.product.name,
+                description: item.product.description,
+                imageUrl: item.product.imageUrl,
+                originalPrice: item.product.originalPrice,
+                newPrice: item.newPrice,
+                discountPercent: item.discountPercent,
+              };
+            }),
+        })
+      );
+
+      const body: PublicBrochure = {
+        name: campaign.name,
+        companyName: campaign.companyName,
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        validUntil: campaign.validUntil,
+        aspectRatio: geometry.width / geometry.height,
+        pages,
+      };
+      allowEmbedOrigin(req, res, await storage.getOrganization(campaign.organizationId));
+      res.setHeader("Cache-Control", "no-cache");
+      res.json(body);
+    } catch (error) {
+      console.error("Public brochure error:", error);
+      res.status(500).json({ message: "Failed to load brochure" });
+    }
+  });
+
+  // Views, product clicks and link opens reported by the viewer and the embed.
+  // A visit reports each page view and the link open once; repeats are
+  // accepted and dropped.
+  app.post(
+    "/api/public/brochures/:slug/events",
+    throttleEvents,
+    loadSharedCampaign,
+    async (req, res) => {
+      const parsed = viewerEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid event" });
+      }
+
+      try {
+        const event = parsed.data;
+        if (event.type !== "product_click") {
+          const visit = event.sessionId || req.ip || "unknown";
+          const view = event.type === "page_view" ? `page:${event.pageNumber ?? ""}` : event.type;
+          if (isRepeatView(res.locals.campaign!.id, visit, view)) {
+            return res.status(204).end();
+          }
+        }
+        if (!(await recordViewerEvent(res.locals.campaign!, event))) {
+          return res.status(400).json({ message: "Unknown product" });
+        }
+        res.status(204).end();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to record event" });
+      }
+    }
+  );
+
+  const imageExtensions: Record<string, PageImageType> = {
+    png: "png",
+    jpg: "jpeg",
+    jpeg: "jpeg",
+    webp: "webp",
+  };
+  app.get("/api/public/brochures/:slug/pages/:page.:ext", loadSharedCampaign, async (req, res) => {
+    try {
+      const campaign = res.locals.campaign!;
+      const pageNumber = Number(req.params.page);
+      const imageType = imageExtensions[req.params.ext.toLowerCase()];
+      if (!Number.isInteger(pageNumber) || !imageType) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      // Only the editor canvas is shared, so ?format= is not honoured here
+      const query = pageImageQuerySchema.pick({ width: true }).safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid image options" });
+      }
+
+      const width = query.data.width ?? PAGE_WIDTH;
+      if (!PUBLIC_PAGE_WIDTHS.includes(width)) {
+        return res
+          .status(400)
+          .json({ message: `Width must be one of ${PUBLIC_PAGE_WIDTHS.join(", ")}` });
+      }
+
+      const options = { pageNumber, imageType, width };
+      const image = await renderCachedPage(campaign, options, async () => {
+        const [placed, templates] = await Promise.all([
+          getPlacedProducts(campaign.id),
+          storage.getTemplates(campaign.organizationId),
+        ]);
+        return renderCampaignPageImage(campaign, placed, templates, options);
+      });
+      if (!image) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      // Short-lived, so design changes reach visitors within minutes
+      res.setHeader("Cache-Control", "public, max-age=300");
+      res.setHeader("Content-Type", `image/${imageType}`);
+      res.send(image);
+    } catch (error) {
+      console.error("Public page image error:", error);
+      res.status(500).json({ message: "Failed to render page image" });
+    }
+  });
+
+  // Website widget: the loader script, and the page it frames. The page is
+  // the client's /embed/:slug route; only the organization's allowed origins
+  // may frame it.
+  app.get("/embed.js", (_req, res) => {
+    res.setHeader("Content-Type", "text/javascript; charset=utf-8");
+    res.setHeader("Cache-Control", "public, max-age=3600");
+    res.send(EMBED_SCRIPT);
+  });
+
+  app.get("/embed/:slug", async (req, res, next) => {
+    try {
+      const campaign = await storage.getCampaignByShareSlug(req.params.slug);
+      const organization =
+        campaign && isPublished(campaign)
+          ? await storage.getOrganization(campaign.organizationId)
+          : undefined;
+      res.setHeader("Content-Security-Policy", `frame-ancestors ${frameAncestors(organization)}`);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // oEmbed discovery for link previews in CMSes
+  app.get("/b/:slug", (req, res, next) => {
+    res.setHeader(
+      "Link",
+      `<${oembedUrl(req, req.params.slug)}>; rel="alternate"; type="application/json+oembed"`
+    );
+    next();
+  });
+
+  app.get("/api/public/oembed", async (req, res) => {
+    try {
+      const query = oembedQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "A brochure url is required" });
+      }
+      if (query.data.format && query.data.format !== "json") {
+        return res.status(501).json({ message: "Only JSON is supported" });
+      }
+
+      const url = new URL(query.data.url);
+      const slug = url.pathname.match(/^\/(?:b|embed)\/([^/]+)\/?$/)?.[1];
+      const campaign =
+        slug && url.hostname === req.hostname
+          ? await storage.getCampaignByShareSlug(decodeURIComponent(slug))
+          : undefined;
+      if (!campaign || !isPublished(campaign)) {
+        return res.status(404).json({ message: "Brochure not found" });
+      }
+      if (isCampaignExpired(campaign)) {
+        return res.status(410).json({ message: "This campaign has ended" });
+      }
+
+      const geometry = getPageGeometry(parseBrochureLayout(campaign.layout));
+      let width = Math.min(EMBED_WIDTH, query.data.maxwidth ?? EMBED_WIDTH);
+      let height = Math.round((width * geometry.height) / geometry.width) + EMBED_CONTROLS_HEIGHT;
+      if (query.data.maxheight && height > query.data.maxheight) {
+        height = query.data.maxheight;
+        width = Math.round(
+          ((height - EMBED_CONTROLS_HEIGHT) * geometry.width) / geometry.height
+        );
+      }
+
+      // Thumbnails come in the public page sizes only
+      const thumbnailWidth = PUBLIC_PAGE_WIDTHS.find((size) => size >= width) ?? PAGE_WIDTH;
+      const base = baseUrl(req);
+      const organization = await storage.getOrganization(campaign.organizationId);
+      allowEmbedOrigin(req, res, organization);
+      res.json({
+        version: "1.0",
+        type: "rich",
+        title: campaign.name,
+        provider_name: organization?.name,
+        provider_url: base,
+        html:
+          `<iframe src="${base}/embed/${campaign.shareSlug}" width="${width}" ` +
+          `height="${height}" title="${escapeHtml(campaign.name)}" ` +
+          `style="border:0" loading="lazy"></iframe>`,
+        width,
+        height,
+        thumbnail_url:
+          `${base}/api/public/brochures/${campaign.shareSlug}/pages/1.jpg` +
+          `?width=${thumbnailWidth}`,
+        thumbnail_width: thumbnailWidth,
+        thumbnail_height: Math.round((thumbnailWidth * geometry.height) / geometry.width),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build embed" });
+    }
+  });
+}
@@ -0,0 +1,397 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { hashPassword } from "./passwords";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Route-level checks against the seeded in-memory storage: organization 1 with
+// the "test" admin and products 1-4, plus a second organization created here.
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function login(username: string, password: string) {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  expect(response.status).toBe(200);
+  return response.headers.get("set-cookie")!.split(";")[0];
+}
+
+function request(cookie: string, method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { Cookie: cookie, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function createUser(
+  organizationId: number,
+  username: string,
+  role: "admin" | "designer" | "branch_manager" | "viewer",
+  branchId: number | null = null
+) {
+  await storage.createUser({
+    username,
+    password: await hashPassword("secret"),
+    name: username,
+    organizationId,
+    role,
+    branchId,
+  });
+  return login(username, "secret");
+}
+
+async function createOrganizationWithAdmin(name: string) {
+  const organization = await storage.createOrganization({ name });
+  const username = `${name.toLowerCase().replace(/\W+/g, "-")}-admin`;
+  const cookie = await createUser(organization.id, username, "admin");
+  const product = await storage.createProduct({
+    organizationId: organization.id,
+    name: "Foreign Product",
+    category: "Other",
+    originalPrice: 10,
+  });
+  return { organization, product, cookie };
+}
+
+describe("POST /api/campaigns/design", () => {
+  it("creates the campaign with its products, or nothing", async () => {
+    const cookie = await login("test", "test");
+    const other = await createOrganizationWithAdmin("Create Rival");
+    const campaignCount = async () => (await storage.getCampaigns(1)).length;
+    const before = await campaignCount();
+
+    const foreign = await request(cookie, "POST", "/api/campaigns/design", {
+      campaign: { name: "Foreign" },
+      products: [{ productId: other.product.id, newPrice: 5 }],
+    });
+    expect(foreign.status).toBe(400);
+    const unnamed = await request(cookie, "POST", "/api/campaigns/design", {
+      campaign: {},
+      products: [{ productId: 1, newPrice: 5 }],
+    });
+    expect(unnamed.status).toBe(400);
+    expect(await campaignCount()).toBe(before);
+
+    const created = await request(cookie, "POST", "/api/campaigns/design", {
+      campaign: { name: "Created" },
+      products: [
+        { productId: 1, newPrice: 5 },
+        { productId: 2, newPrice: 6, pageNumber: 2 },
+      ],
+    });
+    expect(created.status).toBe(201);
+    const body = await created.json();
+    expect(body.campaign).toMatchObject({ name: "Created", organizationId: 1, status: "draft" });
+    expect(body.priceConflicts).toEqual([]);
+    expect(await storage.getCampaignProducts(body.campaign.id)).toHaveLength(2);
+    expect(await campaignCount()).toBe(before + 1);
+  });
+});
+
+describe("PUT /api/campaigns/:id/design", () => {
+  it("rejects products of another organization", async () => {
+    const cookie = await login("test", "test");
+    const other = await createOrganizationWithAdmin("Design Rival");
+
+    const foreign = await request(cookie, "PUT", "/api/campaigns/1/design", {
+      campaign: {},
+      products: [{ productId: other.product.id, newPrice: 5 }],
+    });
+    expect(foreign.status).toBe(400);
+    expect(await storage.getCampaignProducts(1)).not.toContainEqual(
+      expect.objectContaining({ productId: other.product.id })
+    );
+
+    const own = await request(cookie, "PUT", "/api/campaigns/1/design", {
+      campaign: {},
+      products: [{ productId: 1, newPrice: 5 }],
+    });
+    expect(own.status).toBe(200);
+  });
+
+  it("rejects more products on a page than its grid holds", async () => {
+    const cookie = await login("test", "test");
+    const products = Array.from({ length: 10 }, (_, index) => ({
+      productId: (index % 4) + 1,
+      newPrice: 5,
+      pageNumber: index < 9 ? 1 : 2,
+    }));
+
+    const split = await request(cookie, "PUT", "/api/campaigns/2/design", {
+      campaign: {},
+      products,
+    });
+    expect(split.status).toBe(200);
+
+    const crowded = await request(cookie, "PUT", "/api/campaigns/2/design", {
+      campaign: {},
+      products: products.map((item) => ({ ...item, pageNumber: 1 })),
+    });
+    expect(crowded.status).toBe(400);
+    expect(await crowded.json()).toEqual({ message: "A page holds at most 9 products" });
+
+    // Single placements follow the same cap
+    const add = await request(cookie, "POST", "/api/campaigns/2/products", {
+      productId: 1,
+      newPrice: 5,
+      pageNumber: 1,
+    });
+    expect(add.status).toBe(400);
+    const onSecondPage = (await storage.getCampaignProducts(2)).find((cp) => cp.pageNumber === 2)!;
+    const move = await request(cookie, "PUT", `/api/campaign-products/${onSecondPage.id}`, {
+      pageNumber: 1,
+    });
+    expect(move.status).toBe(400);
+  });
+});
+
+describe("DELETE /api/products/:id", () => {
+  it("keeps products that are still placed in a campaign", async () => {
+    const { organization, product, cookie } = await createOrganizationWithAdmin("Placed");
+    const campaign = await storage.createCampaign({
+      name: "Placing",
+      userId: 1,
+      organizationId: organization.id,
+    });
+    await storage.addProductToCampaign({
+      campaignId: campaign.id,
+      productId: product.id,
+      newPrice: 8,
+    });
+
+    const placed = await request(cookie, "DELETE", `/api/products/${product.id}`);
+    expect(placed.status).toBe(409);
+    expect(await storage.getProduct(product.id)).toBeDefined();
+
+    await storage.deleteCampaign(campaign.id);
+    expect((await request(cookie, "DELETE", `/api/products/${product.id}`)).status).toBe(200);
+    expect(await storage.getProduct(product.id)).toBeUndefined();
+  });
+});
+
+describe("POST /api/campaigns/:id/share", () => {
+  it("publishes scheduled and active campaigns only", async () => {
+    const cookie = await login("test", "test");
+    const create = (status: "draft" | "scheduled" | "active" | "completed") =>
+      storage.createCampaign({ name: `Share ${status}`, status, userId: 1, organizationId: 1 });
+
+    for (const status of ["draft", "completed"] as const) {
+      const campaign = await create(status);
+      const response = await request(cookie, "POST", `/api/campaigns/${campaign.id}/share`);
+      expect(response.status).toBe(400);
+      expect((await storage.getCampaign(campaign.id))?.shareSlug).toBeNull();
+    }
+    for (const status of ["scheduled", "active"] as const) {
+      const campaign = await create(status);
+      const response = await request(cookie, "POST", `/api/campaigns/${campaign.id}/share`);
+      expect(response.status).toBe(200);
+      expect((await response.json()).shareSlug).toEqual(expect.any(String));
+    }
+  });
+});
+
+describe("POST /api/analytics/downloads", () => {
+  it("counts browser downloads of unsaved drafts with the organization", async () => {
+    const { cookie } = await createOrganizationWithAdmin("Draft Downloads");
+    expect((await request(cookie, "POST", "/api/analytics/downloads", {})).status).toBe(400);
+    const path = "/api/analytics/downloads";
+    expect((await request(cookie, "POST", path, { fileType: "png" })).status).toBe(204);
+    expect((await request(cookie, "POST", path, { fileType: "jpeg" })).status).toBe(204);
+
+    const report = await (await request(cookie, "GET", "/api/analytics/campaign")).json();
+    expect(report.totals.downloads).toBe(2);
+    expect(report.rows).toEqual([
+      expect.objectContaining({ key: "unsaved", label: "Unsaved drafts", downloads: 2 }),
+    ]);
+    const statistics = await (await request(cookie, "GET", "/api/statistics")).json();
+    expect(statistics.totalDownloads).toBe(2);
+  });
+});
+
+describe("access to another user's or organization's records", () => {
+  // Organization 1 records, reached by a rival organization's admin and by
+  // organization 1 members whose role does not allow the action
+  let admin: string;
+  let viewer: string;
+  let branchManager: string;
+  let rival: Awaited<ReturnType<typeof createOrganizationWithAdmin>>;
+  let campaignProductId: number;
+  let templateId: number;
+  let logoId: number;
+
+  beforeAll(async () => {
+    admin = await login("test", "test");
+    viewer = await createUser(1, "access-viewer", "viewer");
+    const branch = await storage.createBranch({ organizationId: 1, name: "Access Branch" });
+    branchManager = await createUser(1, "access-manager", "branch_manager", branch.id);
+    rival = await createOrganizationWithAdmin("Access Rival");
+
+    const placed = await storage.addProductToCampaign({
+      campaignId: 1,
+      productId: 1,
+      newPrice: 9,
+    });
+    campaignProductId = placed.id;
+    // Never written to disk, so a successful delete would only log a warning
+    const template = await storage.createTemplate({
+      name: "Access Template",
+      filePath: "access-test-template.png",
+      userId: 1,
+      organizationId: 1,
+    });
+    templateId = template.id;
+    const logo = await storage.createLogo({
+      name: "Access Logo",
+      filePath: "access-test-logo.png",
+      userId: 1,
+      organizationId: 1,
+    });
+    logoId = logo.id;
+  });
+
+  describe("campaigns", () => {
+    it("answers 404 for missing campaigns", async () => {
+      expect((await request(admin, "GET", "/api/campaigns/999999")).status).toBe(404);
+      const update = await request(admin, "PUT", "/api/campaigns/999999", { name: "x" });
+      expect(update.status).toBe(404);
+    });
+
+    it("answers 403 to other organizations", async () => {
+      expect((await request(rival.cookie, "GET", "/api/campaigns/1")).status).toBe(403);
+      const update = await request(rival.cookie, "PUT", "/api/campaigns/1", { name: "x" });
+      expect(update.status).toBe(403);
+      expect((await request(rival.cookie, "DELETE", "/api/campaigns/1")).status).toBe(403);
+      const list = await (await request(rival.cookie, "GET", "/api/campaigns")).json();
+      expect(list.map((campaign: { id: number }) => campaign.id)).not.toContain(1);
+    });
+
+    it("answers 403 to members who may only read", async () => {
+      expect((await request(viewer, "GET", "/api/campaigns/1")).status).toBe(200);
+      expect((await request(viewer, "PUT", "/api/campaigns/1", { name: "x" })).status).toBe(403);
+      // Chain-wide campaigns are read-only for branch managers
+      expect((await request(branchManager, "DELETE", "/api/campaigns/1")).status).toBe(403);
+    });
+  });
+
+  describe("campaign products", () => {
+    it("answers 404 for missing campaigns and placements", async () => {
+      expect((await request(admin, "GET", "/api/campaigns/999999/products")).status).toBe(404);
+      const path = "/api/campaign-products/999999";
+      expect((await request(admin, "PUT", path, { newPrice: 1 })).status).toBe(404);
+      expect((await request(admin, "DELETE", path)).status).toBe(404);
+    });
+
+    it("answers 403 to other organizations", async () => {
+      expect((await request(rival.cookie, "GET", "/api/campaigns/1/products")).status).toBe(403);
+      const add = await request(rival.cookie, "POST", "/api/campaigns/1/products", {
+        productId: rival.product.id,
+        newPrice: 1,
+      });
+      expect(add.status).toBe(403);
+      const path = `/api/campaign-products/${campaignProductId}`;
+      expect((await request(rival.cookie, "PUT", path, { newPrice: 1 })).status).toBe(403);
+      expect((await request(rival.cookie, "DELETE", path)).status).toBe(403);
+    });
+
+    it("answers 403 to members who may only read", async () => {
+      const path = `/api/campaign-products/${campaignProductId}`;
+      expect((await request(viewer, "PUT", path, { newPrice: 1 })).status).toBe(403);
+      expect((await request(branchManager, "DELETE", path)).status).toBe(403);
+    });
+
+    it("reports price conflicts with overlapping campaigns", async () => {
+      const dates = {
+        userId: 1,
+        organizationId: 1,
+        startDate: new Date("2030-03-01T09:00:00Z"),
+        endDate: new Date("2030-03-07T09:00:00Z"),
+      };
+      const running = await storage.createCampaign({ ...dates, name: "Running", status: "active" });
+      const next = await storage.createCampaign({ ...dates, name: "Next", status: "scheduled" });
+      await storage.addProductToCampaign({ campaignId: running.id, productId: 2, newPrice: 50 });
+
+      const add = await request(admin, "POST", `/api/campaigns/${next.id}/products`, {
+        productId: 2,
+        newPrice: 55,
+      });
+      expect(add.status).toBe(201);
+      const added = await add.json();
+      expect(added.priceConflicts).toEqual([
+        expect.objectContaining({ price: 55, conflictingPrice: 50 }),
+      ]);
+
+      const path = `/api/campaign-products/${added.id}`;
+      const matched = await request(admin, "PUT", path, { newPrice: 50 });
+      expect((await matched.json()).priceConflicts).toEqual([]);
+      const changed = await request(admin, "PUT", path, { newPrice: 45 });
+      expect((await changed.json()).priceConflicts).toEqual([
+        expect.objectContaining({
+          price: 45,
+          conflictingPrice: 50,
+          conflictingCampaign: expect.objectContaining({ id: running.id }),
+        }),
+      ]);
+    });
+
+    it("validates updates and keeps products within the organization", async () => {
+      const path = `/api/campaign-products/${campaignProductId}`;
+      expect((await request(admin, "PUT", path, { newPrice: "cheap" })).status).toBe(400);
+      const foreign = await request(admin, "PUT", path, { productId: rival.product.id });
+      expect(foreign.status).toBe(400);
+      expect((await storage.getCampaignProduct(campaignProductId))?.productId).toBe(1);
+
+      const moved = await request(admin, "PUT", path, { newPrice: 7.5, campaignId: 2 });
+      expect(moved.status).toBe(200);
+      expect(await moved.json()).toMatchObject({ campaignId: 1, newPrice: 7.5 });
+    });
+  });
+
+  describe("templates", () => {
+    it("answers 404 for missing templates", async () => {
+      expect((await request(admin, "DELETE", "/api/templates/999999")).status).toBe(404);
+    });
+
+    it("answers 403 to other organizations and to members who may only read", async () => {
+      const path = `/api/templates/${templateId}`;
+      expect((await request(rival.cookie, "DELETE", path)).status).toBe(403);
+      expect((await request(viewer, "DELETE", path)).status).toBe(403);
+      expect(await storage.getTemplate(templateId)).toBeDefined();
+      const list = await (await request(rival.cookie, "GET", "/api/templates")).json();
+      expect(list.map((template: { id: number }) => template.id)).not.toContain(templateId);
+    });
+  });
+
+  describe("logos", () => {
+    it("answers 404 for missing logos", async () => {
+      expect((await request(admin, "PUT", "/api/logos/999999/activate")).status).toBe(404);
+    });
+
+    it("answers 403 to other organizations and to members who may only read", async () => {
+      const path = `/api/logos/${logoId}/activate`;
+      expect((await request(rival.cookie, "PUT", path)).status).toBe(403);
+      expect((await request(viewer, "PUT", path)).status).toBe(403);
+      expect((await storage.getLogo(logoId))?.isActive).toBe(false);
+      const list = await (await request(rival.cookie, "GET", "/api/logos")).json();
+      expect(list.map((logo: { id: number }) => logo.id)).not.toContain(logoId);
+    });
+  });
+});
@@ -1,17 +1,75 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupSession, requireAuth, toSafeUser } from "./auth";
+import {
+  CONTENT_ROLES,
+  canAccessCampaign,
+  hasRole,
+  loadBranch,
+  loadCampaign,
+  loadCampaignProduct,
+  loadExportJob,
+  loadLogo,
+  loadProduct,
+  loadTemplate,
+  loadUser,
+  requireRole,
+} from "./authorization";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { checkLoginThrottle, throttleMessage } from "./login-throttle";
+import { recordAudit, recordCampaignProductChanges } from "./audit";
+import { renderCampaignPdf } from "./pdf";
+import { renderCampaignPageImage, type PageImageType } from "./page-image";
+import { renderCampaignPageSvg } from "./page-svg";
+import { getPlacedProducts } from "./brochure-render";
+import { enqueueExport, isFinished, removeExport, subscribeToExport } from "./export-queue";
+import { registerPublicRoutes } from "./public-routes";
+import {
+  buildAnalyticsReport,
+  countDownloads,
+  isRangeTooLong,
+  recordDownload,
+  recordDraftDownload,
+  resolveRange,
+} from "./analytics";
+import { notifyStatusChange } from "./campaign-scheduler";
+import { findPriceConflicts } from "./price-conflicts";
+import { buildProductReport, productReportToCsv, productReportToXlsx } from "./product-report";
 import {
   loginSchema,
   insertCampaignSchema,
   insertCampaignProductSchema,
+  insertBranchSchema,
+  createUserSchema,
+  updateUserSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  campaignDesignSchema,
+  auditQuerySchema,
+  pageImageQuerySchema,
+  createExportSchema,
+  slideshowFileTypes,
+  slideshowOptionsSchema,
+  updateEmbedOriginsSchema,
+  analyticsDimensions,
+  analyticsQuerySchema,
+  productReportQuerySchema,
+  campaignStatusOn,
+  shareableCampaignStatuses,
+  priceConflictCheckSchema,
+  draftDownloadSchema,
+  type ExportJob,
 } from "@shared/schema";
+import { outputFormats } from "@shared/layout";
+import { MAX_ITEMS_PER_PAGE } from "@shared/layout-engine";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { unlink } from "fs/promises";
+import { randomBytes } from "crypto";
 
 // Configure multer for file uploads - use persistent directory
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -25,42 +83,6 @@ if (!fs.existsSync(publicAssetsDir)) {
   fs.mkdirSync(publicAssetsDir, { recursive: true });
 }
 
-// JSON files for persistent metadata
-const productsJsonPath = path.join(publicAssetsDir, "products.json");
-const logosJsonPath = path.join(publicAssetsDir, "logos.json");
-const templatesJsonPath = path.join(publicAssetsDir, "templates.json");
-
-async function ensureJson(filePath: string) {
-  try {
-    await fs.promises.access(filePath, fs.constants.F_OK);
-  } catch {
-    await fs.promises.writeFile(filePath, JSON.stringify([], null, 2), "utf-8");
-  }
-}
-
-async function readJsonArray<T = any>(filePath: string): Promise<T[]> {
-  await ensureJson(filePath);
-  const data = await fs.promises.readFile(filePath, "utf-8");
-  try {
-    const parsed = JSON.parse(data);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-async function writeJsonArray(filePath: string, arr: any[]): Promise<void> {
-  await fs.promises.writeFile(filePath, JSON.stringify(arr, null, 2), "utf-8");
-}
-
-function nextId(items: { id?: number }[]): number {
-  const maxId = items.reduce(
-    (m, it) => (typeof it.id === "number" && it.id! > m ? it.id! : m),
-    0
-  );
-  return maxId + 1;
-}
-
 const upload = multer({
   dest: uploadDir,
   limits: {
@@ -97,128 +119,767 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Serve public assets statically
   app.use("/public/assets", express.static(publicAssetsDir));
 
+  setupSession(app);
+
   // Authentication
   app.post("/api/auth/login", async (req, res) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid request data" });
+    }
+
     try {
-      const { username, password } = loginSchema.parse(req.body);
+      const { username, password } = parsed.data;
+      const ipAddress = req.ip || "unknown";
+
+      const throttle = await checkLoginThrottle(username, ipAddress);
+      if (!throttle.allowed) {
+        await storage.recordLoginAttempt({ username, ipAddress, outcome: "blocked" });
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          message: throttleMessage(throttle),
+          reason: throttle.reason,
+          retryAfter: throttle.retryAfterSeconds,
+        });
+      }
+
       const user = await storage.getUserByUsername(username);
 
-      if (!user || user.password !== password) {
+      if (!user || !(await verifyPassword(password, user.password))) {
+        await storage.recordLoginAttempt({
+          username,
+          ipAddress,
+          outcome: "failure",
+          userId: user?.id ?? null,
+        });
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      res.json({
-        user: { id: user.id, username: user.username, name: user.name },
+      await storage.recordLoginAttempt({ username, ipAddress, outcome: "success", userId: user.id });
+
+      // Upgrade rows that still hold a plaintext password
+      if (!isPasswordHash(user.password)) {
+        await storage.updateUser(user.id, { password: await hashPassword(password) });
+      }
+
+      // New session id on login to prevent session fixation
+      req.session.regenerate((err) => {
+        if (err) {
+          return res.status(500).json({ message: "Failed to start session" });
+        }
+        req.session.userId = user.id;
+        req.session.save((saveErr) => {
+          if (saveErr) {
+            return res.status(500).json({ message: "Failed to start session" });
+          }
+          res.json({ user: toSafeUser(user) });
+        });
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Failed to log out" });
+      }
+      res.clearCookie("connect.sid");
+      res.json({ message: "Logged out" });
+    });
+  });
+
+  // Shared brochures at /b/:slug
+  registerPublicRoutes(app);
+
+  // Everything below requires a signed-in user
+  app.use("/api", requireAuth);
+
+  app.get("/api/auth/me", (req, res) => {
+    res.json({ user: req.user });
+  });
+
+  // Self-service profile
+  app.patch("/api/auth/me", async (req, res) => {
+    const parsed = updateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid profile data" });
+    }
+
+    try {
+      const user = await storage.updateUser(req.user!.id, parsed.data);
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user!.id,
+        action: "update",
+        before: req.user,
+        after: toSafeUser(user!),
+      });
+      res.json({ user: toSafeUser(user!) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.post("/api/auth/password", async (req, res) => {
+    const parsed = changePasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await verifyPassword(parsed.data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        password: await hashPassword(parsed.data.newPassword),
+      });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "update",
+        before: user,
+        after: updated,
+      });
+      res.json({ message: "Password changed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // A campaign's branch must belong to the caller's organization; null means
+  // a chain-wide campaign.
+  async function isValidBranch(user: Express.User, branchId: number | null | undefined) {
+    if (branchId === undefined || branchId === null) return true;
+    const branch = await storage.getBranch(branchId);
+    return !!branch && branch.organizationId === user.organizationId;
+  }
+
+  // Products placed in a campaign must come from the caller's organization
+  async function areOwnProducts(user: Express.User, productIds: number[]) {
+    const products = await Promise.all(
+      Array.from(new Set(productIds)).map((id) => storage.getProduct(id))
+    );
+    return products.every((product) => product?.organizationId === user.organizationId);
+  }
+
+  // A page's grid has room for one more product; `movingId` is the placement
+  // being moved there, if it is already in the campaign
+  async function hasRoomOnPage(campaignId: number, pageNumber: number, movingId?: number) {
+    const placements = await storage.getCampaignProducts(campaignId);
+    const onPage = placements.filter(
+      (placement) => placement.id !== movingId && (placement.pageNumber ?? 1) === pageNumber
+    );
+    return onPage.length < MAX_ITEMS_PER_PAGE;
+  }
+
+  // An organization must always keep at least one admin
+  async function isLastAdmin(user: { id: number; organizationId: number; role: string }) {
+    if (user.role !== "admin") return false;
+    const members = await storage.getUsers(user.organizationId);
+    return !members.some((m) => m.role === "admin" && m.id !== user.id);
+  }
+
+  // Users (admin only)
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers(req.user!.organizationId);
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/users/:id", loadUser(), async (req, res) => {
+    res.json(toSafeUser(res.locals.managedUser!));
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    const parsed = createUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { password, branchId, ...data } = parsed.data;
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      if (!(await isValidBranch(req.user!, branchId))) {
+        return res.status(400).json({ message: "Unknown branch" });
+      }
+
+      const user = await storage.createUser({
+        ...data,
+        branchId: branchId ?? null,
+        organizationId: req.user!.organizationId,
+        password: await hashPassword(password),
+      });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: user.id,
+        action: "create",
+        after: user,
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", loadUser(), async (req, res) => {
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const target = res.locals.managedUser!;
+      const { password, ...updates } = parsed.data;
+      if (updates.username && updates.username !== target.username) {
+        if (await storage.getUserByUsername(updates.username)) {
+          return res.status(409).json({ message: "Username is already taken" });
+        }
+      }
+      if (!(await isValidBranch(req.user!, updates.branchId))) {
+        return res.status(400).json({ message: "Unknown branch" });
+      }
+      if (updates.role && updates.role !== "admin" && (await isLastAdmin(target))) {
+        return res
+          .status(400)
+          .json({ message: "The organization needs at least one admin" });
+      }
+
+      const user = await storage.updateUser(target.id, {
+        ...updates,
+        ...(password ? { password: await hashPassword(password) } : {}),
+      });
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: target.id,
+        action: "update",
+        before: target,
+        after: user,
+      });
+      res.json(toSafeUser(user!));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", loadUser(), async (req, res) => {
+    try {
+      const target = res.locals.managedUser!;
+      if (target.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      if (await isLastAdmin(target)) {
+        return res
+          .status(400)
+          .json({ message: "The organization needs at least one admin" });
+      }
+
+      await storage.deleteUser(target.id);
+      await recordAudit(req, {
+        entityType: "user",
+        entityId: target.id,
+        action: "delete",
+        before: target,
       });
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Organization & branches
+  app.get("/api/organization", async (req, res) => {
+    try {
+      const organization = await storage.getOrganization(req.user!.organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json(organization);
     } catch (error) {
-      res.status(400).json({ message: "Invalid request data" });
+      res.status(500).json({ message: "Failed to fetch organization" });
     }
   });
 
+  // Websites allowed to embed the organization's shared brochures
+  app.put("/api/organization/embed-origins", requireRole("admin"), async (req, res) => {
+    const parsed = updateEmbedOriginsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const embedOrigins = Array.from(new Set(parsed.data.embedOrigins));
+      const organization = await storage.updateOrganization(req.user!.organizationId, {
+        embedOrigins,
+      });
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json(organization);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update allowed origins" });
+    }
+  });
+
+  app.get("/api/branches", async (req, res) => {
+    try {
+      const branches = await storage.getBranches(req.user!.organizationId);
+      res.json(branches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch branches" });
+    }
+  });
+
+  app.get("/api/branches/:id", loadBranch(), async (req, res) => {
+    res.json(res.locals.branch);
+  });
+
+  app.post("/api/branches", requireRole("admin"), async (req, res) => {
+    const parsed = insertBranchSchema.safeParse({
+      ...req.body,
+      organizationId: req.user!.organizationId,
+    });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid branch data" });
+    }
+
+    try {
+      const branch = await storage.createBranch(parsed.data);
+      await recordAudit(req, {
+        entityType: "branch",
+        entityId: branch.id,
+        action: "create",
+        after: branch,
+      });
+      res.status(201).json(branch);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create branch" });
+    }
+  });
+
+  app.patch("/api/branches/:id", loadBranch(), async (req, res) => {
+    const parsed = insertBranchSchema
+      .omit({ organizationId: true })
+      .partial()
+      .safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid branch data" });
+    }
+
+    try {
+      const before = res.locals.branch!;
+      const branch = await storage.updateBranch(before.id, parsed.data);
+      await recordAudit(req, {
+        entityType: "branch",
+        entityId: before.id,
+        action: "update",
+        before,
+        after: branch,
+      });
+      res.json(branch);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update branch" });
+    }
+  });
+
+  app.delete("/api/branches/:id", loadBranch(), async (req, res) => {
+    try {
+      const branch = res.locals.branch!;
+      const [users, campaigns] = await Promise.all([
+        storage.getUsers(branch.organizationId),
+        storage.getCampaigns(branch.organizationId),
+      ]);
+      if (
+        users.some((u) => u.branchId === branch.id) ||
+        campaigns.some((c) => c.branchId === branch.id)
+      ) {
+        return res
+          .status(409)
+          .json({ message: "Branch still has users or campaigns assigned" });
+      }
+
+      await storage.deleteBranch(branch.id);
+      await recordAudit(req, {
+        entityType: "branch",
+        entityId: branch.id,
+        action: "delete",
+        before: branch,
+      });
+      res.json({ message: "Branch deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete branch" });
+    }
+  });
+
+  // Campaigns of the user's organization that they may read
+  const readableCampaigns = async (user: Express.User) =>
+    (await storage.getCampaigns(user.organizationId)).filter((campaign) =>
+      canAccessCampaign(user, campaign, "read")
+    );
+
+  // Unsaved drafts belong to no branch, so only chain-wide roles see their
+  // downloads
+  const unsavedDraftsOf = (user: Express.User) =>
+    hasRole(user, "branch_manager") ? undefined : user.organizationId;
+
   // Campaigns
   app.get("/api/campaigns", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const user = req.user!;
 
-      const campaigns = await storage.getCampaigns(userId);
-      res.json(campaigns);
+      const campaigns = await storage.getCampaigns(user.organizationId);
+      res.json(campaigns.filter((campaign) => canAccessCampaign(user, campaign, "read")));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch campaigns" });
     }
   });
 
-  app.get("/api/campaigns/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const campaign = await storage.getCampaign(id);
+  app.get("/api/campaigns/:id", loadCampaign(), async (req, res) => {
+    res.json(res.locals.campaign);
+  });
 
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+  // Products the campaign advertises at another price than overlapping
+  // published campaigns do. The editor checks its unsaved state before
+  // publishing; saved campaigns are checked on every save.
+  app.post("/api/price-conflicts", async (req, res) => {
+    try {
+      const parsed = priceConflictCheckSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      res.json(campaign);
+      const { campaignId, startDate, endDate, products } = parsed.data;
+      const conflicts = await findPriceConflicts(
+        {
+          id: campaignId,
+          organizationId: req.user!.organizationId,
+          startDate: startDate ?? null,
+          endDate: endDate ?? null,
+        },
+        products,
+        await readableCampaigns(req.user!)
+      );
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Price conflict check error:", error);
+      res.status(500).json({ message: "Failed to check price conflicts" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/price-conflicts", loadCampaign(), async (req, res) => {
+    try {
+      const campaign = res.locals.campaign!;
+      const conflicts = await findPriceConflicts(
+        campaign,
+        await storage.getCampaignProducts(campaign.id),
+        await readableCampaigns(req.user!)
+      );
+      res.json(conflicts);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch campaign" });
+      console.error("Price conflict check error:", error);
+      res.status(500).json({ message: "Failed to check price conflicts" });
     }
   });
 
-  app.post("/api/campaigns", async (req, res) => {
+  app.post("/api/campaigns", requireRole("admin", "designer", "branch_manager"), async (req, res) => {
     try {
-      const campaignData = insertCampaignSchema.parse(req.body);
-      const campaign = await storage.createCampaign(campaignData);
+      const user = req.user!;
+      const campaignData = insertCampaignSchema.parse({
+        ...req.body,
+        userId: user.id,
+        organizationId: user.organizationId,
+        // Branch managers always publish for their own branch
+        branchId: hasRole(user, "branch_manager") ? user.branchId : req.body.branchId,
+      });
+      if (!(await isValidBranch(user, campaignData.branchId))) {
+        return res.status(400).json({ message: "Unknown branch" });
+      }
+
+      // Published campaigns start out scheduled, active or completed by their dates
+      const campaign = await storage.createCampaign({
+        ...campaignData,
+        status: campaignStatusOn({
+          status: campaignData.status ?? "draft",
+          startDate: campaignData.startDate ?? null,
+          endDate: campaignData.endDate ?? null,
+        }),
+      });
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: campaign.id,
+        action: "create",
+        after: campaign,
+        campaignId: campaign.id,
+      });
       res.status(201).json(campaign);
     } catch (error) {
       res.status(400).json({ message: "Invalid campaign data" });
     }
   });
 
-  app.put("/api/campaigns/:id", async (req, res) => {
+  // A new campaign with its placed products in one go, so a failed save
+  // leaves nothing behind
+  app.post(
+    "/api/campaigns/design",
+    requireRole("admin", "designer", "branch_manager"),
+    async (req, res) => {
+      try {
+        const user = req.user!;
+        const design = campaignDesignSchema.safeParse(req.body);
+        if (!design.success) {
+          return res.status(400).json({ message: design.error.errors[0].message });
+        }
+        const parsed = insertCampaignSchema.safeParse({
+          ...design.data.campaign,
+          userId: user.id,
+          organizationId: user.organizationId,
+          // Branch managers always publish for their own branch
+          branchId: hasRole(user, "branch_manager") ? user.branchId : design.data.campaign.branchId,
+        });
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid campaign data" });
+        }
+        const campaignData = parsed.data;
+        if (!(await isValidBranch(user, campaignData.branchId))) {
+          return res.status(400).json({ message: "Unknown branch" });
+        }
+        const items = design.data.products.map(({ id: _id, ...item }) => item);
+        if (!(await areOwnProducts(user, items.map((item) => item.productId)))) {
+          return res.status(400).json({ message: "Unknown product" });
+        }
+
+        const result = await storage.createCampaignDesign(
+          {
+            ...campaignData,
+            status: campaignStatusOn({
+              status: campaignData.status ?? "draft",
+              startDate: campaignData.startDate ?? null,
+              endDate: campaignData.endDate ?? null,
+            }),
+          },
+          items
+        );
+        const id = result.campaign.id;
+        await recordAudit(req, {
+          entityType: "campaign",
+          entityId: id,
+          action: "create",
+          after: result.campaign,
+          campaignId: id,
+        });
+        await recordCampaignProductChanges(req, id, [], result.products);
+        const priceConflicts = await findPriceConflicts(
+          result.campaign,
+          result.products,
+          await readableCampaigns(user)
+        );
+        res.status(201).json({ ...result, priceConflicts });
+      } catch (error) {
+        console.error("Campaign design create error:", error);
+        res.status(500).json({ message: "Failed to create campaign" });
+      }
+    }
+  );
+
+  app.put("/api/campaigns/:id", loadCampaign(), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
+      const id = res.locals.campaign!.id;
+      const parsed = insertCampaignSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid campaign data" });
+      }
+
+      const { userId: _userId, organizationId: _organizationId, ...updates } = parsed.data;
+      if (hasRole(req.user!, "branch_manager")) {
+        delete updates.branchId;
+      } else if (!(await isValidBranch(req.user!, updates.branchId))) {
+        return res.status(400).json({ message: "Unknown branch" });
+      }
 
+      updates.status = campaignStatusOn({ ...res.locals.campaign!, ...updates });
       const campaign = await storage.updateCampaign(id, updates);
       if (!campaign) {
         return res.status(404).json({ message: "Campaign not found" });
       }
-
-      res.json(campaign);
+      notifyStatusChange(res.locals.campaign!, campaign);
+
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: id,
+        action: "update",
+        before: res.locals.campaign,
+        after: campaign,
+        campaignId: id,
+      });
+      // New dates or a new status can bring the campaign's prices into conflict
+      const priceConflicts = await findPriceConflicts(
+        campaign,
+        await storage.getCampaignProducts(id),
+        await readableCampaigns(req.user!)
+      );
+      res.json({ ...campaign, priceConflicts });
     } catch (error) {
       res.status(500).json({ message: "Failed to update campaign" });
     }
   });
 
-  app.delete("/api/campaigns/:id", async (req, res) => {
+  // Saves the whole editor state (metadata + placed products) in one go
+  app.put("/api/campaigns/:id/design", loadCampaign(), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = res.locals.campaign!.id;
+      const parsed = campaignDesignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const updates = parsed.data.campaign;
+      if (hasRole(req.user!, "branch_manager")) {
+        delete updates.branchId;
+      } else if (!(await isValidBranch(req.user!, updates.branchId))) {
+        return res.status(400).json({ message: "Unknown branch" });
+      }
+      const productIds = parsed.data.products.map((item) => item.productId);
+      if (!(await areOwnProducts(req.user!, productIds))) {
+        return res.status(400).json({ message: "Unknown product" });
+      }
+
+      updates.status = campaignStatusOn({ ...res.locals.campaign!, ...updates });
+      const previousProducts = await storage.getCampaignProducts(id);
+      const result = await storage.saveCampaignDesign(id, updates, parsed.data.products);
+      if (!result) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      notifyStatusChange(res.locals.campaign!, result.campaign);
+
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: id,
+        action: "update",
+        before: res.locals.campaign,
+        after: result.campaign,
+        campaignId: id,
+      });
+      await recordCampaignProductChanges(req, id, previousProducts, result.products);
+      const priceConflicts = await findPriceConflicts(
+        result.campaign,
+        result.products,
+        await readableCampaigns(req.user!)
+      );
+      res.json({ ...result, priceConflicts });
+    } catch (error) {
+      console.error("Campaign design save error:", error);
+      res.status(500).json({ message: "Failed to save campaign design" });
+    }
+  });
+
+  app.delete("/api/campaigns/:id", loadCampaign(), async (req, res) => {
+    try {
+      const id = res.locals.campaign!.id;
       const deleted = await storage.deleteCampaign(id);
 
       if (!deleted) {
         return res.status(404).json({ message: "Campaign not found" });
       }
 
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: id,
+        action: "delete",
+        before: res.locals.campaign,
+        campaignId: id,
+      });
+
       res.json({ message: "Campaign deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete campaign" });
     }
   });
 
-  // Products
-  app.get("/api/products", async (req, res) => {
+  // Publishes the campaign at /b/:slug. Sharing again keeps the existing link.
+  app.post("/api/campaigns/:id/share", loadCampaign(), async (req, res) => {
     try {
-      const search = (req.query.search as string) || "";
-      const category = (req.query.category as string) || "";
-
-      const jsonProducts = await readJsonArray<any>(productsJsonPath);
-      let products = jsonProducts;
-      if (search) {
-        const s = search.toLowerCase();
-        products = products.filter(
-          (p) =>
-            p.name?.toLowerCase().includes(s) ||
-            p.description?.toLowerCase().includes(s)
-        );
+      const existing = res.locals.campaign!;
+      if (!shareableCampaignStatuses.includes(existing.status)) {
+        return res
+          .status(400)
+          .json({ message: "Only scheduled or active campaigns can be shared" });
       }
-      if (category && category !== "all") {
-        products = products.filter((p) => p.category === category);
+      if (existing.shareSlug) {
+        return res.json(existing);
       }
 
-      // Fallback to in-memory storage if JSON empty
-      if (!products || products.length === 0) {
-        const fallback = await storage.getProducts(search, category);
-        return res.json(fallback);
+      const campaign = await storage.updateCampaign(existing.id, {
+        shareSlug: randomBytes(9).toString("base64url"),
+        sharedAt: new Date(),
+      });
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: campaign.id,
+        action: "update",
+        before: existing,
+        after: campaign,
+        campaignId: campaign.id,
+      });
+      res.json(campaign);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to share campaign" });
+    }
+  });
+
+  // Takes the public link down; sharing again issues a new one
+  app.delete("/api/campaigns/:id/share", loadCampaign(), async (req, res) => {
+    try {
+      const existing = res.locals.campaign!;
+      const campaign = await storage.updateCampaign(existing.id, {
+        shareSlug: null,
+        sharedAt: null,
+      });
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
       }
 
+      await recordAudit(req, {
+        entityType: "campaign",
+        entityId: campaign.id,
+        action: "update",
+        before: existing,
+        after: campaign,
+        campaignId: campaign.id,
+      });
+      res.json(campaign);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stop sharing campaign" });
+    }
+  });
+
+  // Products
+  app.get("/api/products", async (req, res) => {
+    try {
+      const search = (req.query.search as string) || "";
+      const category = (req.query.category as string) || "";
+
+      const products = await storage.getProducts(req.user!.organizationId, search, category);
       res.json(products);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch products" });
     }
   });
 
-  app.post("/api/products", upload.single("image"), async (req, res) => {
+  app.post("/api/products", requireRole(...CONTENT_ROLES), upload.single("image"), async (req, res) => {
     try {
       const { name, description, originalPrice, category } = req.body;
 
@@ -245,6 +906,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const productData = {
+        organizationId: req.user!.organizationId,
         name,
         description: description || null,
         originalPrice: parseFloat(originalPrice),
@@ -252,28 +914,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         imageUrl: publicAssetsUrl || imageUrl,
       };
 
-      // Create in-memory (for compatibility)
       const product = await storage.createProduct(productData);
-
-      // Persist to JSON
-      const productsArr = await readJsonArray<any>(productsJsonPath);
-      const record = {
-        id: product?.id ?? nextId(productsArr),
-        ...productData,
-      };
-      productsArr.push(record);
-      await writeJsonArray(productsJsonPath, productsArr);
-
-      res.status(201).json(record);
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: product.id,
+        action: "create",
+        after: product,
+      });
+      res.status(201).json(product);
     } catch (error) {
       console.error("Product creation error:", error);
       res.status(500).json({ message: "Failed to create product" });
     }
   });
 
-  app.patch("/api/products/:id", upload.single("image"), async (req, res) => {
+  app.patch("/api/products/:id", loadProduct(), upload.single("image"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = res.locals.product!.id;
       const { name, description, originalPrice, category } = req.body;
 
       const updates: any = {};
@@ -283,8 +940,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (category) updates.category = category;
 
       if (req.file) {
-        const productName =
-          name || (await storage.getProduct(id))?.name || "product";
+        const productName = name || res.locals.product!.name || "product";
         const fileExtension = path.extname(
           req.file.originalname || req.file.filename
         );
@@ -304,39 +960,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Update in-memory
       const product = await storage.updateProduct(id, updates);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      // Update JSON
-      const productsArr = await readJsonArray<any>(productsJsonPath);
-      const idx = productsArr.findIndex((p) => p.id === id);
-      if (idx !== -1) {
-        productsArr[idx] = { ...productsArr[idx], ...updates };
-        await writeJsonArray(productsJsonPath, productsArr);
-      }
-
-      res.json(productsArr.find((p) => p.id === id) || product);
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before: res.locals.product,
+        after: product,
+      });
+      res.json(product);
     } catch (error) {
       res.status(500).json({ message: "Failed to update product" });
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.delete("/api/products/:id", loadProduct(), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteProduct(id);
+      const product = res.locals.product!;
+      const campaigns = await storage.getCampaigns(product.organizationId);
+      const placements = await storage.getCampaignProductsForCampaigns(
+        campaigns.map((campaign) => campaign.id)
+      );
+      if (placements.some((placement) => placement.productId === product.id)) {
+        return res.status(409).json({ message: "Product is still placed in a campaign" });
+      }
 
-      const productsArr = await readJsonArray<any>(productsJsonPath);
-      const remaining = productsArr.filter((p) => p.id !== id);
-      await writeJsonArray(productsJsonPath, remaining);
+      const id = product.id;
+      const deleted = await storage.deleteProduct(id);
 
-      if (!deleted && productsArr.length === remaining.length) {
+      if (!deleted) {
         return res.status(404).json({ message: "Product not found" });
       }
 
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: id,
+        action: "delete",
+        before: res.locals.product,
+      });
+
       res.json({ message: "Product deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete product" });
@@ -344,22 +1010,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Campaign Products
-  app.get("/api/campaigns/:campaignId/products", async (req, res) => {
+  app.get("/api/campaigns/:campaignId/products", loadCampaign("campaignId"), async (req, res) => {
     try {
-      const campaignId = parseInt(req.params.campaignId);
+      const campaignId = res.locals.campaign!.id;
       const campaignProducts = await storage.getCampaignProducts(campaignId);
 
-      // Enrich with product details from JSON (persistent storage)
-      const allProducts = await readJsonArray<any>(productsJsonPath);
-      const enrichedProducts = campaignProducts.map((cp) => {
-        // Try to find product in JSON first, fallback to in-memory
-        let product = allProducts.find((p) => p.id === cp.productId);
-        if (!product) {
-          // Fallback to in-memory if not found in JSON
-          product = storage.products.get(cp.productId);
-        }
-        return { ...cp, product };
-      });
+      // Enrich with product details
+      const enrichedProducts = await Promise.all(
+        campaignProducts.map(async (cp) => ({
+          ...cp,
+          product: await storage.getProduct(cp.productId),
+        }))
+      );
 
       res.json(enrichedProducts);
     } catch (error) {
@@ -368,43 +1030,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/campaigns/:campaignId/products", async (req, res) => {
+  app.post("/api/campaigns/:campaignId/products", loadCampaign("campaignId"), async (req, res) => {
     try {
-      const campaignId = parseInt(req.params.campaignId);
-      const productData = { ...req.body, campaignId };
+      const campaignId = res.locals.campaign!.id;
+      const productData = insertCampaignProductSchema.parse({
+        ...req.body,
+        campaignId,
+      });
+
+      const product = await storage.getProduct(productData.productId);
+      if (!product || product.organizationId !== req.user!.organizationId) {
+        return res.status(400).json({ message: "Invalid product data" });
+      }
+      if (!(await hasRoomOnPage(campaignId, productData.pageNumber ?? 1))) {
+        return res
+          .status(400)
+          .json({ message: `A page holds at most ${MAX_ITEMS_PER_PAGE} products` });
+      }
 
       const campaignProduct = await storage.addProductToCampaign(productData);
-      res.status(201).json(campaignProduct);
+      await recordAudit(req, {
+        entityType: "campaign_product",
+        entityId: campaignProduct.id,
+        action: "create",
+        after: campaignProduct,
+        campaignId,
+      });
+      const priceConflicts = await findPriceConflicts(
+        res.locals.campaign!,
+        [campaignProduct],
+        await readableCampaigns(req.user!)
+      );
+      res.status(201).json({ ...campaignProduct, priceConflicts });
     } catch (error) {
       res.status(400).json({ message: "Invalid product data" });
     }
   });
 
-  app.put("/api/campaign-products/:id", async (req, res) => {
+  app.put("/api/campaign-products/:id", loadCampaignProduct(), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
+      const id = res.locals.campaignProduct!.id;
+      // A placed product cannot be moved into another campaign
+      const parsed = insertCampaignProductSchema
+        .omit({ campaignId: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const updates = parsed.data;
+      const productIds = updates.productId === undefined ? [] : [updates.productId];
+      if (!(await areOwnProducts(req.user!, productIds))) {
+        return res.status(400).json({ message: "Unknown product" });
+      }
+      const placement = res.locals.campaignProduct!;
+      if (
+        updates.pageNumber != null &&
+        updates.pageNumber !== placement.pageNumber &&
+        !(await hasRoomOnPage(placement.campaignId, updates.pageNumber, id))
+      ) {
+        return res
+          .status(400)
+          .json({ message: `A page holds at most ${MAX_ITEMS_PER_PAGE} products` });
+      }
 
       const campaignProduct = await storage.updateCampaignProduct(id, updates);
       if (!campaignProduct) {
         return res.status(404).json({ message: "Campaign product not found" });
       }
 
-      res.json(campaignProduct);
+      await recordAudit(req, {
+        entityType: "campaign_product",
+        entityId: id,
+        action: "update",
+        before: res.locals.campaignProduct,
+        after: campaignProduct,
+        campaignId: campaignProduct.campaignId,
+      });
+      // A new price or product can conflict with overlapping campaigns
+      const campaign = await storage.getCampaign(campaignProduct.campaignId);
+      const priceConflicts = campaign
+        ? await findPriceConflicts(campaign, [campaignProduct], await readableCampaigns(req.user!))
+        : [];
+      res.json({ ...campaignProduct, priceConflicts });
     } catch (error) {
       res.status(500).json({ message: "Failed to update campaign product" });
     }
   });
 
-  app.delete("/api/campaign-products/:id", async (req, res) => {
+  app.delete("/api/campaign-products/:id", loadCampaignProduct(), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = res.locals.campaignProduct!.id;
       const deleted = await storage.removeCampaignProduct(id);
 
       if (!deleted) {
         return res.status(404).json({ message: "Campaign product not found" });
       }
 
+      await recordAudit(req, {
+        entityType: "campaign_product",
+        entityId: id,
+        action: "delete",
+        before: res.locals.campaignProduct,
+        campaignId: res.locals.campaignProduct!.campaignId,
+      });
+
       res.json({ message: "Product removed from campaign" });
     } catch (error) {
       res
@@ -416,36 +1147,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Templates
   app.get("/api/templates", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
-      const arr = await readJsonArray<any>(templatesJsonPath);
-      const templates = arr.filter(
-        (t) => t.userId === userId || t.userId == null
-      );
-      if (templates.length === 0) {
-        const fallback = await storage.getTemplates(userId);
-        return res.json(fallback);
-      }
+      const templates = await storage.getTemplates(req.user!.organizationId);
       res.json(templates);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch templates" });
     }
   });
 
-  app.post("/api/templates", upload.single("file"), async (req, res) => {
+  app.post("/api/templates", requireRole(...CONTENT_ROLES), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { name, description, userId } = req.body;
-      if (!name || !userId) {
-        return res
-          .status(400)
-          .json({ message: "Name and user ID are required" });
+      const { name, description } = req.body;
+      if (!name) {
+        return res.status(400).json({ message: "Name is required" });
       }
 
       // Validate file type - allow image files and common design files for templates
@@ -478,50 +1195,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn("Failed to duplicate template file to public/assets", e);
       }
 
-      // Create in-memory for compatibility
       const template = await storage.createTemplate({
         name,
         description: description || null,
         filePath: req.file.filename, // keep filename for existing UI which uses /uploads/
-        userId: parseInt(userId),
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId,
+      });
+      await recordAudit(req, {
+        entityType: "template",
+        entityId: template.id,
+        action: "create",
+        after: template,
       });
 
-      // Persist to JSON
-      const arr = await readJsonArray<any>(templatesJsonPath);
-      const record = {
-        id: template?.id ?? nextId(arr),
-        name,
-        description: description || null,
-        filePath: req.file.filename, // keep filename to work with /uploads/
-        userId: parseInt(userId),
-        createdAt: new Date().toISOString(),
-      };
-      arr.push(record);
-      await writeJsonArray(templatesJsonPath, arr);
-
-      res.status(201).json(record);
+      res.status(201).json(template);
     } catch (error) {
       console.error("Template upload error:", error);
       res.status(500).json({ message: "Failed to upload template" });
     }
   });
 
-  app.delete("/api/templates/:id", async (req, res) => {
+  app.delete("/api/templates/:id", loadTemplate(), async (req, res) => {
     try {
-      const templateId = parseInt(req.params.id);
-      if (!templateId) {
-        return res.status(400).json({ message: "Template ID is required" });
-      }
-
-      // Read templates from JSON
-      const arr = await readJsonArray<any>(templatesJsonPath);
-      const templateIndex = arr.findIndex((t) => t.id === templateId);
-
-      if (templateIndex === -1) {
-        return res.status(404).json({ message: "Template not found" });
-      }
-
-      const template = arr[templateIndex];
+      const template = res.locals.template!;
 
       // Delete physical files if they exist
       if (template.filePath) {
@@ -551,12 +1248,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Remove from array and save
-      arr.splice(templateIndex, 1);
-      await writeJsonArray(templatesJsonPath, arr);
-
-      // Also remove from memory storage
-      await storage.deleteTemplate(templateId);
+      await storage.deleteTemplate(template.id);
+      await recordAudit(req, {
+        entityType: "template",
+        entityId: template.id,
+        action: "delete",
+        before: template,
+      });
 
       res.json({ message: "Template deleted successfully" });
     } catch (error) {
@@ -568,20 +1266,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Logos
   app.get("/api/logos", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
-      const logos = await readJsonArray<any>(logosJsonPath);
-      const filtered = logos.filter(
-        (l) => l.userId === userId || l.userId == null
-      );
-      if (filtered.length === 0) {
-        const fallback = await storage.getLogos(userId);
-        return res.json(fallback);
-      }
-      res.json(filtered);
+      const logos = await storage.getLogos(req.user!.organizationId);
+      res.json(logos);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch logos" });
     }
@@ -589,22 +1275,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/logos/active", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
-
-      const logos = await readJsonArray<any>(logosJsonPath);
-      const active = logos.find((l) => l.userId === userId && l.isActive);
+      const active = await storage.getActiveLogo(req.user!.organizationId);
       res.json(active || null);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch active logo" });
     }
   });
 
-  app.post("/api/logos", upload.single("file"), async (req, res) => {
+  app.post("/api/logos", requireRole(...CONTENT_ROLES), upload.single("file"), async (req, res) => {
     try {
-      const { name, userId } = req.body;
+      const { name } = req.body;
 
       if (!req.file) {
         return res.status(400).json({ message: "File is required" });
@@ -627,56 +1307,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Failed to copy logo to public/assets:", error);
       }
 
-      // In-memory compatibility
       const logo = await storage.createLogo({
         name: logoName,
-        userId: parseInt(userId),
-        filePath: fileNameOnly,
-        isActive: false,
-      });
-
-      // Persist JSON
-      const arr = await readJsonArray<any>(logosJsonPath);
-      const record = {
-        id: logo?.id ?? nextId(arr),
-        name: logoName,
-        userId: parseInt(userId),
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId,
         filePath: fileNameOnly, // frontend supports public/assets check
         isActive: false,
-        createdAt: new Date().toISOString(),
-      };
-      arr.push(record);
-      await writeJsonArray(logosJsonPath, arr);
+      });
+      await recordAudit(req, {
+        entityType: "logo",
+        entityId: logo.id,
+        action: "create",
+        after: logo,
+      });
 
-      res.status(201).json(record);
+      res.status(201).json(logo);
     } catch (error) {
       console.error("Logo upload error:", error);
       res.status(500).json({ message: "Failed to upload logo" });
     }
   });
 
-  app.put("/api/logos/:id/activate", async (req, res) => {
+  app.put("/api/logos/:id/activate", loadLogo(), async (req, res) => {
     try {
-      const logoId = parseInt(req.params.id);
-      const { userId } = req.body;
-
-      const logos = await readJsonArray<any>(logosJsonPath);
-      let found = false;
-      const updated = logos.map((l) => {
-        if (l.userId === userId) {
-          const isTarget = l.id === logoId;
-          if (isTarget) found = true;
-          return { ...l, isActive: isTarget };
-        }
-        return l;
-      });
-      if (!found) {
+      const logo = res.locals.logo!;
+      const activated = await storage.setActiveLogo(req.user!.organizationId, logo.id);
+      if (!activated) {
         return res.status(404).json({ message: "Logo not found" });
       }
-      await writeJsonArray(logosJsonPath, updated);
 
-      // keep in-memory in sync
-      await storage.setActiveLogo(userId, logoId);
+      await recordAudit(req, {
+        entityType: "logo",
+        entityId: logo.id,
+        action: "update",
+        before: { isActive: logo.isActive },
+        after: { isActive: true },
+      });
 
       res.json({ message: "Logo activated successfully" });
     } catch (error) {
@@ -684,36 +1350,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate PDF (placeholder endpoint)
-  app.post("/api/campaigns/:id/generate-pdf", async (req, res) => {
+  // Brochure PDF, built from the last saved design; ?format= re-flows it into
+  // one of the output formats
+  app.get("/api/campaigns/:id/brochure.pdf", loadCampaign("id", "read"), async (req, res) => {
     try {
-      // In a real implementation, you would use a library like puppeteer or jsPDF
-      // to generate a PDF from the brochure design
-      res.json({
-        message: "PDF generation would be implemented here",
-        downloadUrl: "/api/downloads/brochure.pdf",
-      });
+      const campaign = res.locals.campaign!;
+      const outputFormat = z.enum(outputFormats).optional().safeParse(req.query.format);
+      if (!outputFormat.success) {
+        return res.status(400).json({ message: "Unknown output format" });
+      }
+
+      const [placed, templates] = await Promise.all([
+        getPlacedProducts(campaign.id),
+        storage.getTemplates(campaign.organizationId),
+      ]);
+
+      const pdf = await renderCampaignPdf(campaign, placed, templates, outputFormat.data);
+      const baseName = sanitizeFilename(campaign.name) || "brochure";
+      const fileName = outputFormat.data ? `${baseName}-${outputFormat.data}` : baseName;
+      await recordDownload(campaign, "pdf");
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.pdf"`);
+      res.send(Buffer.from(pdf));
     } catch (error) {
+      console.error("PDF generation error:", error);
       res.status(500).json({ message: "Failed to generate PDF" });
     }
   });
 
+  // One brochure page as an image (/pages/1.png, .jpg, .webp or an editable
+  // .svg), rendered on the server from the last saved design
+  const imageExtensions: Record<string, PageImageType> = {
+    png: "png",
+    jpg: "jpeg",
+    jpeg: "jpeg",
+    webp: "webp",
+  };
+  app.get("/api/campaigns/:id/pages/:page.:ext", loadCampaign("id", "read"), async (req, res) => {
+    try {
+      const campaign = res.locals.campaign!;
+      const pageNumber = Number(req.params.page);
+      const extension = req.params.ext.toLowerCase();
+      const imageType = imageExtensions[extension];
+      if (!Number.isInteger(pageNumber) || (!imageType && extension !== "svg")) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      const query = pageImageQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid image options" });
+      }
+
+      const [placed, templates] = await Promise.all([
+        getPlacedProducts(campaign.id),
+        storage.getTemplates(campaign.organizationId),
+      ]);
+      if (!imageType) {
+        const svg = await renderCampaignPageSvg(campaign, placed, templates, {
+          pageNumber,
+          outputFormat: query.data.format,
+        });
+        if (!svg) {
+          return res.status(404).json({ message: "Page not found" });
+        }
+        res.setHeader("Content-Type", "image/svg+xml");
+        return res.send(svg);
+      }
+
+      const image = await renderCampaignPageImage(campaign, placed, templates, {
+        pageNumber,
+        imageType,
+        outputFormat: query.data.format,
+        width: query.data.width,
+      });
+      if (!image) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      res.setHeader("Content-Type", `image/${imageType}`);
+      res.send(image);
+    } catch (error) {
+      console.error("Page image error:", error);
+      res.status(500).json({ message: "Failed to render page image" });
+    }
+  });
+
+  // Background exports, rendered by the queue in server/export-queue.ts and
+  // downloadable until they expire. Each user sees only their own.
+  app.get("/api/exports", async (req, res) => {
+    try {
+      const user = req.user!;
+      const [jobs, campaigns] = await Promise.all([
+        storage.getExportJobs(user.id),
+        storage.getCampaigns(user.organizationId),
+      ]);
+      const names = new Map(campaigns.map((c) => [c.id, c.name]));
+      res.json(jobs.map((job) => ({ ...job, campaignName: names.get(job.campaignId) ?? null })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exports" });
+    }
+  });
+
+  app.post("/api/exports", async (req, res) => {
+    const parsed = createExportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid export request" });
+    }
+
+    try {
+      const user = req.user!;
+      const { campaignId, fileType, outputFormats, slideshow } = parsed.data;
+      const campaign = await storage.getCampaign(campaignId);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (!canAccessCampaign(user, campaign, "read")) {
+        return res.status(403).json({ message: "You do not have access to this campaign" });
+      }
+
+      const baseName = sanitizeFilename(campaign.name) || "brochure";
+      const job = await enqueueExport({
+        organizationId: user.organizationId,
+        campaignId,
+        userId: user.id,
+        fileType,
+        outputFormats,
+        slideshow: (slideshowFileTypes as readonly string[]).includes(fileType)
+          ? slideshow ?? slideshowOptionsSchema.parse({})
+          : null,
+        fileName: outputFormats.length === 1 ? `${baseName}-${outputFormats[0]}` : baseName,
+      });
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue export" });
+    }
+  });
+
+  // Server-sent events carrying the job after every change, until it finishes
+  app.get("/api/exports/:id/events", loadExportJob(), async (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (job: ExportJob) => {
+      if (res.writableEnded) return;
+      res.write(`data: ${JSON.stringify(job)}\n\n`);
+      if (isFinished(job)) {
+        unsubscribe();
+        res.end();
+      }
+    };
+    const unsubscribe = subscribeToExport(res.locals.exportJob!.id, send);
+    req.on("close", unsubscribe);
+
+    // Read again after subscribing so no change in between is missed
+    const job = await storage.getExportJob(res.locals.exportJob!.id).catch(() => undefined);
+    if (job) {
+      send(job);
+    } else {
+      unsubscribe();
+      res.end();
+    }
+  });
+
+  app.get("/api/exports/:id/download", loadExportJob(), (req, res) => {
+    const job = res.locals.exportJob!;
+    if (job.status !== "completed" || !job.filePath) {
+      return res.status(409).json({ message: "Export is not ready" });
+    }
+
+    res.download(job.filePath, job.fileName, async (error) => {
+      if (!error) {
+        const campaign = { id: job.campaignId, organizationId: job.organizationId };
+        await recordDownload(campaign, job.fileType);
+      } else if (!res.headersSent) {
+        res.status(410).json({ message: "Export file is no longer available" });
+      }
+    });
+  });
+
+  // Removes a finished export, or cancels one that has not started yet
+  app.delete("/api/exports/:id", loadExportJob(), async (req, res) => {
+    try {
+      const job = res.locals.exportJob!;
+      if (job.status === "running") {
+        return res.status(409).json({ message: "Export is still running" });
+      }
+
+      await removeExport(job);
+      res.json({ message: "Export deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete export" });
+    }
+  });
+
   // Statistics endpoint
   app.get("/api/statistics", async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const user = req.user!;
 
-      const campaigns = await storage.getCampaigns(userId);
-      const templates = await storage.getTemplates(userId);
+      const campaigns = (await storage.getCampaigns(user.organizationId)).filter((campaign) =>
+        canAccessCampaign(user, campaign, "read")
+      );
+      const templates = await storage.getTemplates(user.organizationId);
 
       const stats = {
         totalCampaigns: campaigns.length,
         activeCampaigns: campaigns.filter((c) => c.status === "active").length,
         totalTemplates: templates.length,
-        totalDownloads: 156, // Mock value for demo
+        totalDownloads: await countDownloads(campaigns, unsavedDraftsOf(user)),
       };
 
       res.json(stats);
@@ -722,6 +1568,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reported by the editor after it captured an unsaved draft in the browser;
+  // saved campaigns are exported, and counted, on the server
+  app.post("/api/analytics/downloads", async (req, res) => {
+    const parsed = draftDownloadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid download" });
+    }
+
+    try {
+      await recordDraftDownload(req.user!.organizationId, parsed.data.fileType);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record download" });
+    }
+  });
+
+  // Engagement counts for the campaigns the user can read, grouped by day,
+  // campaign, product or channel (/api/analytics/day?from=&to=&campaignId=)
+  app.get("/api/analytics/:dimension", async (req, res) => {
+    const dimension = z.enum(analyticsDimensions).safeParse(req.params.dimension);
+    if (!dimension.success) {
+      return res.status(404).json({ message: "Unknown analytics dimension" });
+    }
+    const parsed = analyticsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics query" });
+    }
+    const { from, to } = resolveRange(parsed.data);
+    if (from > to || isRangeTooLong(from, to)) {
+      return res.status(400).json({ message: "Choose a range of at most a year" });
+    }
+
+    try {
+      const user = req.user!;
+      const campaigns = (await storage.getCampaigns(user.organizationId)).filter(
+        (campaign) =>
+          canAccessCampaign(user, campaign, "read") &&
+          (parsed.data.campaignId === undefined || campaign.id === parsed.data.campaignId)
+      );
+
+      const unsavedOf =
+        parsed.data.campaignId === undefined ? unsavedDraftsOf(user) : undefined;
+      res.json(await buildAnalyticsReport(campaigns, dimension.data, from, to, unsavedOf));
+    } catch (error) {
+      console.error("Analytics error:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
+  // Product performance across the campaigns the user can read, as JSON or
+  // as a .csv / .xlsx download
+  const productReport = async (req: Request) => {
+    const user = req.user!;
+    const query = productReportQuerySchema.safeParse(req.query);
+    if (!query.success) return undefined;
+
+    return buildProductReport(user.organizationId, await readableCampaigns(user), query.data);
+  };
+
+  app.get("/api/reports/products", async (req, res) => {
+    try {
+      const report = await productReport(req);
+      if (!report) {
+        return res.status(400).json({ message: "Invalid report filters" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Product report error:", error);
+      res.status(500).json({ message: "Failed to build product report" });
+    }
+  });
+
+  app.get("/api/reports/products.:ext", async (req, res) => {
+    try {
+      const extension = req.params.ext.toLowerCase();
+      if (extension !== "csv" && extension !== "xlsx") {
+        return res.status(404).json({ message: "Unknown report format" });
+      }
+      const report = await productReport(req);
+      if (!report) {
+        return res.status(400).json({ message: "Invalid report filters" });
+      }
+
+      const fileName = `product-performance.${extension}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      if (extension === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        return res.send(productReportToCsv(report));
+      }
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.send(await productReportToXlsx(report));
+    } catch (error) {
+      console.error("Product report export error:", error);
+      res.status(500).json({ message: "Failed to export product report" });
+    }
+  });
+
+  // Audit log. Admins and designers can search the whole organization; other
+  // roles only see the history of campaigns they can read.
+  app.get("/api/audit", async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid audit query" });
+    }
+
+    try {
+      const user = req.user!;
+      const query = parsed.data;
+      if (!hasRole(user, ...CONTENT_ROLES)) {
+        const campaign =
+          query.campaignId !== undefined ? await storage.getCampaign(query.campaignId) : undefined;
+        if (!campaign || !canAccessCampaign(user, campaign, "read")) {
+          return res.status(403).json({ message: "Your role does not allow this action" });
+        }
+      }
+
+      const [events, members] = await Promise.all([
+        storage.getAuditEvents(user.organizationId, query),
+        storage.getUsers(user.organizationId),
+      ]);
+      const names = new Map(members.map((m) => [m.id, m.name]));
+      res.json(
+        events.map((event) => ({
+          ...event,
+          actorName: event.actorId !== null ? names.get(event.actorId) ?? null : null,
+        }))
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,67 @@
+// Creates the first organization and its admin account on a fresh install.
+//
+//   ADMIN_PASSWORD=... npm run db:bootstrap -- --username admin --name "Jane Doe" [--organization "Karatay Market"]
+//
+// Refuses to run once any user exists; from then on admins manage accounts
+// from the Users page.
+import { parseArgs } from "util";
+import { sql } from "drizzle-orm";
+import { organizations, users, passwordSchema } from "@shared/schema";
+import { createDb } from "../db";
+import { hashPassword } from "../passwords";
+
+const { values: args } = parseArgs({
+  options: {
+    username: { type: "string", default: "admin" },
+    name: { type: "string", default: "Administrator" },
+    organization: { type: "string", default: "My Organization" },
+    password: { type: "string" },
+  },
+});
+
+async function main() {
+  const password = args.password ?? process.env.ADMIN_PASSWORD;
+  const parsedPassword = passwordSchema.safeParse(password);
+  if (!parsedPassword.success) {
+    throw new Error(
+      `Set ADMIN_PASSWORD (or pass --password): ${parsedPassword.error.errors[0].message}`
+    );
+  }
+
+  const { pool, db } = createDb();
+  try {
+    const admin = await db.transaction(async (tx) => {
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 0) {
+        throw new Error("Users already exist; create further accounts from the Users page");
+      }
+
+      const [organization] = await tx
+        .insert(organizations)
+        .values({ name: args.organization! })
+        .returning();
+      const [user] = await tx
+        .insert(users)
+        .values({
+          username: args.username!,
+          name: args.name!,
+          password: await hashPassword(parsedPassword.data),
+          organizationId: organization.id,
+          role: "admin",
+        })
+        .returning();
+      return { organization, user };
+    });
+
+    console.log(
+      `Created admin "${admin.user.username}" for organization "${admin.organization.name}" (id ${admin.organization.id}).`
+    );
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Bootstrap failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,299 @@
+// One-shot importer for the catalogue that older versions kept in
+// public/assets/{products,logos,templates}.json.
+//
+//   npm run db:import -- [--dry-run] [--dir public/assets] [--user-id 1] [--organization-id 1]
+//
+// Safe to run repeatedly: records already present in the organization
+// (matched on their natural key, not their id) are skipped.
+import path from "path";
+import fs from "fs";
+import { parseArgs } from "util";
+import { and, eq, sql } from "drizzle-orm";
+import { products, templates, logos } from "@shared/schema";
+import { createDb, type Database } from "../db";
+
+type Entity = "products" | "templates" | "logos";
+
+interface LegacyProduct {
+  id?: number;
+  name: string;
+  category?: string | null;
+  originalPrice: number | string;
+  imageUrl?: string | null;
+  description?: string | null;
+}
+
+interface LegacyTemplate {
+  id?: number;
+  name: string;
+  description?: string | null;
+  filePath: string;
+  thumbnailPath?: string | null;
+  userId?: number | null;
+  createdAt?: string;
+}
+
+interface LegacyLogo {
+  id?: number;
+  name: string;
+  filePath: string;
+  isActive?: boolean;
+  userId?: number | null;
+  createdAt?: string;
+}
+
+interface PlannedRow<T> {
+  sourceId: number | undefined;
+  id: number;
+  values: T;
+}
+
+interface EntityReport {
+  entity: Entity;
+  found: number;
+  toInsert: number;
+  alreadyPresent: number;
+  renumbered: { from: number | undefined; to: number; name: string }[];
+  missingFiles: { id: number; name: string; file: string }[];
+}
+
+const { values: args } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    dir: { type: "string", default: path.join("public", "assets") },
+    "user-id": { type: "string", default: "1" },
+    "organization-id": { type: "string", default: "1" },
+  },
+});
+
+const cwd = process.cwd();
+const assetsDir = path.resolve(cwd, args.dir!);
+const uploadsDir = path.resolve(cwd, "uploads");
+const fallbackUserId = parseInt(args["user-id"]!, 10);
+const organizationId = parseInt(args["organization-id"]!, 10);
+
+function readJsonArray<T>(fileName: string): T[] {
+  const filePath = path.join(assetsDir, fileName);
+  if (!fs.existsSync(filePath)) return [];
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${filePath} does not contain a JSON array`);
+  }
+  return parsed;
+}
+
+function nextId(taken: Set<number>): number {
+  let max = 0;
+  taken.forEach((id) => {
+    if (id > max) max = id;
+  });
+  return max + 1;
+}
+
+// Product image URLs are stored as "/public/assets/x" or "/uploads/x";
+// template and logo paths are bare file names in either directory.
+function resolveAssetFile(ref: string): string | null {
+  const candidates = ref.startsWith("/public/assets/")
+    ? [path.join(assetsDir, ref.slice("/public/assets/".length))]
+    : ref.startsWith("/uploads/")
+    ? [path.join(uploadsDir, ref.slice("/uploads/".length))]
+    : [path.join(uploadsDir, ref), path.join(assetsDir, ref)];
+
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+}
+
+// Old versions assigned ids from the in-memory counter, which restarted on
+// every boot, so the JSON files contain duplicates. Keep the first owner of an
+// id and renumber later ones (and any id the database already uses) past the
+// highest id seen.
+function planRows<S extends { id?: number; name: string }, T>(
+  entity: Entity,
+  records: S[],
+  existingIds: Set<number>,
+  isPresent: (record: S) => boolean,
+  toValues: (record: S) => T,
+  fileRef: (record: S) => string | null | undefined
+): { rows: PlannedRow<T>[]; report: EntityReport } {
+  const report: EntityReport = {
+    entity,
+    found: records.length,
+    toInsert: 0,
+    alreadyPresent: 0,
+    renumbered: [],
+    missingFiles: [],
+  };
+  const rows: PlannedRow<T>[] = [];
+  const taken = new Set<number>(existingIds);
+  records.forEach((record) => {
+    if (typeof record.id === "number") taken.add(record.id);
+  });
+  const assigned = new Set<number>();
+
+  for (const record of records) {
+    if (isPresent(record)) {
+      report.alreadyPresent++;
+      continue;
+    }
+
+    let id = record.id;
+    if (typeof id !== "number" || assigned.has(id) || existingIds.has(id)) {
+      id = nextId(taken);
+      taken.add(id);
+      report.renumbered.push({ from: record.id, to: id, name: record.name });
+    }
+    assigned.add(id);
+
+    const ref = fileRef(record);
+    if (ref && !resolveAssetFile(ref)) {
+      report.missingFiles.push({ id, name: record.name, file: ref });
+    }
+
+    rows.push({ sourceId: record.id, id, values: toValues(record) });
+    report.toInsert++;
+  }
+
+  return { rows, report };
+}
+
+async function plan(db: Database) {
+  // Ids are unique across organizations; natural keys only within one
+  const existingProducts = await db.select().from(products);
+  const existingTemplates = await db.select().from(templates);
+  const existingLogos = await db.select().from(logos);
+  const ownProducts = existingProducts.filter((p) => p.organizationId === organizationId);
+  const ownTemplates = existingTemplates.filter((t) => t.organizationId === organizationId);
+  const ownLogos = existingLogos.filter((l) => l.organizationId === organizationId);
+
+  const productPlan = planRows(
+    "products",
+    readJsonArray<LegacyProduct>("products.json"),
+    new Set(existingProducts.map((p) => p.id)),
+    (record) =>
+      ownProducts.some(
+        (p) => p.name === record.name && p.imageUrl === (record.imageUrl ?? null)
+      ),
+    (record) => ({
+      organizationId,
+      name: record.name,
+      category: record.category || "Uncategorized",
+      originalPrice: Number(record.originalPrice),
+      imageUrl: record.imageUrl ?? null,
+      description: record.description ?? null,
+    }),
+    (record) => record.imageUrl
+  );
+
+  const templatePlan = planRows(
+    "templates",
+    readJsonArray<LegacyTemplate>("templates.json"),
+    new Set(existingTemplates.map((t) => t.id)),
+    (record) => ownTemplates.some((t) => t.filePath === record.filePath),
+    (record) => ({
+      name: record.name,
+      description: record.description ?? null,
+      filePath: record.filePath,
+      thumbnailPath: record.thumbnailPath ?? null,
+      userId: record.userId ?? fallbackUserId,
+      organizationId,
+      createdAt: record.createdAt ? new Date(record.createdAt) : new Date(),
+    }),
+    (record) => record.filePath
+  );
+
+  const logoPlan = planRows(
+    "logos",
+    readJsonArray<LegacyLogo>("logos.json"),
+    new Set(existingLogos.map((l) => l.id)),
+    (record) => ownLogos.some((l) => l.filePath === record.filePath),
+    (record) => ({
+      name: record.name,
+      filePath: record.filePath,
+      isActive: !!record.isActive,
+      userId: record.userId ?? fallbackUserId,
+      organizationId,
+      createdAt: record.createdAt ? new Date(record.createdAt) : new Date(),
+    }),
+    (record) => record.filePath
+  );
+
+  // An organization has one active logo: the first active one imported
+  // replaces the current one, which is deactivated on insert
+  const activeLogo = logoPlan.rows.find((row) => row.values.isActive);
+  logoPlan.rows.forEach((row) => {
+    row.values.isActive = row === activeLogo;
+  });
+
+  return { productPlan, templatePlan, logoPlan };
+}
+
+function printReport(reports: EntityReport[], dryRun: boolean) {
+  console.log(dryRun ? "Dry run - nothing was written.\n" : "Import finished.\n");
+  console.table(
+    reports.map((r) => ({
+      entity: r.entity,
+      "in JSON": r.found,
+      [dryRun ? "would insert" : "inserted"]: r.toInsert,
+      "already present": r.alreadyPresent,
+      renumbered: r.renumbered.length,
+      "missing files": r.missingFiles.length,
+    }))
+  );
+
+  for (const r of reports) {
+    for (const item of r.renumbered) {
+      console.log(`  ${r.entity}: "${item.name}" id ${item.from ?? "(none)"} -> ${item.to}`);
+    }
+    for (const item of r.missingFiles) {
+      console.warn(`  ${r.entity}: "${item.name}" (id ${item.id}) references missing file ${item.file}`);
+    }
+  }
+}
+
+async function main() {
+  const dryRun = !!args["dry-run"];
+  const { pool, db } = createDb();
+
+  try {
+    const { productPlan, templatePlan, logoPlan } = await plan(db);
+
+    if (!dryRun) {
+      await db.transaction(async (tx) => {
+        for (const row of productPlan.rows) {
+          await tx.insert(products).values({ id: row.id, ...row.values });
+        }
+        for (const row of templatePlan.rows) {
+          await tx.insert(templates).values({ id: row.id, ...row.values });
+        }
+        if (logoPlan.rows.some((row) => row.values.isActive)) {
+          await tx
+            .update(logos)
+            .set({ isActive: false })
+            .where(and(eq(logos.organizationId, organizationId), eq(logos.isActive, true)));
+        }
+        for (const row of logoPlan.rows) {
+          await tx.insert(logos).values({ id: row.id, ...row.values });
+        }
+
+        // Explicit ids bypass the serial sequences; move them past the
+        // imported rows so the app keeps allocating fresh ids.
+        for (const table of ["products", "templates", "logos"]) {
+          await tx.execute(
+            sql.raw(
+              `SELECT setval(pg_get_serial_sequence('${table}', 'id'), COALESCE((SELECT MAX(id) FROM ${table}), 0) + 1, false)`
+            )
+          );
+        }
+      });
+    }
+
+    printReport([productPlan.report, templatePlan.report, logoPlan.report], dryRun);
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error("Import failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,261 @@
+import { spawn } from "child_process";
+import { once } from "events";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import { createCanvas, loadImage, type Image, type SKRSContext2D } from "@napi-rs/canvas";
+import type { Campaign, SlideshowFileType, SlideshowOptions, Template } from "@shared/schema";
+import type { OutputFormat } from "@shared/layout";
+import type { GridCell } from "@shared/layout-engine";
+import { prepareBrochure, type PlacedProduct } from "./brochure-render";
+import { renderCampaignPageImage } from "./page-image";
+
+// Plays a campaign's pages as an animated GIF or an MP4/WebM video. Pages
+// are rendered once with Skia, composed into raw frames here (holds,
+// transitions, product highlights) and encoded by the bundled ffmpeg binary,
+// so nothing is fetched at export time.
+
+const FPS: Record<SlideshowFileType, number> = { gif: 10, mp4: 25, webm: 25 };
+const MAX_WIDTH: Record<SlideshowFileType, number> = { gif: 540, mp4: 1080, webm: 1080 };
+const TRANSITION_SECONDS = 0.6;
+
+const VIDEO_ARGS: Record<Exclude<SlideshowFileType, "gif">, string[]> = {
+  mp4: [
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "23",
+    "-pix_fmt",
+    "yuv420p",
+    "-movflags",
+    "+faststart",
+  ],
+  webm: [
+    "-c:v",
+    "libvpx-vp9",
+    "-deadline",
+    "realtime",
+    "-cpu-used",
+    "8",
+    "-b:v",
+    "0",
+    "-crf",
+    "35",
+    "-pix_fmt",
+    "yuv420p",
+  ],
+};
+
+// Video encoders need even dimensions
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+interface Slide {
+  page: Image;
+  cells: GridCell[];
+}
+
+class FrameComposer {
+  readonly ctx: SKRSContext2D;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    // Pixels per editor unit
+    private scale: number
+  ) {
+    this.ctx = createCanvas(width, height).getContext("2d");
+  }
+
+  private drawPage(page: Image, x = 0, alpha = 1) {
+    this.ctx.globalAlpha = alpha;
+    this.ctx.drawImage(page, x, 0, this.width, this.height);
+    this.ctx.globalAlpha = 1;
+  }
+
+  // Dims everything but the product's cell and outlines it
+  private drawHighlight(cell: GridCell) {
+    const { ctx, scale } = this;
+    const [x, y] = [cell.x * scale, cell.y * scale];
+    const [w, h] = [cell.width * scale, cell.height * scale];
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.beginPath();
+    ctx.rect(0, 0, this.width, this.height);
+    ctx.rect(x, y, w, h);
+    ctx.fill("evenodd");
+    ctx.strokeStyle = "#ffe600";
+    ctx.lineWidth = Math.max(2, 3 * scale);
+    ctx.strokeRect(x, y, w, h);
+  }
+
+  private clear() {
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  private pixels(): Buffer {
+    const { data } = this.ctx.getImageData(0, 0, this.width, this.height);
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  still(page: Image, highlight?: GridCell) {
+    this.clear();
+    this.drawPage(page);
+    if (highlight) this.drawHighlight(highlight);
+    return this.pixels();
+  }
+
+  // t runs from 0 (only `from`) to 1 (only `to`)
+  transition(from: Image, to: Image, t: number, kind: SlideshowOptions["transition"]) {
+    this.clear();
+    if (kind === "slide") {
+      const eased = t * t * (3 - 2 * t);
+      this.drawPage(from, -eased * this.width);
+      this.drawPage(to, (1 - eased) * this.width);
+    } else {
+      this.drawPage(from);
+      this.drawPage(to, 0, t);
+    }
+    return this.pixels();
+  }
+}
+
+// Raw RGBA frames at a constant rate. A page's hold is split between its
+// products when they are highlighted one after another.
+function* slideshowFrames(
+  composer: FrameComposer,
+  slides: Slide[],
+  options: SlideshowOptions,
+  fps: number
+): Generator<Buffer> {
+  const holdFrames = Math.max(1, Math.round(options.pageDuration * fps));
+  const transitionFrames =
+    options.transition === "none" ? 0 : Math.round(TRANSITION_SECONDS * fps);
+
+  for (let i = 0; i < slides.length; i++) {
+    const { page, cells } = slides[i];
+    const steps = options.highlightProducts && cells.length > 0 ? cells : [undefined];
+    for (let step = 0; step < steps.length; step++) {
+      const count =
+        Math.round((holdFrames * (step + 1)) / steps.length) -
+        Math.round((holdFrames * step) / steps.length);
+      const frame = composer.still(page, steps[step]);
+      for (let n = 0; n < count; n++) yield frame;
+    }
+
+    const next = slides[i + 1];
+    if (!next) continue;
+    for (let n = 1; n <= transitionFrames; n++) {
+      yield composer.transition(page, next.page, n / (transitionFrames + 1), options.transition);
+    }
+  }
+}
+
+// Pipes the frames into ffmpeg as raw video, followed by any extra inputs
+async function runFfmpeg(
+  composer: FrameComposer,
+  fps: number,
+  frames: Iterator<Buffer>,
+  extraInputs: string[],
+  outputArgs: string[]
+) {
+  const child = spawn(ffmpeg.path, [
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-y",
+    "-f",
+    "rawvideo",
+    "-pix_fmt",
+    "rgba",
+    "-s",
+    `${composer.width}x${composer.height}`,
+    "-r",
+    String(fps),
+    "-i",
+    "-",
+    ...extraInputs,
+    ...outputArgs,
+  ]);
+  let stderr = "";
+  child.stderr.on("data", (chunk) => (stderr += chunk));
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", resolve);
+  });
+
+  try {
+    for (let frame = frames.next(); !frame.done; frame = frames.next()) {
+      if (!child.stdin.write(frame.value)) await once(child.stdin, "drain");
+    }
+  } catch {
+    // ffmpeg quit early; its exit code and message say why
+  }
+  child.stdin.end();
+
+  const code = await exited;
+  if (code !== 0) throw new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`);
+}
+
+export interface SlideshowRenderOptions extends SlideshowOptions {
+  fileType: SlideshowFileType;
+  outputFormat?: OutputFormat;
+}
+
+// onPage is called after each page is rendered, before encoding starts
+export async function renderCampaignSlideshow(
+  campaign: Campaign,
+  items: PlacedProduct[],
+  templates: Template[],
+  options: SlideshowRenderOptions,
+  onPage?: (pageNumber: number, pageCount: number) => void | Promise<void>
+): Promise<Uint8Array> {
+  const { fileType, outputFormat } = options;
+  const brochure = prepareBrochure(campaign, items, templates, outputFormat);
+  const { geometry } = brochure;
+  const width = even(Math.min(geometry.exportWidth, MAX_WIDTH[fileType]));
+  const scale = width / geometry.width;
+  const composer = new FrameComposer(width, even(geometry.height * scale), scale);
+
+  const slides: Slide[] = [];
+  for (let pageNumber = 1; pageNumber <= brochure.pageCount; pageNumber++) {
+    const image = await renderCampaignPageImage(campaign, items, templates, {
+      pageNumber,
+      imageType: "png",
+      outputFormat,
+      width,
+    });
+    slides.push({
+      page: await loadImage(image!),
+      cells: brochure.placed.filter((p) => p.pageNumber === pageNumber).map((p) => p.cell),
+    });
+    await onPage?.(pageNumber, brochure.pageCount);
+  }
+
+  const fps = FPS[fileType];
+  const frames = () => slideshowFrames(composer, slides, options, fps);
+  const dir = await mkdtemp(path.join(os.tmpdir(), "slideshow-"));
+  try {
+    const output = path.join(dir, `slideshow.${fileType}`);
+    if (fileType === "gif") {
+      // A shared palette keeps colours stable; it takes a pass of its own so
+      // ffmpeg does not have to hold every frame in memory
+      const palette = path.join(dir, "palette.png");
+      await runFfmpeg(composer, fps, frames(), [], ["-vf", "palettegen=stats_mode=full", palette]);
+      await runFfmpeg(
+        composer,
+        fps,
+        frames(),
+        ["-i", palette],
+        ["-lavfi", "[0:v][1:v]paletteuse=dither=sierra2_4a", "-loop", "0", output]
+      );
+    } else {
+      await runFfmpeg(composer, fps, frames(), [], [...VIDEO_ARGS[fileType], output]);
+    }
+    return await readFile(output);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
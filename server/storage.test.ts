@@ -0,0 +1,514 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { UNSAVED_CAMPAIGN_KEY, toAnalyticsDay } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { createPgliteStorage } from "./test-utils";
+
+// One contract, both drivers: every behaviour the routes rely on must hold for
+// the seeded in-memory store and for Postgres alike. Each test works inside an
+// organization of its own so the seed data and other tests do not interfere.
+
+const drivers: [string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DbStorage (pglite)", createPgliteStorage],
+];
+
+describe.each(drivers)("%s", (_name, create) => {
+  let storage: IStorage;
+  let close: () => Promise<void>;
+  let sequence = 0;
+
+  beforeAll(async () => {
+    ({ storage, close } = await create());
+  });
+
+  afterAll(async () => {
+    await close();
+  });
+
+  async function setup() {
+    sequence++;
+    const organization = await storage.createOrganization({ name: `Org ${sequence}` });
+    const user = await storage.createUser({
+      username: `user-${sequence}`,
+      password: "hash",
+      name: "Tester",
+      organizationId: organization.id,
+      role: "admin",
+    });
+    return { organization, user };
+  }
+
+  describe("organizations", () => {
+    it("creates, reads and updates", async () => {
+      const { organization } = await setup();
+      expect(organization.embedOrigins).toEqual([]);
+      expect(await storage.getOrganization(organization.id)).toMatchObject({
+        name: organization.name,
+      });
+
+      const updated = await storage.updateOrganization(organization.id, {
+        embedOrigins: ["https://shop.example"],
+      });
+      expect(updated?.embedOrigins).toEqual(["https://shop.example"]);
+      expect(await storage.updateOrganization(999999, { name: "x" })).toBeUndefined();
+      expect(await storage.getOrganization(999999)).toBeUndefined();
+    });
+  });
+
+  describe("branches", () => {
+    it("lists by organization, updates and deletes", async () => {
+      const { organization } = await setup();
+      const other = await setup();
+      const branch = await storage.createBranch({
+        organizationId: organization.id,
+        name: "Merkez",
+      });
+      await storage.createBranch({ organizationId: other.organization.id, name: "Elsewhere" });
+
+      expect((await storage.getBranches(organization.id)).map((b) => b.id)).toEqual([branch.id]);
+      expect(branch.address).toBeNull();
+      const moved = await storage.updateBranch(branch.id, { address: "Konya" });
+      expect(moved?.address).toBe("Konya");
+      expect(await storage.deleteBranch(branch.id)).toBe(true);
+      expect(await storage.deleteBranch(branch.id)).toBe(false);
+      expect(await storage.getBranch(branch.id)).toBeUndefined();
+    });
+  });
+
+  describe("users", () => {
+    it("finds by username and scopes lists to the organization", async () => {
+      const { organization, user } = await setup();
+      await setup();
+
+      expect(user.branchId).toBeNull();
+      expect((await storage.getUserByUsername(user.username))?.id).toBe(user.id);
+      expect(await storage.getUserByUsername("nobody-here")).toBeUndefined();
+      expect((await storage.getUsers(organization.id)).map((u) => u.id)).toEqual([user.id]);
+
+      expect((await storage.updateUser(user.id, { role: "viewer" }))?.role).toBe("viewer");
+      expect(await storage.deleteUser(user.id)).toBe(true);
+      expect(await storage.getUser(user.id)).toBeUndefined();
+      expect(await storage.deleteUser(user.id)).toBe(false);
+    });
+  });
+
+  describe("campaigns", () => {
+    it("defaults to a draft without a share link", async () => {
+      const { organization, user } = await setup();
+      const campaign = await storage.createCampaign({
+        name: "Hafta sonu",
+        userId: user.id,
+        organizationId: organization.id,
+      });
+      expect(campaign).toMatchObject({ status: "draft", shareSlug: null, branchId: null });
+      expect(campaign.createdAt).toBeInstanceOf(Date);
+      expect((await storage.getCampaigns(organization.id)).map((c) => c.id)).toEqual([
+        campaign.id,
+      ]);
+    });
+
+    it("finds shared campaigns by slug and published ones by status", async () => {
+      const { organization, user } = await setup();
+      const base = { userId: user.id, organizationId: organization.id };
+      const scheduled = await storage.createCampaign({ ...base, name: "A", status: "scheduled" });
+      const draft = await storage.createCampaign({ ...base, name: "B" });
+
+      const slug = `slug-${sequence}`;
+      const shared = await storage.updateCampaign(scheduled.id, {
+        shareSlug: slug,
+        sharedAt: new Date(),
+      });
+      expect(shared?.shareSlug).toBe(slug);
+      expect((await storage.getCampaignByShareSlug(slug))?.id).toBe(scheduled.id);
+      expect(await storage.getCampaignByShareSlug("missing")).toBeUndefined();
+
+      const ids = (await storage.getCampaignsByStatus(["scheduled"])).map((c) => c.id);
+      expect(ids).toContain(scheduled.id);
+      expect(ids).not.toContain(draft.id);
+    });
+
+    it("deletes campaigns together with their products", async () => {
+      const { organization, user } = await setup();
+      const campaign = await storage.createCampaign({
+        name: "Gone",
+        userId: user.id,
+        organizationId: organization.id,
+      });
+      const product = await storage.createProduct({
+        organizationId: organization.id,
+        name: "Simit",
+        category: "Fırın",
+        originalPrice: 10,
+      });
+      await storage.addProductToCampaign({
+        campaignId: campaign.id,
+        productId: product.id,
+        newPrice: 8,
+      });
+      expect(await storage.deleteCampaign(campaign.id)).toBe(true);
+      expect(await storage.getCampaign(campaign.id)).toBeUndefined();
+      expect(await storage.getCampaignProducts(campaign.id)).toEqual([]);
+      expect(await storage.deleteCampaign(campaign.id)).toBe(false);
+      expect(await storage.updateCampaign(campaign.id, { name: "x" })).toBeUndefined();
+    });
+  });
+
+  describe("products", () => {
+    it("filters by search and category within the organization", async () => {
+      const { organization } = await setup();
+      const other = await setup();
+      const base = { organizationId: organization.id, originalPrice: 10 };
+      const cheese = await storage.createProduct({
+        ...base,
+        name: "Beyaz Peynir",
+        category: "Süt",
+      });
+      const milk = await storage.createProduct({ ...base, name: "Süt 1L", category: "Süt" });
+      const bread = await storage.createProduct({ ...base, name: "Ekmek", category: "Fırın" });
+      await storage.createProduct({
+        organizationId: other.organization.id,
+        originalPrice: 5,
+        name: "Peynir",
+        category: "Süt",
+      });
+
+      const ids = (products: { id: number }[]) => products.map((p) => p.id).sort((a, b) => a - b);
+      expect(ids(await storage.getProducts(organization.id))).toEqual(
+        [cheese.id, milk.id, bread.id].sort((a, b) => a - b)
+      );
+      expect(ids(await storage.getProducts(organization.id, "peynir"))).toEqual([cheese.id]);
+      expect(ids(await storage.getProducts(organization.id, undefined, "Süt"))).toEqual(
+        [cheese.id, milk.id].sort((a, b) => a - b)
+      );
+
+      expect((await storage.updateProduct(bread.id, { originalPrice: 12.5 }))?.originalPrice).toBe(
+        12.5
+      );
+      expect(await storage.deleteProduct(bread.id)).toBe(true);
+      expect(await storage.getProduct(bread.id)).toBeUndefined();
+    });
+  });
+
+  describe("campaign products", () => {
+    async function campaignWithProducts() {
+      const { organization, user } = await setup();
+      const campaign = await storage.createCampaign({
+        name: "Design",
+        userId: user.id,
+        organizationId: organization.id,
+      });
+      const [first, second] = await Promise.all(
+        ["Çay", "Kahve"].map((name) =>
+          storage.createProduct({
+            organizationId: organization.id,
+            name,
+            category: "İçecek",
+            originalPrice: 100,
+          })
+        )
+      );
+      return { campaign, first, second };
+    }
+
+    it("places, updates and removes products", async () => {
+      const { campaign, first } = await campaignWithProducts();
+      const placed = await storage.addProductToCampaign({
+        campaignId: campaign.id,
+        productId: first.id,
+        newPrice: 80,
+        discountPercent: 20,
+      });
+      expect(placed).toMatchObject({ quantity: 1, pageNumber: 1, gridIndex: null });
+
+      expect((await storage.updateCampaignProduct(placed.id, { newPrice: 75 }))?.newPrice).toBe(75);
+      expect((await storage.getCampaignProducts(campaign.id)).map((cp) => cp.id)).toEqual([
+        placed.id,
+      ]);
+      expect(await storage.removeCampaignProduct(placed.id)).toBe(true);
+      expect(await storage.getCampaignProduct(placed.id)).toBeUndefined();
+      expect(await storage.removeCampaignProduct(placed.id)).toBe(false);
+    });
+
+    it("marks the campaign changed when it or its placements change", async () => {
+      const { campaign, first } = await campaignWithProducts();
+      let previous = campaign.updatedAt!.getTime();
+      // Each step must land on a later millisecond than the one before
+      async function expectTouched() {
+        const current = (await storage.getCampaign(campaign.id))!.updatedAt!.getTime();
+        expect(current).toBeGreaterThan(previous);
+        previous = current;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await storage.updateCampaign(campaign.id, { name: "Renamed" });
+      await expectTouched();
+      const placed = await storage.addProductToCampaign({
+        campaignId: campaign.id,
+        productId: first.id,
+        newPrice: 80,
+      });
+      await expectTouched();
+      await storage.updateCampaignProduct(placed.id, { newPrice: 75 });
+      await expectTouched();
+      await storage.removeCampaignProduct(placed.id);
+      await expectTouched();
+      await storage.saveCampaignDesign(campaign.id, {}, []);
+      await expectTouched();
+    });
+
+    it("loads the products of several campaigns at once", async () => {
+      const a = await campaignWithProducts();
+      const b = await campaignWithProducts();
+      const inA = await storage.addProductToCampaign({
+        campaignId: a.campaign.id,
+        productId: a.first.id,
+        newPrice: 90,
+      });
+      const inB = await storage.addProductToCampaign({
+        campaignId: b.campaign.id,
+        productId: b.first.id,
+        newPrice: 90,
+      });
+
+      expect(await storage.getCampaignProductsForCampaigns([])).toEqual([]);
+      const ids = (await storage.getCampaignProductsForCampaigns([a.campaign.id, b.campaign.id]))
+        .map((cp) => cp.id)
+        .sort((x, y) => x - y);
+      expect(ids).toEqual([inA.id, inB.id].sort((x, y) => x - y));
+    });
+
+    it("saves a design by updating, inserting and removing placements", async () => {
+      const { campaign, first, second } = await campaignWithProducts();
+      const kept = await storage.addProductToCampaign({
+        campaignId: campaign.id,
+        productId: first.id,
+        newPrice: 90,
+      });
+      const dropped = await storage.addProductToCampaign({
+        campaignId: campaign.id,
+        productId: second.id,
+        newPrice: 95,
+      });
+
+      const result = await storage.saveCampaignDesign(campaign.id, { name: "Saved" }, [
+        { id: kept.id, productId: first.id, newPrice: 85, gridIndex: 0 },
+        { productId: second.id, newPrice: 70, gridIndex: 1 },
+      ]);
+      expect(result?.campaign.name).toBe("Saved");
+      expect(result?.products).toHaveLength(2);
+
+      const stored = await storage.getCampaignProducts(campaign.id);
+      const byGrid = stored.sort((x, y) => (x.gridIndex ?? 0) - (y.gridIndex ?? 0));
+      expect(byGrid.map((cp) => [cp.productId, cp.newPrice])).toEqual([
+        [first.id, 85],
+        [second.id, 70],
+      ]);
+      expect(byGrid[0].id).toBe(kept.id);
+      expect(byGrid.map((cp) => cp.id)).not.toContain(dropped.id);
+
+      expect(await storage.saveCampaignDesign(999999, {}, [])).toBeUndefined();
+    });
+
+    it("creates a campaign together with its placements", async () => {
+      const { campaign: template, first, second } = await campaignWithProducts();
+      const { campaign, products } = await storage.createCampaignDesign(
+        { name: "New", userId: template.userId, organizationId: template.organizationId },
+        [
+          { productId: first.id, newPrice: 85, gridIndex: 0 },
+          { productId: second.id, newPrice: 70, gridIndex: 1 },
+        ]
+      );
+      expect(campaign).toMatchObject({ name: "New", status: "draft" });
+      expect(products.map((cp) => [cp.campaignId, cp.productId, cp.newPrice])).toEqual([
+        [campaign.id, first.id, 85],
+        [campaign.id, second.id, 70],
+      ]);
+      expect(await storage.getCampaignProducts(campaign.id)).toHaveLength(2);
+    });
+  });
+
+  describe("templates and logos", () => {
+    it("scopes templates to the organization", async () => {
+      const { organization, user } = await setup();
+      const template = await storage.createTemplate({
+        name: "Bayram",
+        filePath: "uploads/bayram.png",
+        userId: user.id,
+        organizationId: organization.id,
+      });
+      expect((await storage.getTemplates(organization.id)).map((t) => t.id)).toEqual([template.id]);
+      expect(await storage.deleteTemplate(template.id)).toBe(true);
+      expect(await storage.getTemplate(template.id)).toBeUndefined();
+    });
+
+    it("keeps a single active logo per organization", async () => {
+      const { organization, user } = await setup();
+      const base = { userId: user.id, organizationId: organization.id };
+      const first = await storage.createLogo({ ...base, name: "A", filePath: "uploads/a.png" });
+      const second = await storage.createLogo({ ...base, name: "B", filePath: "uploads/b.png" });
+      expect(first.isActive).toBe(false);
+      expect(await storage.getActiveLogo(organization.id)).toBeUndefined();
+
+      expect(await storage.setActiveLogo(organization.id, first.id)).toBe(true);
+      expect(await storage.setActiveLogo(organization.id, second.id)).toBe(true);
+      expect((await storage.getActiveLogo(organization.id))?.id).toBe(second.id);
+      expect((await storage.getLogo(first.id))?.isActive).toBe(false);
+
+      const other = await setup();
+      expect(await storage.setActiveLogo(other.organization.id, first.id)).toBe(false);
+      expect(await storage.deleteLogo(second.id)).toBe(true);
+      expect(await storage.getLogos(organization.id)).toHaveLength(1);
+    });
+  });
+
+  describe("login attempts", () => {
+    it("filters by username, address and time, newest first", async () => {
+      await setup();
+      const username = `login-${sequence}`;
+      const since = new Date(Date.now() - 1000);
+      const first = await storage.recordLoginAttempt({
+        username,
+        ipAddress: "10.0.0.1",
+        outcome: "failure",
+      });
+      const second = await storage.recordLoginAttempt({
+        username,
+        ipAddress: "10.0.0.2",
+        outcome: "success",
+      });
+
+      const byUser = await storage.getLoginAttempts({ username, since });
+      expect(byUser.map((a) => a.id)).toEqual([second.id, first.id]);
+      const byAddress = await storage.getLoginAttempts({ username, ipAddress: "10.0.0.1", since });
+      expect(byAddress.map((a) => a.id)).toEqual([first.id]);
+      expect(
+        await storage.getLoginAttempts({ username, since: new Date(Date.now() + 60_000) })
+      ).toEqual([]);
+    });
+  });
+
+  describe("audit events", () => {
+    it("filters within the organization, newest first", async () => {
+      const { organization, user } = await setup();
+      const other = await setup();
+      const base = {
+        organizationId: organization.id,
+        actorId: user.id,
+        entityType: "campaign" as const,
+        campaignId: 1,
+        changes: {},
+      };
+      const created = await storage.createAuditEvent({ ...base, entityId: 1, action: "create" });
+      const updated = await storage.createAuditEvent({ ...base, entityId: 1, action: "update" });
+      await storage.createAuditEvent({
+        ...base,
+        organizationId: other.organization.id,
+        entityId: 1,
+        action: "create",
+      });
+
+      const all = await storage.getAuditEvents(organization.id, { limit: 100 });
+      expect(all.map((e) => e.id)).toEqual([updated.id, created.id]);
+      const creates = await storage.getAuditEvents(organization.id, {
+        action: "create",
+        limit: 100,
+      });
+      expect(creates.map((e) => e.id)).toEqual([created.id]);
+      expect(await storage.getAuditEvents(organization.id, { limit: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe("export jobs", () => {
+    it("tracks status, ownership and expiry", async () => {
+      const { organization, user } = await setup();
+      const job = await storage.createExportJob({
+        organizationId: organization.id,
+        campaignId: 1,
+        userId: user.id,
+        fileType: "pdf",
+        fileName: "brochure",
+      });
+      expect(job).toMatchObject({ status: "queued", completedPages: 0, outputFormats: [] });
+      expect((await storage.getExportJobs(user.id)).map((j) => j.id)).toEqual([job.id]);
+      expect((await storage.getExportJobsByStatus(["queued"])).map((j) => j.id)).toContain(job.id);
+
+      const expiresAt = new Date(Date.now() - 1000);
+      await storage.updateExportJob(job.id, { status: "completed", expiresAt });
+      expect((await storage.getExportJob(job.id))?.status).toBe("completed");
+      expect((await storage.getExpiredExportJobs(new Date())).map((j) => j.id)).toContain(job.id);
+
+      expect(await storage.deleteExportJob(job.id)).toBe(true);
+      expect(await storage.deleteExportJob(job.id)).toBe(false);
+    });
+  });
+
+  describe("analytics", () => {
+    it("counts events per dimension within a range", async () => {
+      const { organization } = await setup();
+      const campaignId = 500000 + sequence;
+      const base = { organizationId: organization.id, campaignId, channel: "web" };
+      const before = new Date(Date.now() - 1000);
+      await storage.recordAnalyticsEvent({ ...base, type: "page_view", pageNumber: 1 });
+      await storage.recordAnalyticsEvent({ ...base, type: "product_click", productId: 7 });
+      await storage.recordAnalyticsEvent({ ...base, type: "product_click", channel: "whatsapp" });
+      const after = new Date(Date.now() + 1000);
+
+      const sorted = (counts: { key: string; type: string; count: number }[]) =>
+        [...counts].sort((a, b) => a.key.localeCompare(b.key) || a.type.localeCompare(b.type));
+
+      const today = toAnalyticsDay(new Date());
+      expect(sorted(await storage.countAnalyticsEvents([campaignId], "day", {}))).toEqual([
+        { key: today, type: "page_view", count: 1 },
+        { key: today, type: "product_click", count: 2 },
+      ]);
+      expect(await storage.countAnalyticsEvents([campaignId], "product", {})).toEqual([
+        { key: "7", type: "product_click", count: 1 },
+      ]);
+      expect(
+        sorted(
+          await storage.countAnalyticsEvents([campaignId], "channel", { from: before, to: after })
+        )
+      ).toEqual([
+        { key: "web", type: "page_view", count: 1 },
+        { key: "web", type: "product_click", count: 1 },
+        { key: "whatsapp", type: "product_click", count: 1 },
+      ]);
+      expect(await storage.countAnalyticsEvents([campaignId], "campaign", { from: after })).toEqual(
+        []
+      );
+      expect(await storage.countAnalyticsEvents([campaignId], "campaign", { to: before })).toEqual(
+        []
+      );
+      expect(await storage.countAnalyticsEvents([], "campaign", {})).toEqual([]);
+    });
+
+    it("counts downloads of unsaved drafts for their organization only", async () => {
+      const { organization } = await setup();
+      const other = await setup();
+      const campaignId = 600000 + sequence;
+      const download = { type: "download" as const, channel: "editor", fileType: "png" };
+      await storage.recordAnalyticsEvent({ ...download, organizationId: organization.id });
+      await storage.recordAnalyticsEvent({ ...download, organizationId: other.organization.id });
+      await storage.recordAnalyticsEvent({
+        ...download,
+        organizationId: organization.id,
+        campaignId,
+      });
+
+      expect(await storage.countAnalyticsEvents([campaignId], "campaign", {})).toEqual([
+        { key: String(campaignId), type: "download", count: 1 },
+      ]);
+      const withUnsaved = await storage.countAnalyticsEvents([campaignId], "campaign", {
+        unsavedOf: organization.id,
+      });
+      expect(withUnsaved.sort((a, b) => a.key.localeCompare(b.key))).toEqual([
+        { key: String(campaignId), type: "download", count: 1 },
+        { key: UNSAVED_CAMPAIGN_KEY, type: "download", count: 1 },
+      ]);
+      expect(
+        await storage.countAnalyticsEvents([], "channel", { unsavedOf: organization.id })
+      ).toEqual([{ key: "editor", type: "download", count: 1 }]);
+    });
+  });
+});
@@ -1,25 +1,111 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import { 
-  users, campaigns, products, campaignProducts, templates, logos,
-  type User, type InsertUser, type Campaign, type InsertCampaign,
+  organizations, branches, users, loginAttempts, auditEvents, exportJobs, analyticsEvents,
+  campaigns, products, campaignProducts, templates, logos,
+  type LoginAttempt, type InsertLoginAttempt,
+  type AuditEvent, type InsertAuditEvent, type AuditQuery,
+  type ExportJob, type InsertExportJob, type ExportStatus,
+  type AnalyticsEvent, type InsertAnalyticsEvent, type AnalyticsCount, type AnalyticsDimension,
+  ANALYTICS_TIME_ZONE, UNSAVED_CAMPAIGN_KEY, toAnalyticsDay,
+  type Organization, type InsertOrganization, type Branch, type InsertBranch,
+  type User, type InsertUser, type Campaign, type InsertCampaign, type CampaignStatus,
   type Product, type InsertProduct, type CampaignProduct, type InsertCampaignProduct,
-  type Template, type InsertTemplate, type Logo, type InsertLogo
+  type Template, type InsertTemplate, type Logo, type InsertLogo,
+  type CampaignDesignProduct
 } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+import { hashPasswordSync } from "./passwords";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Login attempts
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  // Newest first
+  getLoginAttempts(filter: { username?: string; ipAddress?: string; since: Date }): Promise<LoginAttempt[]>;
+
+  // Audit log
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // Newest first
+  getAuditEvents(organizationId: number, query: AuditQuery): Promise<AuditEvent[]>;
+
+  // Export jobs
+  createExportJob(job: InsertExportJob): Promise<ExportJob>;
+  getExportJob(id: number): Promise<ExportJob | undefined>;
+  // Newest first
+  getExportJobs(userId: number): Promise<ExportJob[]>;
+  // Oldest first, so interrupted work resumes in order
+  getExportJobsByStatus(statuses: ExportStatus[]): Promise<ExportJob[]>;
+  getExpiredExportJobs(now: Date): Promise<ExportJob[]>;
+  updateExportJob(id: number, updates: Partial<InsertExportJob>): Promise<ExportJob | undefined>;
+  deleteExportJob(id: number): Promise<boolean>;
+
+  // Analytics
+  recordAnalyticsEvent(event: InsertAnalyticsEvent): Promise<AnalyticsEvent>;
+  // Events of the given campaigns counted per type and dimension value;
+  // product counts include only events tied to a product. With
+  // unsavedOf, the downloads of that organization's unsaved drafts count too.
+  countAnalyticsEvents(
+    campaignIds: number[],
+    dimension: AnalyticsDimension,
+    range: { from?: Date; to?: Date; unsavedOf?: number }
+  ): Promise<AnalyticsCount[]>;
+
+  // Organizations
+  getOrganization(id: number): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(
+    id: number,
+    updates: Partial<InsertOrganization>
+  ): Promise<Organization | undefined>;
+
+  // Branches
+  getBranches(organizationId: number): Promise<Branch[]>;
+  getBranch(id: number): Promise<Branch | undefined>;
+  createBranch(branch: InsertBranch): Promise<Branch>;
+  updateBranch(id: number, updates: Partial<InsertBranch>): Promise<Branch | undefined>;
+  deleteBranch(id: number): Promise<boolean>;
+
   // Users
+  getUsers(organizationId: number): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
 
   // Campaigns
-  getCampaigns(userId: number): Promise<Campaign[]>;
+  getCampaigns(organizationId: number): Promise<Campaign[]>;
   getCampaign(id: number): Promise<Campaign | undefined>;
+  getCampaignByShareSlug(slug: string): Promise<Campaign | undefined>;
+  // Across all organizations, for the status scheduler
+  getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]>;
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
   updateCampaign(id: number, campaign: Partial<Campaign>): Promise<Campaign | undefined>;
   deleteCampaign(id: number): Promise<boolean>;
 
   // Products
-  getProducts(search?: string, category?: string): Promise<Product[]>;
+  getProducts(organizationId: number, search?: string, category?: string): Promise<Product[]>;
   getProduct(id: number): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, updates: Partial<Product>): Promise<Product | undefined>;
@@ -27,31 +113,59 @@ export interface IStorage {
 
   // Campaign Products
   getCampaignProducts(campaignId: number): Promise<CampaignProduct[]>;
+  // Placed products of several campaigns at once, for reports
+  getCampaignProductsForCampaigns(campaignIds: number[]): Promise<CampaignProduct[]>;
+  getCampaignProduct(id: number): Promise<CampaignProduct | undefined>;
   addProductToCampaign(campaignProduct: InsertCampaignProduct): Promise<CampaignProduct>;
   updateCampaignProduct(id: number, updates: Partial<CampaignProduct>): Promise<CampaignProduct | undefined>;
   removeCampaignProduct(id: number): Promise<boolean>;
+  // Atomically replaces a campaign's metadata and its placed products
+  saveCampaignDesign(
+    campaignId: number,
+    updates: Partial<InsertCampaign>,
+    items: CampaignDesignProduct[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] } | undefined>;
+  // Creates a campaign together with its placed products, or neither
+  createCampaignDesign(
+    campaign: InsertCampaign,
+    items: Omit<CampaignDesignProduct, "id">[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] }>;
 
   // Templates
-  getTemplates(userId: number): Promise<Template[]>;
+  getTemplates(organizationId: number): Promise<Template[]>;
   getTemplate(id: number): Promise<Template | undefined>;
   createTemplate(template: InsertTemplate): Promise<Template>;
   deleteTemplate(id: number): Promise<boolean>;
 
   // Logos
-  getLogos(userId: number): Promise<Logo[]>;
-  getActiveLogo(userId: number): Promise<Logo | undefined>;
+  getLogos(organizationId: number): Promise<Logo[]>;
+  getLogo(id: number): Promise<Logo | undefined>;
+  getActiveLogo(organizationId: number): Promise<Logo | undefined>;
   createLogo(logo: InsertLogo): Promise<Logo>;
-  setActiveLogo(userId: number, logoId: number): Promise<boolean>;
+  setActiveLogo(organizationId: number, logoId: number): Promise<boolean>;
   deleteLogo(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private loginAttempts: LoginAttempt[];
+  private auditEvents: AuditEvent[];
+  private exportJobs: Map<number, ExportJob>;
+  private analyticsEvents: AnalyticsEvent[];
+  private organizations: Map<number, Organization>;
+  private branches: Map<number, Branch>;
   private users: Map<number, User>;
   private campaigns: Map<number, Campaign>;
   private products: Map<number, Product>;
   private campaignProducts: Map<number, CampaignProduct>;
   private templates: Map<number, Template>;
   private logos: Map<number, Logo>;
+  private currentLoginAttemptId: number;
+  private currentAuditEventId: number;
+  private currentExportJobId: number;
+  private currentAnalyticsEventId: number;
+  private currentOrganizationId: number;
+  private currentBranchId: number;
   private currentUserId: number;
   private currentCampaignId: number;
   private currentProductId: number;
@@ -60,36 +174,78 @@ export class MemStorage implements IStorage {
   private currentLogoId: number;
 
   constructor() {
+    this.loginAttempts = [];
+    this.auditEvents = [];
+    this.exportJobs = new Map();
+    this.analyticsEvents = [];
+    this.organizations = new Map();
+    this.branches = new Map();
     this.users = new Map();
     this.campaigns = new Map();
     this.products = new Map();
     this.campaignProducts = new Map();
     this.templates = new Map();
     this.logos = new Map();
+    this.currentLoginAttemptId = 1;
+    this.currentAuditEventId = 1;
+    this.currentExportJobId = 1;
+    this.currentAnalyticsEventId = 1;
+    this.currentOrganizationId = 1;
+    this.currentBranchId = 1;
     this.currentUserId = 1;
     this.currentCampaignId = 1;
     this.currentProductId = 1;
     this.currentCampaignProductId = 1;
     this.currentTemplateId = 1;
     this.currentLogoId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
 
     this.seedData();
   }
 
   private seedData() {
+    // Create organization and its first branch
+    this.organizations.set(1, {
+      id: 1,
+      name: "Karatay Market",
+      embedOrigins: [],
+      createdAt: new Date(),
+    });
+    this.currentOrganizationId = 2;
+
+    this.branches.set(1, {
+      id: 1,
+      organizationId: 1,
+      name: "İlkadım",
+      address: "Kazımkarabekir Mah. Şht. Sblv. Beylerbeyi Sit. A Blok No:26 İlkadım/SAMSUN",
+      phone: null,
+      instagram: "karataymarket",
+      facebook: "karataymarket",
+      twitter: "karataymarket",
+      createdAt: new Date()
+    });
+    this.currentBranchId = 2;
+
     // Create test user
     const testUser: User = {
       id: 1,
       username: "test",
-      password: "test",
-      name: "Sarah Johnson"
+      password: hashPasswordSync("test"),
+      name: "Sarah Johnson",
+      organizationId: 1,
+      branchId: null,
+      role: "admin"
     };
     this.users.set(1, testUser);
+    this.currentUserId = 2;
 
     // Seed products
     const sampleProducts: Product[] = [
       {
         id: 1,
+        organizationId: 1,
         name: "Premium Wireless Headphones",
         category: "Electronics",
         originalPrice: 199.99,
@@ -98,6 +254,7 @@ export class MemStorage implements IStorage {
       },
       {
         id: 2,
+        organizationId: 1,
         name: "Latest Smartphone Pro",
         category: "Electronics",
         originalPrice: 899.99,
@@ -106,6 +263,7 @@ export class MemStorage implements IStorage {
       },
       {
         id: 3,
+        organizationId: 1,
         name: "Gaming Laptop",
         category: "Electronics",
         originalPrice: 1299.99,
@@ -114,6 +272,7 @@ export class MemStorage implements IStorage {
       },
       {
         id: 4,
+        organizationId: 1,
         name: "Smart Watch",
         category: "Electronics",
         originalPrice: 299.99,
@@ -135,10 +294,19 @@ export class MemStorage implements IStorage {
         description: "Electronics & Gadgets",
         status: "active",
         userId: 1,
+        organizationId: 1,
+        branchId: null,
         templateId: 1,
+        logoId: null,
         companyName: "TechStore Pro",
+        startDate: null,
+        endDate: null,
         validUntil: "Dec 31, 2023",
-        createdAt: new Date("2023-12-15")
+        layout: null,
+        shareSlug: null,
+        sharedAt: null,
+        createdAt: new Date("2023-12-15"),
+        updatedAt: new Date("2023-12-15")
       },
       {
         id: 2,
@@ -146,10 +314,19 @@ export class MemStorage implements IStorage {
         description: "Fashion & Apparel",
         status: "draft",
         userId: 1,
+        organizationId: 1,
+        branchId: null,
         templateId: null,
+        logoId: null,
         companyName: "StyleHub",
+        startDate: null,
+        endDate: null,
         validUntil: "Jan 15, 2024",
-        createdAt: new Date("2023-12-12")
+        layout: null,
+        shareSlug: null,
+        sharedAt: null,
+        createdAt: new Date("2023-12-12"),
+        updatedAt: new Date("2023-12-12")
       },
       {
         id: 3,
@@ -157,10 +334,19 @@ export class MemStorage implements IStorage {
         description: "Mixed Categories",
         status: "completed",
         userId: 1,
+        organizationId: 1,
+        branchId: null,
         templateId: 1,
+        logoId: null,
         companyName: "MegaDeals",
+        startDate: null,
+        endDate: null,
         validUntil: "Nov 30, 2023",
-        createdAt: new Date("2023-11-20")
+        layout: null,
+        shareSlug: null,
+        sharedAt: null,
+        createdAt: new Date("2023-11-20"),
+        updatedAt: new Date("2023-11-20")
       }
     ];
 
@@ -170,7 +356,247 @@ export class MemStorage implements IStorage {
     this.currentCampaignId = 4;
   }
 
+  // Login attempts
+  async recordLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const attempt: LoginAttempt = {
+      id: this.currentLoginAttemptId++,
+      username: insertAttempt.username,
+      ipAddress: insertAttempt.ipAddress,
+      outcome: insertAttempt.outcome,
+      userId: insertAttempt.userId ?? null,
+      createdAt: new Date()
+    };
+    this.loginAttempts.push(attempt);
+    return attempt;
+  }
+
+  async getLoginAttempts(filter: { username?: string; ipAddress?: string; since: Date }): Promise<LoginAttempt[]> {
+    return this.loginAttempts
+      .filter(attempt =>
+        attempt.createdAt >= filter.since &&
+        (filter.username === undefined || attempt.username === filter.username) &&
+        (filter.ipAddress === undefined || attempt.ipAddress === filter.ipAddress)
+      )
+      .reverse();
+  }
+
+  // Audit log
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      id: this.currentAuditEventId++,
+      organizationId: insertEvent.organizationId,
+      actorId: insertEvent.actorId ?? null,
+      entityType: insertEvent.entityType,
+      entityId: insertEvent.entityId,
+      action: insertEvent.action,
+      campaignId: insertEvent.campaignId ?? null,
+      changes: insertEvent.changes,
+      createdAt: new Date()
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(organizationId: number, query: AuditQuery): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter(event =>
+        event.organizationId === organizationId &&
+        (query.entityType === undefined || event.entityType === query.entityType) &&
+        (query.entityId === undefined || event.entityId === query.entityId) &&
+        (query.campaignId === undefined || event.campaignId === query.campaignId) &&
+        (query.actorId === undefined || event.actorId === query.actorId) &&
+        (query.action === undefined || event.action === query.action) &&
+        (query.from === undefined || event.createdAt >= query.from) &&
+        (query.to === undefined || event.createdAt <= query.to)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  // Export jobs
+  async createExportJob(insertJob: InsertExportJob): Promise<ExportJob> {
+    const job: ExportJob = {
+      id: this.currentExportJobId++,
+      organizationId: insertJob.organizationId,
+      campaignId: insertJob.campaignId,
+      userId: insertJob.userId,
+      fileType: insertJob.fileType,
+      outputFormats: insertJob.outputFormats ?? [],
+      slideshow: insertJob.slideshow ?? null,
+      status: insertJob.status ?? "queued",
+      completedPages: insertJob.completedPages ?? 0,
+      totalPages: insertJob.totalPages ?? null,
+      fileName: insertJob.fileName,
+      filePath: insertJob.filePath ?? null,
+      error: insertJob.error ?? null,
+      createdAt: new Date(),
+      finishedAt: insertJob.finishedAt ?? null,
+      expiresAt: insertJob.expiresAt ?? null
+    };
+    this.exportJobs.set(job.id, job);
+    return job;
+  }
+
+  async getExportJob(id: number): Promise<ExportJob | undefined> {
+    return this.exportJobs.get(id);
+  }
+
+  async getExportJobs(userId: number): Promise<ExportJob[]> {
+    return Array.from(this.exportJobs.values())
+      .filter(job => job.userId === userId)
+      .reverse();
+  }
+
+  async getExportJobsByStatus(statuses: ExportStatus[]): Promise<ExportJob[]> {
+    return Array.from(this.exportJobs.values()).filter(job => statuses.includes(job.status));
+  }
+
+  async getExpiredExportJobs(now: Date): Promise<ExportJob[]> {
+    return Array.from(this.exportJobs.values()).filter(
+      job => job.expiresAt !== null && job.expiresAt <= now
+    );
+  }
+
+  async updateExportJob(id: number, updates: Partial<InsertExportJob>): Promise<ExportJob | undefined> {
+    const job = this.exportJobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...updates };
+    this.exportJobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteExportJob(id: number): Promise<boolean> {
+    return this.exportJobs.delete(id);
+  }
+
+  // Analytics
+  async recordAnalyticsEvent(insertEvent: InsertAnalyticsEvent): Promise<AnalyticsEvent> {
+    const event: AnalyticsEvent = {
+      id: this.currentAnalyticsEventId++,
+      organizationId: insertEvent.organizationId,
+      campaignId: insertEvent.campaignId ?? null,
+      type: insertEvent.type,
+      channel: insertEvent.channel,
+      utmSource: insertEvent.utmSource ?? null,
+      utmMedium: insertEvent.utmMedium ?? null,
+      utmCampaign: insertEvent.utmCampaign ?? null,
+      campaignProductId: insertEvent.campaignProductId ?? null,
+      productId: insertEvent.productId ?? null,
+      pageNumber: insertEvent.pageNumber ?? null,
+      fileType: insertEvent.fileType ?? null,
+      createdAt: new Date()
+    };
+    this.analyticsEvents.push(event);
+    return event;
+  }
+
+  async countAnalyticsEvents(
+    campaignIds: number[],
+    dimension: AnalyticsDimension,
+    range: { from?: Date; to?: Date; unsavedOf?: number }
+  ): Promise<AnalyticsCount[]> {
+    const keyOf: Record<AnalyticsDimension, (event: AnalyticsEvent) => string | null> = {
+      day: (event) => toAnalyticsDay(event.createdAt),
+      campaign: (event) =>
+        event.campaignId === null ? UNSAVED_CAMPAIGN_KEY : String(event.campaignId),
+      product: (event) => (event.productId === null ? null : String(event.productId)),
+      channel: (event) => event.channel,
+    };
+
+    const counts = new Map<string, AnalyticsCount>();
+    for (const event of this.analyticsEvents) {
+      const included =
+        event.campaignId === null
+          ? event.organizationId === range.unsavedOf
+          : campaignIds.includes(event.campaignId);
+      if (!included) continue;
+      if (range.from !== undefined && event.createdAt < range.from) continue;
+      if (range.to !== undefined && event.createdAt > range.to) continue;
+
+      const key = keyOf[dimension](event);
+      if (key === null) continue;
+      const id = `${key}\u0000${event.type}`;
+      const count = counts.get(id) ?? { key, type: event.type, count: 0 };
+      count.count++;
+      counts.set(id, count);
+    }
+    return Array.from(counts.values());
+  }
+
+  // Organizations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const id = this.currentOrganizationId++;
+    const organization: Organization = {
+      ...insertOrganization,
+      id,
+      embedOrigins: insertOrganization.embedOrigins ?? [],
+      createdAt: new Date(),
+    };
+    this.organizations.set(id, organization);
+    return organization;
+  }
+
+  async updateOrganization(
+    id: number,
+    updates: Partial<InsertOrganization>
+  ): Promise<Organization | undefined> {
+    const organization = this.organizations.get(id);
+    if (!organization) return undefined;
+
+    const updatedOrganization = { ...organization, ...updates };
+    this.organizations.set(id, updatedOrganization);
+    return updatedOrganization;
+  }
+
+  // Branches
+  async getBranches(organizationId: number): Promise<Branch[]> {
+    return Array.from(this.branches.values()).filter(branch => branch.organizationId === organizationId);
+  }
+
+  async getBranch(id: number): Promise<Branch | undefined> {
+    return this.branches.get(id);
+  }
+
+  async createBranch(insertBranch: InsertBranch): Promise<Branch> {
+    const id = this.currentBranchId++;
+    const branch: Branch = {
+      id,
+      organizationId: insertBranch.organizationId,
+      name: insertBranch.name,
+      address: insertBranch.address || null,
+      phone: insertBranch.phone || null,
+      instagram: insertBranch.instagram || null,
+      facebook: insertBranch.facebook || null,
+      twitter: insertBranch.twitter || null,
+      createdAt: new Date()
+    };
+    this.branches.set(id, branch);
+    return branch;
+  }
+
+  async updateBranch(id: number, updates: Partial<InsertBranch>): Promise<Branch | undefined> {
+    const branch = this.branches.get(id);
+    if (!branch) return undefined;
+
+    const updatedBranch = { ...branch, ...updates };
+    this.branches.set(id, updatedBranch);
+    return updatedBranch;
+  }
+
+  async deleteBranch(id: number): Promise<boolean> {
+    return this.branches.delete(id);
+  }
+
   // Users
+  async getUsers(organizationId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => user.organizationId === organizationId);
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -181,20 +607,46 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      branchId: insertUser.branchId ?? null,
+      role: insertUser.role ?? "viewer"
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
   // Campaigns
-  async getCampaigns(userId: number): Promise<Campaign[]> {
-    return Array.from(this.campaigns.values()).filter(campaign => campaign.userId === userId);
+  async getCampaigns(organizationId: number): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).filter(campaign => campaign.organizationId === organizationId);
   }
 
   async getCampaign(id: number): Promise<Campaign | undefined> {
     return this.campaigns.get(id);
   }
 
+  async getCampaignByShareSlug(slug: string): Promise<Campaign | undefined> {
+    return Array.from(this.campaigns.values()).find((c) => c.shareSlug === slug);
+  }
+
+  async getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).filter((c) => statuses.includes(c.status));
+  }
+
   async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
     const id = this.currentCampaignId++;
     const campaign: Campaign = { 
@@ -203,10 +655,19 @@ export class MemStorage implements IStorage {
       description: insertCampaign.description || null,
       status: insertCampaign.status || "draft",
       userId: insertCampaign.userId,
+      organizationId: insertCampaign.organizationId,
+      branchId: insertCampaign.branchId || null,
       templateId: insertCampaign.templateId || null,
+      logoId: insertCampaign.logoId || null,
       companyName: insertCampaign.companyName || null,
+      startDate: insertCampaign.startDate || null,
+      endDate: insertCampaign.endDate || null,
       validUntil: insertCampaign.validUntil || null,
-      createdAt: new Date() 
+      layout: insertCampaign.layout || null,
+      shareSlug: null,
+      sharedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
     this.campaigns.set(id, campaign);
     return campaign;
@@ -216,18 +677,29 @@ export class MemStorage implements IStorage {
     const campaign = this.campaigns.get(id);
     if (!campaign) return undefined;
 
-    const updatedCampaign = { ...campaign, ...updates };
+    const updatedCampaign = { ...campaign, ...updates, updatedAt: new Date() };
     this.campaigns.set(id, updatedCampaign);
     return updatedCampaign;
   }
 
+  // Changes to placed products count as changes to their campaign
+  private touchCampaign(id: number) {
+    const campaign = this.campaigns.get(id);
+    if (campaign) this.campaigns.set(id, { ...campaign, updatedAt: new Date() });
+  }
+
   async deleteCampaign(id: number): Promise<boolean> {
+    this.campaignProducts.forEach((cp, cpId) => {
+      if (cp.campaignId === id) this.campaignProducts.delete(cpId);
+    });
     return this.campaigns.delete(id);
   }
 
   // Products
-  async getProducts(search?: string, category?: string): Promise<Product[]> {
-    let products = Array.from(this.products.values());
+  async getProducts(organizationId: number, search?: string, category?: string): Promise<Product[]> {
+    let products = Array.from(this.products.values()).filter(
+      product => product.organizationId === organizationId
+    );
 
     if (search) {
       products = products.filter(product => 
@@ -251,6 +723,7 @@ export class MemStorage implements IStorage {
     const id = this.currentProductId++;
     const product: Product = { 
       id,
+      organizationId: insertProduct.organizationId,
       name: insertProduct.name,
       category: insertProduct.category,
       originalPrice: insertProduct.originalPrice,
@@ -279,6 +752,16 @@ export class MemStorage implements IStorage {
     return Array.from(this.campaignProducts.values()).filter(cp => cp.campaignId === campaignId);
   }
 
+  async getCampaignProductsForCampaigns(campaignIds: number[]): Promise<CampaignProduct[]> {
+    return Array.from(this.campaignProducts.values()).filter(cp =>
+      campaignIds.includes(cp.campaignId)
+    );
+  }
+
+  async getCampaignProduct(id: number): Promise<CampaignProduct | undefined> {
+    return this.campaignProducts.get(id);
+  }
+
   async addProductToCampaign(insertCampaignProduct: InsertCampaignProduct): Promise<CampaignProduct> {
     const id = this.currentCampaignProductId++;
     const campaignProduct: CampaignProduct = { 
@@ -289,9 +772,15 @@ export class MemStorage implements IStorage {
       discountPercent: insertCampaignProduct.discountPercent || 0,
       newPrice: insertCampaignProduct.newPrice,
       positionX: insertCampaignProduct.positionX || null,
-      positionY: insertCampaignProduct.positionY || null
+      positionY: insertCampaignProduct.positionY || null,
+      scaleX: insertCampaignProduct.scaleX ?? 1.4,
+      scaleY: insertCampaignProduct.scaleY ?? 1.4,
+      pageNumber: insertCampaignProduct.pageNumber ?? 1,
+      rotation: insertCampaignProduct.rotation ?? 0,
+      gridIndex: insertCampaignProduct.gridIndex ?? null
     };
     this.campaignProducts.set(id, campaignProduct);
+    this.touchCampaign(campaignProduct.campaignId);
     return campaignProduct;
   }
 
@@ -301,16 +790,63 @@ export class MemStorage implements IStorage {
 
     const updated = { ...campaignProduct, ...updates };
     this.campaignProducts.set(id, updated);
+    this.touchCampaign(updated.campaignId);
     return updated;
   }
 
   async removeCampaignProduct(id: number): Promise<boolean> {
-    return this.campaignProducts.delete(id);
+    const campaignProduct = this.campaignProducts.get(id);
+    if (!campaignProduct) return false;
+    this.campaignProducts.delete(id);
+    this.touchCampaign(campaignProduct.campaignId);
+    return true;
+  }
+
+  async saveCampaignDesign(
+    campaignId: number,
+    updates: Partial<InsertCampaign>,
+    items: CampaignDesignProduct[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] } | undefined> {
+    const campaign = await this.updateCampaign(campaignId, updates);
+    if (!campaign) return undefined;
+
+    const existing = await this.getCampaignProducts(campaignId);
+    const keptIds = new Set(
+      items
+        .map((item) => item.id)
+        .filter((id) => existing.some((cp) => cp.id === id))
+    );
+    existing
+      .filter((cp) => !keptIds.has(cp.id))
+      .forEach((cp) => this.campaignProducts.delete(cp.id));
+
+    const products: CampaignProduct[] = [];
+    for (const { id, ...values } of items) {
+      const saved =
+        id !== undefined && keptIds.has(id)
+          ? await this.updateCampaignProduct(id, { ...values, campaignId })
+          : await this.addProductToCampaign({ ...values, campaignId });
+      products.push(saved!);
+    }
+
+    return { campaign, products };
+  }
+
+  async createCampaignDesign(
+    insertCampaign: InsertCampaign,
+    items: Omit<CampaignDesignProduct, "id">[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] }> {
+    const campaign = await this.createCampaign(insertCampaign);
+    const products: CampaignProduct[] = [];
+    for (const values of items) {
+      products.push(await this.addProductToCampaign({ ...values, campaignId: campaign.id }));
+    }
+    return { campaign: (await this.getCampaign(campaign.id))!, products };
   }
 
   // Templates
-  async getTemplates(userId: number): Promise<Template[]> {
-    return Array.from(this.templates.values()).filter(template => template.userId === userId);
+  async getTemplates(organizationId: number): Promise<Template[]> {
+    return Array.from(this.templates.values()).filter(template => template.organizationId === organizationId);
   }
 
   async getTemplate(id: number): Promise<Template | undefined> {
@@ -326,6 +862,7 @@ export class MemStorage implements IStorage {
       filePath: insertTemplate.filePath,
       thumbnailPath: insertTemplate.thumbnailPath || null,
       userId: insertTemplate.userId,
+      organizationId: insertTemplate.organizationId,
       createdAt: new Date() 
     };
     this.templates.set(id, template);
@@ -337,12 +874,16 @@ export class MemStorage implements IStorage {
   }
 
   // Logos
-  async getLogos(userId: number): Promise<Logo[]> {
-    return Array.from(this.logos.values()).filter(logo => logo.userId === userId);
+  async getLogos(organizationId: number): Promise<Logo[]> {
+    return Array.from(this.logos.values()).filter(logo => logo.organizationId === organizationId);
   }
 
-  async getActiveLogo(userId: number): Promise<Logo | undefined> {
-    return Array.from(this.logos.values()).find(logo => logo.userId === userId && logo.isActive);
+  async getLogo(id: number): Promise<Logo | undefined> {
+    return this.logos.get(id);
+  }
+
+  async getActiveLogo(organizationId: number): Promise<Logo | undefined> {
+    return Array.from(this.logos.values()).find(logo => logo.organizationId === organizationId && logo.isActive);
   }
 
   async createLogo(insertLogo: InsertLogo): Promise<Logo> {
@@ -353,23 +894,26 @@ export class MemStorage implements IStorage {
       filePath: insertLogo.filePath,
       isActive: insertLogo.isActive || false,
       userId: insertLogo.userId,
+      organizationId: insertLogo.organizationId,
       createdAt: new Date() 
     };
     this.logos.set(id, logo);
     return logo;
   }
 
-  async setActiveLogo(userId: number, logoId: number): Promise<boolean> {
-    // Set all logos for this user as inactive
-    const userLogos = Array.from(this.logos.values()).filter(logo => logo.userId === userId);
-    userLogos.forEach(logo => {
+  async setActiveLogo(organizationId: number, logoId: number): Promise<boolean> {
+    // Set all logos for this organization as inactive
+    const organizationLogos = Array.from(this.logos.values()).filter(
+      logo => logo.organizationId === organizationId
+    );
+    organizationLogos.forEach(logo => {
       logo.isActive = false;
       this.logos.set(logo.id, logo);
     });
 
     // Set the specified logo as active
     const logo = this.logos.get(logoId);
-    if (logo && logo.userId === userId) {
+    if (logo && logo.organizationId === organizationId) {
       logo.isActive = true;
       this.logos.set(logoId, logo);
       return true;
@@ -382,4 +926,611 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export class DbStorage implements IStorage {
+  constructor(
+    private db: Database,
+    public sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 })
+  ) {}
+
+  // Login attempts
+  async recordLoginAttempt(insertAttempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [attempt] = await this.db.insert(loginAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async getLoginAttempts(filter: { username?: string; ipAddress?: string; since: Date }): Promise<LoginAttempt[]> {
+    return this.db
+      .select()
+      .from(loginAttempts)
+      .where(
+        and(
+          gte(loginAttempts.createdAt, filter.since),
+          filter.username !== undefined ? eq(loginAttempts.username, filter.username) : undefined,
+          filter.ipAddress !== undefined ? eq(loginAttempts.ipAddress, filter.ipAddress) : undefined
+        )
+      )
+      .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id));
+  }
+
+  // Audit log
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getAuditEvents(organizationId: number, query: AuditQuery): Promise<AuditEvent[]> {
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(
+        and(
+          eq(auditEvents.organizationId, organizationId),
+          query.entityType !== undefined ? eq(auditEvents.entityType, query.entityType) : undefined,
+          query.entityId !== undefined ? eq(auditEvents.entityId, query.entityId) : undefined,
+          query.campaignId !== undefined ? eq(auditEvents.campaignId, query.campaignId) : undefined,
+          query.actorId !== undefined ? eq(auditEvents.actorId, query.actorId) : undefined,
+          query.action !== undefined ? eq(auditEvents.action, query.action) : undefined,
+          query.from !== undefined ? gte(auditEvents.createdAt, query.from) : undefined,
+          query.to !== undefined ? lte(auditEvents.createdAt, query.to) : undefined
+        )
+      )
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(query.limit);
+  }
+
+  // Export jobs
+  async createExportJob(insertJob: InsertExportJob): Promise<ExportJob> {
+    const [job] = await this.db.insert(exportJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getExportJob(id: number): Promise<ExportJob | undefined> {
+    const [job] = await this.db.select().from(exportJobs).where(eq(exportJobs.id, id));
+    return job;
+  }
+
+  async getExportJobs(userId: number): Promise<ExportJob[]> {
+    return this.db
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.userId, userId))
+      .orderBy(desc(exportJobs.createdAt), desc(exportJobs.id));
+  }
+
+  async getExportJobsByStatus(statuses: ExportStatus[]): Promise<ExportJob[]> {
+    return this.db
+      .select()
+      .from(exportJobs)
+      .where(inArray(exportJobs.status, statuses))
+      .orderBy(asc(exportJobs.createdAt), asc(exportJobs.id));
+  }
+
+  async getExpiredExportJobs(now: Date): Promise<ExportJob[]> {
+    return this.db.select().from(exportJobs).where(lte(exportJobs.expiresAt, now));
+  }
+
+  async updateExportJob(id: number, updates: Partial<InsertExportJob>): Promise<ExportJob | undefined> {
+    const [job] = await this.db
+      .update(exportJobs)
+      .set(updates)
+      .where(eq(exportJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async deleteExportJob(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(exportJobs)
+      .where(eq(exportJobs.id, id))
+      .returning({ id: exportJobs.id });
+    return deleted.length > 0;
+  }
+
+  // Analytics
+  async recordAnalyticsEvent(insertEvent: InsertAnalyticsEvent): Promise<AnalyticsEvent> {
+    const [event] = await this.db.insert(analyticsEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async countAnalyticsEvents(
+    campaignIds: number[],
+    dimension: AnalyticsDimension,
+    range: { from?: Date; to?: Date; unsavedOf?: number }
+  ): Promise<AnalyticsCount[]> {
+    const sources = [
+      campaignIds.length > 0 ? inArray(analyticsEvents.campaignId, campaignIds) : undefined,
+      range.unsavedOf !== undefined
+        ? and(
+            isNull(analyticsEvents.campaignId),
+            eq(analyticsEvents.organizationId, range.unsavedOf)
+          )
+        : undefined,
+    ].filter((source) => source !== undefined);
+    if (sources.length === 0) return [];
+
+    // created_at holds UTC; the zone and the unsaved key are constants,
+    // inlined so the select and group by expressions match
+    const zone = sql.raw(`'${ANALYTICS_TIME_ZONE}'`);
+    const unsaved = sql.raw(`'${UNSAVED_CAMPAIGN_KEY}'`);
+    const keys: Record<AnalyticsDimension, SQL<string>> = {
+      day: sql<string>`to_char(
+        (${analyticsEvents.createdAt} at time zone 'UTC') at time zone ${zone}, 'YYYY-MM-DD'
+      )`,
+      campaign: sql<string>`coalesce(${analyticsEvents.campaignId}::text, ${unsaved})`,
+      product: sql<string>`${analyticsEvents.productId}::text`,
+      channel: sql<string>`${analyticsEvents.channel}`,
+    };
+    const key = keys[dimension];
+
+    return this.db
+      .select({ key, type: analyticsEvents.type, count: sql<number>`count(*)::int` })
+      .from(analyticsEvents)
+      .where(
+        and(
+          or(...sources),
+          range.from !== undefined ? gte(analyticsEvents.createdAt, range.from) : undefined,
+          range.to !== undefined ? lte(analyticsEvents.createdAt, range.to) : undefined,
+          dimension === "product" ? isNotNull(analyticsEvents.productId) : undefined
+        )
+      )
+      .groupBy(key, analyticsEvents.type);
+  }
+
+  // Organizations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await this.db
+      .insert(organizations)
+      .values(insertOrganization)
+      .returning();
+    return organization;
+  }
+
+  async updateOrganization(
+    id: number,
+    updates: Partial<InsertOrganization>
+  ): Promise<Organization | undefined> {
+    if (Object.keys(updates).length === 0) return this.getOrganization(id);
+
+    const [organization] = await this.db
+      .update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  // Branches
+  async getBranches(organizationId: number): Promise<Branch[]> {
+    return this.db
+      .select()
+      .from(branches)
+      .where(eq(branches.organizationId, organizationId))
+      .orderBy(branches.id);
+  }
+
+  async getBranch(id: number): Promise<Branch | undefined> {
+    const [branch] = await this.db.select().from(branches).where(eq(branches.id, id));
+    return branch;
+  }
+
+  async createBranch(insertBranch: InsertBranch): Promise<Branch> {
+    const [branch] = await this.db.insert(branches).values(insertBranch).returning();
+    return branch;
+  }
+
+  async updateBranch(id: number, updates: Partial<InsertBranch>): Promise<Branch | undefined> {
+    if (Object.keys(updates).length === 0) return this.getBranch(id);
+
+    const [branch] = await this.db
+      .update(branches)
+      .set(updates)
+      .where(eq(branches.id, id))
+      .returning();
+    return branch;
+  }
+
+  async deleteBranch(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(branches)
+      .where(eq(branches.id, id))
+      .returning({ id: branches.id });
+    return deleted.length > 0;
+  }
+
+  // Users
+  async getUsers(organizationId: number): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(eq(users.organizationId, organizationId))
+      .orderBy(users.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) return this.getUser(id);
+
+    const [user] = await this.db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // Campaigns
+  async getCampaigns(organizationId: number): Promise<Campaign[]> {
+    return this.db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.organizationId, organizationId))
+      .orderBy(campaigns.id);
+  }
+
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await this.db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async getCampaignByShareSlug(slug: string): Promise<Campaign | undefined> {
+    const [campaign] = await this.db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.shareSlug, slug));
+    return campaign;
+  }
+
+  async getCampaignsByStatus(statuses: CampaignStatus[]): Promise<Campaign[]> {
+    return this.db
+      .select()
+      .from(campaigns)
+      .where(inArray(campaigns.status, statuses))
+      .orderBy(campaigns.id);
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const [campaign] = await this.db.insert(campaigns).values(insertCampaign).returning();
+    return campaign;
+  }
+
+  async updateCampaign(id: number, updates: Partial<Campaign>): Promise<Campaign | undefined> {
+    const { id: _id, createdAt: _createdAt, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getCampaign(id);
+
+    const [campaign] = await this.db
+      .update(campaigns)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  // Changes to placed products count as changes to their campaign
+  private async touchCampaign(id: number) {
+    await this.db.update(campaigns).set({ updatedAt: new Date() }).where(eq(campaigns.id, id));
+  }
+
+  async deleteCampaign(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(campaignProducts).where(eq(campaignProducts.campaignId, id));
+      const deleted = await tx
+        .delete(campaigns)
+        .where(eq(campaigns.id, id))
+        .returning({ id: campaigns.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Products
+  async getProducts(organizationId: number, search?: string, category?: string): Promise<Product[]> {
+    const conditions: (SQL | undefined)[] = [eq(products.organizationId, organizationId)];
+
+    if (search) {
+      conditions.push(
+        or(ilike(products.name, `%${search}%`), ilike(products.description, `%${search}%`))
+      );
+    }
+
+    if (category && category !== "all") {
+      conditions.push(eq(products.category, category));
+    }
+
+    return this.db
+      .select()
+      .from(products)
+      .where(and(...conditions))
+      .orderBy(products.id);
+  }
+
+  async getProduct(id: number): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await this.db.insert(products).values(insertProduct).returning();
+    return product;
+  }
+
+  async updateProduct(id: number, updates: Partial<Product>): Promise<Product | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getProduct(id);
+
+    const [product] = await this.db
+      .update(products)
+      .set(values)
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  async deleteProduct(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(products)
+      .where(eq(products.id, id))
+      .returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  // Campaign Products
+  async getCampaignProducts(campaignId: number): Promise<CampaignProduct[]> {
+    return this.db
+      .select()
+      .from(campaignProducts)
+      .where(eq(campaignProducts.campaignId, campaignId))
+      .orderBy(campaignProducts.id);
+  }
+
+  async getCampaignProductsForCampaigns(campaignIds: number[]): Promise<CampaignProduct[]> {
+    if (campaignIds.length === 0) return [];
+
+    return this.db
+      .select()
+      .from(campaignProducts)
+      .where(inArray(campaignProducts.campaignId, campaignIds))
+      .orderBy(campaignProducts.id);
+  }
+
+  async getCampaignProduct(id: number): Promise<CampaignProduct | undefined> {
+    const [campaignProduct] = await this.db
+      .select()
+      .from(campaignProducts)
+      .where(eq(campaignProducts.id, id));
+    return campaignProduct;
+  }
+
+  async addProductToCampaign(insertCampaignProduct: InsertCampaignProduct): Promise<CampaignProduct> {
+    const [campaignProduct] = await this.db
+      .insert(campaignProducts)
+      .values(insertCampaignProduct)
+      .returning();
+    await this.touchCampaign(campaignProduct.campaignId);
+    return campaignProduct;
+  }
+
+  async updateCampaignProduct(id: number, updates: Partial<CampaignProduct>): Promise<CampaignProduct | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      const [campaignProduct] = await this.db
+        .select()
+        .from(campaignProducts)
+        .where(eq(campaignProducts.id, id));
+      return campaignProduct;
+    }
+
+    const [campaignProduct] = await this.db
+      .update(campaignProducts)
+      .set(values)
+      .where(eq(campaignProducts.id, id))
+      .returning();
+    if (campaignProduct) await this.touchCampaign(campaignProduct.campaignId);
+    return campaignProduct;
+  }
+
+  async removeCampaignProduct(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(campaignProducts)
+      .where(eq(campaignProducts.id, id))
+      .returning({ campaignId: campaignProducts.campaignId });
+    if (deleted.length === 0) return false;
+    await this.touchCampaign(deleted[0].campaignId);
+    return true;
+  }
+
+  async saveCampaignDesign(
+    campaignId: number,
+    updates: Partial<InsertCampaign>,
+    items: CampaignDesignProduct[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [campaign] = await tx
+        .update(campaigns)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(campaigns.id, campaignId))
+        .returning();
+      if (!campaign) return undefined;
+
+      const existing = await tx
+        .select({ id: campaignProducts.id })
+        .from(campaignProducts)
+        .where(eq(campaignProducts.campaignId, campaignId));
+      const existingIds = new Set(existing.map((cp) => cp.id));
+      const keptIds = new Set(
+        items.flatMap((item) =>
+          item.id !== undefined && existingIds.has(item.id) ? [item.id] : []
+        )
+      );
+
+      const removedIds = existing.map((cp) => cp.id).filter((id) => !keptIds.has(id));
+      if (removedIds.length > 0) {
+        await tx.delete(campaignProducts).where(inArray(campaignProducts.id, removedIds));
+      }
+
+      const products: CampaignProduct[] = [];
+      for (const { id, ...values } of items) {
+        const [saved] =
+          id !== undefined && keptIds.has(id)
+            ? await tx
+                .update(campaignProducts)
+                .set({ ...values, campaignId })
+                .where(eq(campaignProducts.id, id))
+                .returning()
+            : await tx
+                .insert(campaignProducts)
+                .values({ ...values, campaignId })
+                .returning();
+        products.push(saved);
+      }
+
+      return { campaign, products };
+    });
+  }
+
+  async createCampaignDesign(
+    insertCampaign: InsertCampaign,
+    items: Omit<CampaignDesignProduct, "id">[]
+  ): Promise<{ campaign: Campaign; products: CampaignProduct[] }> {
+    return this.db.transaction(async (tx) => {
+      const [campaign] = await tx.insert(campaigns).values(insertCampaign).returning();
+      const products =
+        items.length === 0
+          ? []
+          : await tx
+              .insert(campaignProducts)
+              .values(items.map((values) => ({ ...values, campaignId: campaign.id })))
+              .returning();
+      return { campaign, products };
+    });
+  }
+
+  // Templates
+  async getTemplates(organizationId: number): Promise<Template[]> {
+    return this.db
+      .select()
+      .from(templates)
+      .where(eq(templates.organizationId, organizationId))
+      .orderBy(templates.id);
+  }
+
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(templates)
+      .where(eq(templates.id, id))
+      .returning({ id: templates.id });
+    return deleted.length > 0;
+  }
+
+  // Logos
+  async getLogos(organizationId: number): Promise<Logo[]> {
+    return this.db
+      .select()
+      .from(logos)
+      .where(eq(logos.organizationId, organizationId))
+      .orderBy(logos.id);
+  }
+
+  async getLogo(id: number): Promise<Logo | undefined> {
+    const [logo] = await this.db.select().from(logos).where(eq(logos.id, id));
+    return logo;
+  }
+
+  async getActiveLogo(organizationId: number): Promise<Logo | undefined> {
+    const [logo] = await this.db
+      .select()
+      .from(logos)
+      .where(and(eq(logos.organizationId, organizationId), eq(logos.isActive, true)));
+    return logo;
+  }
+
+  async createLogo(insertLogo: InsertLogo): Promise<Logo> {
+    const [logo] = await this.db.insert(logos).values(insertLogo).returning();
+    return logo;
+  }
+
+  async setActiveLogo(organizationId: number, logoId: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ id: logos.id })
+        .from(logos)
+        .where(and(eq(logos.id, logoId), eq(logos.organizationId, organizationId)));
+      if (!target) return false;
+
+      // Only one active logo per organization
+      await tx
+        .update(logos)
+        .set({ isActive: false })
+        .where(eq(logos.organizationId, organizationId));
+      await tx.update(logos).set({ isActive: true }).where(eq(logos.id, logoId));
+      return true;
+    });
+  }
+
+  async deleteLogo(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(logos)
+      .where(eq(logos.id, id))
+      .returning({ id: logos.id });
+    return deleted.length > 0;
+  }
+}
+
+// STORAGE_DRIVER=memory keeps everything in-process (seeded demo data);
+// STORAGE_DRIVER=postgres uses DATABASE_URL. Defaults to postgres whenever a
+// database is configured.
+function createStorage(): IStorage {
+  const driver =
+    process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres": {
+      const { pool, db } = createDb();
+      return new DbStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+}
+
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,20 @@
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./storage";
+
+// Helpers for the vitest suites; nothing here is used by the app.
+
+// DbStorage over an in-memory Postgres (pglite) with every migration applied
+export async function createPgliteStorage() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: path.join(process.cwd(), "migrations") });
+  return {
+    storage: new DbStorage(db as unknown as Database),
+    close: () => client.close(),
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ITEMS_PER_PAGE,
+  findOverfullPages,
+  getAdaptiveGridGeometry,
+  getProductCell,
+  layoutPages,
+} from "./layout-engine";
+
+// The 4:5 editor canvas
+const WIDTH = 540;
+const HEIGHT = 675;
+
+const items = (count: number, pageNumber = 1) =>
+  Array.from({ length: count }, (_, index) => ({ id: index + 1, pageNumber }));
+
+// Whether two cells share any area; touching edges do not count
+function overlaps(a: { x: number; y: number; width: number; height: number }, b: typeof a) {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+describe("getAdaptiveGridGeometry", () => {
+  it.each([1, 2, 3, 4, 5, 6, 7, 8, 9])("lays out %i products", (count) => {
+    const grid = getAdaptiveGridGeometry(WIDTH, HEIGHT, count);
+    expect(grid.cells).toHaveLength(count);
+    expect(grid).toMatchSnapshot();
+  });
+
+  it("lays wide pages out in rows", () => {
+    expect(getAdaptiveGridGeometry(1500, 500, 5)).toMatchSnapshot();
+  });
+
+  it("never grows past a full grid", () => {
+    const full = getAdaptiveGridGeometry(WIDTH, HEIGHT, MAX_ITEMS_PER_PAGE);
+    expect(getAdaptiveGridGeometry(WIDTH, HEIGHT, 12)).toEqual(full);
+  });
+});
+
+describe("layoutPages", () => {
+  it.each([1, 4, 9])("gives each of %i products a cell of its own", (count) => {
+    const placed = layoutPages(items(count), WIDTH, HEIGHT);
+    expect(placed.map((item) => item.cellIndex)).toEqual(items(count).map((_, index) => index));
+    for (const a of placed) {
+      for (const b of placed) {
+        if (a !== b) expect(overlaps(a.cell, b.cell)).toBe(false);
+      }
+    }
+  });
+
+  it("leaves out products past a full page instead of stacking them", () => {
+    const placed = layoutPages(items(11), WIDTH, HEIGHT);
+    expect(placed.map((item) => item.id)).toEqual(items(MAX_ITEMS_PER_PAGE).map((i) => i.id));
+    expect(placed).toMatchSnapshot();
+  });
+
+  it("lays out each page on its own", () => {
+    const pages = [...items(9, 1), ...items(2, 2).map((item) => ({ ...item, id: item.id + 9 }))];
+    const placed = layoutPages(pages, WIDTH, HEIGHT);
+    expect(placed).toHaveLength(11);
+    expect(placed.filter((item) => item.pageNumber === 2).map((item) => item.cellIndex)).toEqual([
+      0, 1,
+    ]);
+  });
+
+  it("keeps saved cells and falls back to the order on the page", () => {
+    const grid = getAdaptiveGridGeometry(WIDTH, HEIGHT, 3);
+    expect(getProductCell(grid, 2, 0).cellIndex).toBe(2);
+    expect(getProductCell(grid, 7, 1).cellIndex).toBe(1);
+    expect(getProductCell(grid, null, 1).cellIndex).toBe(1);
+  });
+});
+
+describe("findOverfullPages", () => {
+  it("reports pages holding more than a full grid", () => {
+    expect(findOverfullPages(items(9))).toEqual([]);
+    expect(findOverfullPages([...items(10, 2), ...items(3, 1), ...items(12)])).toEqual([1, 2]);
+    expect(findOverfullPages(items(10).map(() => ({ pageNumber: null })))).toEqual([1]);
+  });
+});
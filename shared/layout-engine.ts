@@ -0,0 +1,376 @@
+// Page layout maths shared by the brochure editor and the server renderers:
+// grid cells, the auto-layout arrangement and drag snapping. Pure and
+// deterministic, in design units; nothing here touches React or the DOM.
+
+// Vertical bands around the product grid, in design units
+export interface PageZones {
+  headerHeight: number;
+  // Date banner band between the header and the grid
+  bannerHeight: number;
+  footerHeight: number;
+}
+
+export const DEFAULT_PAGE_ZONES: PageZones = {
+  headerHeight: 120,
+  bannerHeight: 44,
+  footerHeight: 80,
+};
+
+export interface PageGrid {
+  cells: GridCell[];
+  gap: number;
+}
+
+export interface GridCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  innerWidth: number;
+  innerHeight: number;
+}
+
+// Products one page holds: the adaptive grid stops growing at 3x3. Saves that
+// put more on a page are rejected, so every product keeps a cell of its own.
+export const MAX_ITEMS_PER_PAGE = 9;
+
+// Pages holding more products than fit, in ascending order
+export function findOverfullPages(items: { pageNumber?: number | null }[]): number[] {
+  const counts = new Map<number, number>();
+  for (const item of items) {
+    const pageNumber = item.pageNumber ?? 1;
+    counts.set(pageNumber, (counts.get(pageNumber) ?? 0) + 1);
+  }
+  const overfull: number[] = [];
+  counts.forEach((count, pageNumber) => {
+    if (count > MAX_ITEMS_PER_PAGE) overfull.push(pageNumber);
+  });
+  return overfull.sort((a, b) => a - b);
+}
+
+// Adaptive grid geometry up to 9 items per page with deterministic 3x3 growth.
+// Shared so the editor and the server-side renderers place products alike.
+export function getAdaptiveGridGeometry(
+  canvasWidth: number,
+  canvasHeight: number,
+  count: number,
+  zones: PageZones = DEFAULT_PAGE_ZONES
+): PageGrid {
+  const clampedCount = Math.max(1, Math.min(MAX_ITEMS_PER_PAGE, count));
+  const marginX = 40;
+  const gridTop = zones.headerHeight + zones.bannerHeight + 16; // below banner
+  const gridBottomOffset = zones.footerHeight + 16; // above footer
+  const areaX = marginX;
+  const areaY = gridTop;
+  const areaWidth = Math.max(0, canvasWidth - 2 * marginX);
+  const areaHeight = Math.max(0, canvasHeight - gridTop - gridBottomOffset);
+  const gap = 14;
+
+  // Determine rows per column based on desired sequence to reach 3x3
+  const rowsPerColumn: number[] = [1]; // start with 1 column, 1 row
+  if (clampedCount >= 2) rowsPerColumn.push(1); // 2 columns
+  if (clampedCount >= 3) rowsPerColumn[0] = 2; // split left column
+  if (clampedCount >= 4) rowsPerColumn[1] = 2; // split right column
+
+  let remaining = Math.max(0, clampedCount - Math.min(4, clampedCount));
+  // Phase A: grow first two columns up to 3 rows with pattern [0,0,1,1,0,1]
+  const pattern = [0, 0, 1, 1, 0, 1];
+  let pi = 0;
+  while (
+    remaining > 0 &&
+    rowsPerColumn.length >= 2 &&
+    (rowsPerColumn[0] < 3 || rowsPerColumn[1] < 3)
+  ) {
+    const target = pattern[pi % pattern.length];
+    if (rowsPerColumn[target] < 3) {
+      rowsPerColumn[target] += 1;
+      remaining -= 1;
+    }
+    pi += 1;
+  }
+
+  // Phase B: add third column and fill to 3
+  if (remaining > 0 && rowsPerColumn.length < 3) {
+    rowsPerColumn.push(1);
+    remaining -= 1;
+  }
+  while (remaining > 0 && rowsPerColumn.length >= 3 && rowsPerColumn[2] < 3) {
+    rowsPerColumn[2] += 1;
+    remaining -= 1;
+  }
+
+  // Clamp to max lanes 3 and cells per lane 3
+  const lanes = Math.min(3, rowsPerColumn.length);
+  const cellsPerLane = rowsPerColumn.slice(0, lanes).map((r) => Math.min(3, r));
+
+  // Lanes are columns; wide areas (web banners) turn them into rows instead
+  const transposed = areaWidth > 2 * areaHeight;
+  const across = transposed ? areaHeight : areaWidth;
+  const along = transposed ? areaWidth : areaHeight;
+
+  // Equal-size lanes, each split into equal-size cells
+  const totalLaneGaps = gap * (lanes - 1);
+  const laneSize = Math.floor((across - totalLaneGaps) / lanes);
+  const laneStart = Math.floor((across - (laneSize * lanes + totalLaneGaps)) / 2);
+
+  const cells: GridCell[] = [];
+  for (let c = 0; c < lanes; c++) {
+    const laneOffset = laneStart + c * (laneSize + gap);
+    const cellsInLane = cellsPerLane[c];
+    const totalCellGaps = gap * (cellsInLane - 1);
+    const cellSize = Math.floor((along - totalCellGaps) / cellsInLane);
+    const cellStart = Math.floor((along - (cellSize * cellsInLane + totalCellGaps)) / 2);
+    for (let r = 0; r < cellsInLane; r++) {
+      const cellOffset = cellStart + r * (cellSize + gap);
+      const cellX = areaX + (transposed ? cellOffset : laneOffset);
+      const cellY = areaY + (transposed ? laneOffset : cellOffset);
+      const width = Math.max(60, transposed ? cellSize : laneSize);
+      const height = Math.max(60, transposed ? laneSize : cellSize);
+      const innerPad = 4;
+      cells.push({
+        x: cellX,
+        y: cellY,
+        width,
+        height,
+        innerWidth: Math.max(40, width - innerPad * 2),
+        innerHeight: Math.max(40, height - innerPad * 2),
+      });
+    }
+  }
+
+  return { cells, gap };
+}
+
+// A placed product as the engine sees it
+export interface LayoutItem {
+  id: number;
+  pageNumber: number;
+  // Saved grid cell; null for products that were never placed
+  gridIndex?: number | null;
+}
+
+export interface PlacedItem {
+  id: number;
+  pageNumber: number;
+  cellIndex: number;
+  cell: GridCell;
+}
+
+// Cell a product is drawn in. Products without a valid saved cell take the
+// cell matching their order on the page.
+export function getProductCell(
+  grid: PageGrid,
+  gridIndex: number | null | undefined,
+  indexInPage = 0
+): { cellIndex: number; cell: GridCell } {
+  const last = grid.cells.length - 1;
+  const cellIndex =
+    gridIndex != null && gridIndex >= 0 && gridIndex <= last
+      ? gridIndex
+      : Math.min(indexInPage, last);
+  return { cellIndex, cell: grid.cells[cellIndex] };
+}
+
+// Places the products into the adaptive grid of their page, in input order.
+// Products past a full grid (rows saved before the cap) are left out, as in
+// the editor, instead of being drawn over another product.
+export function layoutPages(
+  items: LayoutItem[],
+  canvasWidth: number,
+  canvasHeight: number,
+  zones: PageZones = DEFAULT_PAGE_ZONES
+): PlacedItem[] {
+  const pages = new Map<number, LayoutItem[]>();
+  for (const item of items) {
+    pages.set(item.pageNumber, [...(pages.get(item.pageNumber) ?? []), item]);
+  }
+
+  const placed: PlacedItem[] = [];
+  pages.forEach((pageItems, pageNumber) => {
+    const shown = pageItems.slice(0, MAX_ITEMS_PER_PAGE);
+    const grid = getAdaptiveGridGeometry(canvasWidth, canvasHeight, shown.length, zones);
+    shown.forEach((item, indexInPage) => {
+      const { cellIndex, cell } = getProductCell(grid, item.gridIndex, indexInPage);
+      placed.push({ id: item.id, pageNumber, cellIndex, cell });
+    });
+  });
+  return placed;
+}
+
+export interface DynamicLayout {
+  gridCols: number;
+  gridRows: number;
+  productSize: number;
+  availableWidth: number;
+  availableHeight: number;
+  marginX: number;
+  marginY: number;
+}
+
+// Product size and grid shape for a page based on how many products it holds
+export function calculateDynamicLayout(
+  productCount: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  zones: PageZones = DEFAULT_PAGE_ZONES
+): DynamicLayout {
+  const marginX = 40;
+  // Area between the date banner and the footer
+  const gridTop = zones.headerHeight + zones.bannerHeight + 16;
+  const gridBottomOffset = zones.footerHeight + 16;
+  const marginY = gridTop; // starting y for products
+  const availableWidth = canvasWidth - 2 * marginX;
+  const availableHeight = canvasHeight - gridTop - gridBottomOffset;
+
+  let gridCols, gridRows, productSize;
+
+  if (productCount === 1) {
+    gridCols = 1;
+    gridRows = 1;
+    // Maximum size for single product to fully utilize space
+    productSize = Math.min(380, availableWidth * 0.9, availableHeight * 0.8);
+  } else if (productCount === 2) {
+    gridCols = 2;
+    gridRows = 1;
+    // Very large size for 2 products to fill most of the width
+    productSize = Math.min(300, (availableWidth - 20) / 2);
+  } else if (productCount === 3) {
+    gridCols = 3;
+    gridRows = 1;
+    // Large size for 3 products to fill the width completely
+    productSize = Math.min(240, (availableWidth - 40) / 3);
+  } else if (productCount === 4) {
+    gridCols = 2;
+    gridRows = 2;
+    // Large 2x2 grid filling most of the available space
+    productSize = Math.min(220, Math.min((availableWidth - 20) / 2, (availableHeight - 20) / 2));
+  } else if (productCount <= 6) {
+    gridCols = 3;
+    gridRows = 2;
+    // 3x2 grid with decent sizing
+    productSize = Math.min(150, Math.min((availableWidth - 60) / 3, (availableHeight - 30) / 2));
+  } else if (productCount <= 9) {
+    gridCols = 3;
+    gridRows = 3;
+    // 3x3 grid with moderate sizing
+    productSize = Math.min(130, Math.min((availableWidth - 60) / 3, (availableHeight - 60) / 3));
+  } else if (productCount <= 12) {
+    gridCols = 4;
+    gridRows = 3;
+    // 4x3 grid for better organization
+    productSize = Math.min(110, Math.min((availableWidth - 90) / 4, (availableHeight - 60) / 3));
+  } else {
+    gridCols = 4;
+    gridRows = Math.ceil(productCount / 4);
+    // Compact sizing for many products
+    productSize = Math.min(
+      100,
+      Math.min((availableWidth - 90) / 4, (availableHeight - (gridRows - 1) * 20) / gridRows)
+    );
+  }
+
+  return {
+    gridCols,
+    gridRows,
+    productSize: Math.max(90, productSize), // Higher minimum size constraint
+    availableWidth,
+    availableHeight,
+    marginX,
+    marginY,
+  };
+}
+
+// Auto layout: arranges each page's products in a centred grid with
+// balanced gaps, keyed by product id
+export function getAutoLayoutPositions(
+  items: Pick<LayoutItem, "id" | "pageNumber">[],
+  canvasWidth: number,
+  canvasHeight: number,
+  zones: PageZones = DEFAULT_PAGE_ZONES
+): Record<number, { x: number; y: number }> {
+  const pages = new Map<number, number[]>();
+  for (const item of items) {
+    pages.set(item.pageNumber, [...(pages.get(item.pageNumber) ?? []), item.id]);
+  }
+
+  const positions: Record<number, { x: number; y: number }> = {};
+  pages.forEach((ids) => {
+    const itemsInPage = ids.length;
+    const layout = calculateDynamicLayout(itemsInPage, canvasWidth, canvasHeight, zones);
+    const minGap = 20; // Minimum gap between products
+    const gapX =
+      layout.gridCols > 1
+        ? Math.max(
+            minGap,
+            (layout.availableWidth - layout.gridCols * layout.productSize) / (layout.gridCols - 1)
+          )
+        : 0;
+    const gapY =
+      layout.gridRows > 1
+        ? Math.max(
+            minGap,
+            (layout.availableHeight - layout.gridRows * layout.productSize) /
+              (layout.gridRows - 1)
+          )
+        : 0;
+    const actualSpaceX = layout.productSize + gapX;
+    const actualSpaceY = layout.productSize + gapY;
+
+    // Center the grid for optimal visual balance
+    const actualRowsUsed = Math.ceil(itemsInPage / layout.gridCols);
+    const totalGridWidth = (layout.gridCols - 1) * actualSpaceX + layout.productSize;
+    const totalGridHeight = (actualRowsUsed - 1) * actualSpaceY + layout.productSize;
+    const offsetX = (layout.availableWidth - totalGridWidth) / 2;
+    const offsetY = (layout.availableHeight - totalGridHeight) / 2;
+
+    ids.forEach((id, indexInPage) => {
+      const col = indexInPage % layout.gridCols;
+      const row = Math.floor(indexInPage / layout.gridCols);
+      positions[id] = {
+        x: layout.marginX + offsetX + col * actualSpaceX,
+        y: layout.marginY + offsetY + row * actualSpaceY,
+      };
+    });
+  });
+  return positions;
+}
+
+// Index of the cell whose top-left corner is closest to the point
+export function findNearestCell(cells: GridCell[], point: { x: number; y: number }): number {
+  let nearestIndex = 0;
+  let nearestDist = Number.MAX_VALUE;
+  cells.forEach((cell, idx) => {
+    const dx = point.x - cell.x;
+    const dy = point.y - cell.y;
+    const d = dx * dx + dy * dy;
+    if (d < nearestDist) {
+      nearestDist = d;
+      nearestIndex = idx;
+    }
+  });
+  return nearestIndex;
+}
+
+export interface SnapResult {
+  cellIndex: number;
+  // Product that was in the target cell and moves to the dragged product's old cell
+  swapped?: { id: number; cellIndex: number };
+}
+
+// Drops a dragged product on the nearest cell of its page. `assignments`
+// maps the page's product ids to their current cells.
+export function snapToNearestCell(
+  cells: GridCell[],
+  point: { x: number; y: number },
+  draggedId: number,
+  assignments: Record<number, number | null | undefined>
+): SnapResult {
+  const cellIndex = findNearestCell(cells, point);
+  const previous = assignments[draggedId];
+  const occupant = Object.entries(assignments).find(
+    ([id, index]) => Number(id) !== draggedId && index === cellIndex
+  );
+  if (!occupant || previous == null) return { cellIndex };
+
+  return { cellIndex, swapped: { id: Number(occupant[0]), cellIndex: previous } };
+}
@@ -0,0 +1,192 @@
+import { z } from "zod";
+import {
+  DEFAULT_BLEED_MM,
+  DEFAULT_SAFE_MARGIN_MM,
+  PRINT_PRESETS,
+  mmToPx,
+  printPresets,
+  type PrintPreset,
+} from "./print";
+import { DEFAULT_PAGE_ZONES, type PageZones } from "./layout-engine";
+
+// Campaign-level brochure design saved alongside a campaign. Per-product state
+// (position, scale, rotation, page, grid cell) lives on campaign_products.
+// Bump BROCHURE_LAYOUT_VERSION and upgrade old documents in
+// parseBrochureLayout whenever the shape changes incompatibly.
+export const BROCHURE_LAYOUT_VERSION = 1;
+
+const pointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+export const instagramFormats = ["4:5", "1:1"] as const;
+export type InstagramFormat = (typeof instagramFormats)[number];
+
+// Extra formats a campaign is published in besides the editor canvas. Each
+// one re-flows the same pages and grid cells into its own geometry.
+export const outputFormats = ["instagram_post", "instagram_story", "a4", "web_banner"] as const;
+export type OutputFormat = (typeof outputFormats)[number];
+
+export const DEFAULT_TITLE_FONT =
+  "'Anton', 'Gotham', 'TT Fors', 'Bebas Neue', 'Montserrat', 'Arial Black', sans-serif";
+
+export const brochureLayoutSchema = z.object({
+  version: z.literal(BROCHURE_LAYOUT_VERSION).default(BROCHURE_LAYOUT_VERSION),
+  pageCount: z.number().int().min(1).max(50).default(1),
+  instagramFormat: z.enum(instagramFormats).default("4:5"),
+  // Paper size for print output; null designs for Instagram
+  printPreset: z.enum(printPresets).nullable().default(null),
+  bleedMm: z.number().min(0).max(10).default(DEFAULT_BLEED_MM),
+  safeMarginMm: z.number().min(0).max(30).default(DEFAULT_SAFE_MARGIN_MM),
+  outputFormats: z.array(z.enum(outputFormats)).default([]),
+  // Keyed by page number (1-based); null means the default background
+  pageTemplates: z.record(z.string(), z.number().int().nullable()).default({}),
+  showCompanyName: z.boolean().default(true),
+  titleColor: z.string().default("#ffffff"),
+  titleFont: z.string().default(DEFAULT_TITLE_FONT),
+  footerBgColor: z.string().default("transparent"),
+  // Footer contact details, copied from the campaign's branch when picked
+  footerAddress: z.string().default(""),
+  social: z
+    .object({
+      instagram: z.string().default(""),
+      facebook: z.string().default(""),
+      twitter: z.string().default(""),
+    })
+    .default({}),
+  elementPositions: z
+    .object({
+      companyName: pointSchema.default({ x: 16, y: 16 }),
+      dateRange: pointSchema.default({ x: 450, y: 32 }),
+    })
+    .default({}),
+  // Keyed by page number (1-based)
+  datePositions: z.record(z.string(), pointSchema).default({}),
+});
+
+export type BrochureLayout = z.infer<typeof brochureLayoutSchema>;
+
+export const DEFAULT_BROCHURE_LAYOUT: BrochureLayout = brochureLayoutSchema.parse({});
+
+export function parseBrochureLayout(input: unknown): BrochureLayout {
+  return brochureLayoutSchema.parse(input ?? {});
+}
+
+// Size of a page in editor units (CSS px at design zoom), half the exported
+// Instagram resolution
+export const DESIGN_CANVAS_SIZES: Record<InstagramFormat, { width: number; height: number }> = {
+  "4:5": { width: 540, height: 675 },
+  "1:1": { width: 540, height: 540 },
+};
+
+// Print pages keep the 540-unit width and take the paper's aspect ratio, so
+// the header, grid and footer maths stay the same
+export function getDesignCanvasSize(
+  layout: Pick<BrochureLayout, "instagramFormat" | "printPreset">
+): { width: number; height: number } {
+  if (!layout.printPreset) return DESIGN_CANVAS_SIZES[layout.instagramFormat];
+
+  const { widthMm, heightMm } = PRINT_PRESETS[layout.printPreset];
+  const width = DESIGN_CANVAS_SIZES["4:5"].width;
+  return { width, height: Math.round((width * heightMm) / widthMm) };
+}
+
+// A page size plus the zones and paper it is laid out with
+export interface PageGeometry {
+  width: number;
+  height: number;
+  zones: PageZones;
+  printPreset: PrintPreset | null;
+  // Pixel size of raster exports
+  exportWidth: number;
+  exportHeight: number;
+}
+
+export interface OutputFormatSpec extends PageGeometry {
+  label: string;
+  description: string;
+}
+
+const a4 = PRINT_PRESETS.A4;
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatSpec> = {
+  instagram_post: {
+    label: "Instagram post",
+    description: "4:5, 1080x1350 px",
+    width: 540,
+    height: 675,
+    zones: DEFAULT_PAGE_ZONES,
+    printPreset: null,
+    exportWidth: 1080,
+    exportHeight: 1350,
+  },
+  // Stories keep the top and bottom clear of Instagram's own controls
+  instagram_story: {
+    label: "Instagram story",
+    description: "9:16, 1080x1920 px",
+    width: 540,
+    height: 960,
+    zones: { headerHeight: 160, bannerHeight: 44, footerHeight: 120 },
+    printPreset: null,
+    exportWidth: 1080,
+    exportHeight: 1920,
+  },
+  a4: {
+    label: "A4",
+    description: `${a4.widthMm}x${a4.heightMm} mm`,
+    width: 540,
+    height: Math.round((540 * a4.heightMm) / a4.widthMm),
+    zones: DEFAULT_PAGE_ZONES,
+    printPreset: "A4",
+    exportWidth: mmToPx(a4.widthMm),
+    exportHeight: mmToPx(a4.heightMm),
+  },
+  // The date badge shares the short header with the company name
+  web_banner: {
+    label: "Web banner",
+    description: "12:5, 1920x800 px",
+    width: 960,
+    height: 400,
+    zones: { headerHeight: 72, bannerHeight: 0, footerHeight: 48 },
+    printPreset: null,
+    exportWidth: 1920,
+    exportHeight: 800,
+  },
+};
+
+// Geometry of the editor canvas, or of one of the campaign's output formats
+export function getPageGeometry(
+  layout: Pick<BrochureLayout, "instagramFormat" | "printPreset">,
+  format?: OutputFormat | null
+): PageGeometry {
+  if (format) return OUTPUT_FORMATS[format];
+
+  const { width, height } = getDesignCanvasSize(layout);
+  const paper = layout.printPreset ? PRINT_PRESETS[layout.printPreset] : null;
+  return {
+    width,
+    height,
+    zones: DEFAULT_PAGE_ZONES,
+    printPreset: layout.printPreset,
+    exportWidth: paper ? mmToPx(paper.widthMm) : width * 2,
+    exportHeight: paper ? mmToPx(paper.heightMm) : height * 2,
+  };
+}
+
+// Moves a header/footer element placed on one page geometry onto another:
+// elements on the right half keep their distance from the right edge and
+// elements in the footer keep their distance from the bottom.
+export function reflowPoint(
+  point: { x: number; y: number },
+  from: PageGeometry,
+  to: PageGeometry
+): { x: number; y: number } {
+  const x = point.x > from.width / 2 ? point.x + to.width - from.width : point.x;
+  const inFooter = point.y > from.height - from.zones.footerHeight;
+  const y = inFooter ? point.y + to.height - from.height : point.y;
+  return {
+    x: Math.max(0, Math.min(x, to.width - 16)),
+    y: Math.max(0, Math.min(y, to.height - 16)),
+  };
+}
@@ -0,0 +1,85 @@
+// Paper sizes and print-shop geometry shared by the editor guides, the
+// browser raster export and the server PDF. All lengths are millimetres
+// unless the name says otherwise.
+
+export const printPresets = ["A4", "A3", "A5", "DL"] as const;
+export type PrintPreset = (typeof printPresets)[number];
+
+export interface PaperSize {
+  label: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const PRINT_PRESETS: Record<PrintPreset, PaperSize> = {
+  A4: { label: "A4", widthMm: 210, heightMm: 297 },
+  A3: { label: "A3", widthMm: 297, heightMm: 420 },
+  A5: { label: "A5", widthMm: 148, heightMm: 210 },
+  // One panel of an A4 sheet folded in three
+  DL: { label: "DL", widthMm: 99, heightMm: 210 },
+};
+
+export const PRINT_DPI = 300;
+export const DEFAULT_BLEED_MM = 3;
+export const DEFAULT_SAFE_MARGIN_MM = 5;
+
+// Crop marks start this far outside the bleed and are this long
+const CROP_MARK_OFFSET_MM = 2;
+const CROP_MARK_LENGTH_MM = 5;
+
+export const mmToPt = (mm: number) => (mm * 72) / 25.4;
+export const mmToPx = (mm: number, dpi = PRINT_DPI) => Math.round((mm / 25.4) * dpi);
+
+export interface PrintSheet {
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  // Distance from the sheet edge to the trim line
+  trimOffset: number;
+  sheetWidth: number;
+  sheetHeight: number;
+}
+
+// The printed sheet: trimmed page, bleed around it and a slug wide enough
+// for the crop marks
+export function getPrintSheet(preset: PrintPreset, bleedMm: number): PrintSheet {
+  const { widthMm, heightMm } = PRINT_PRESETS[preset];
+  const trimOffset = bleedMm + CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM;
+  return {
+    trimWidth: widthMm,
+    trimHeight: heightMm,
+    bleed: bleedMm,
+    trimOffset,
+    sheetWidth: widthMm + 2 * trimOffset,
+    sheetHeight: heightMm + 2 * trimOffset,
+  };
+}
+
+export interface CropMark {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Two marks per corner in line with the trim edges, measured from the
+// sheet's top-left corner
+export function getCropMarks(sheet: PrintSheet): CropMark[] {
+  const left = sheet.trimOffset;
+  const top = sheet.trimOffset;
+  const right = sheet.trimOffset + sheet.trimWidth;
+  const bottom = sheet.trimOffset + sheet.trimHeight;
+  const near = sheet.bleed + CROP_MARK_OFFSET_MM;
+  const far = near + CROP_MARK_LENGTH_MM;
+
+  return [left, right].flatMap((x) => {
+    const outward = x === left ? -1 : 1;
+    return [top, bottom].flatMap((y) => {
+      const down = y === top ? -1 : 1;
+      return [
+        { x1: x + outward * near, y1: y, x2: x + outward * far, y2: y },
+        { x1: x, y1: y + down * near, x2: x, y2: y + down * far },
+      ];
+    });
+  });
+}
@@ -1,31 +1,151 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  brochureLayoutSchema,
+  outputFormats,
+  type BrochureLayout,
+  type OutputFormat,
+} from "./layout";
+import { MAX_ITEMS_PER_PAGE, findOverfullPages } from "./layout-engine";
+
+// admin: everything in the organization, including users and branches
+// designer: campaigns, products, templates and logos
+// branch_manager: campaigns of their own branch
+// viewer: read-only
+export const userRoles = ["admin", "designer", "branch_manager", "viewer"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const userRoleLabels: Record<UserRole, string> = {
+  admin: "Admin",
+  designer: "Designer",
+  branch_manager: "Branch Manager",
+  viewer: "Viewer",
+};
+
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // Sites allowed to embed shared brochures, as origins ("https://shop.example")
+  embedOrigins: jsonb("embed_origins").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Store branches; address and social handles feed the brochure footer
+export const branches = pgTable("branches", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  address: text("address"),
+  phone: text("phone"),
+  instagram: text("instagram"),
+  facebook: text("facebook"),
+  twitter: text("twitter"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  organizationId: integer("organization_id").notNull(),
+  branchId: integer("branch_id"), // null for HQ staff
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
 });
 
+// Drafts are set by hand; published campaigns move between scheduled, active
+// and completed with their dates (see campaignStatusOn)
+export const campaignStatuses = ["draft", "scheduled", "active", "completed"] as const;
+export type CampaignStatus = (typeof campaignStatuses)[number];
+
+// Drafts are not ready for the public and completed campaigns have ended
+export const shareableCampaignStatuses: readonly CampaignStatus[] = ["scheduled", "active"];
+
 export const campaigns = pgTable("campaigns", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("draft"), // draft, active, completed
+  status: text("status").$type<CampaignStatus>().notNull().default("draft"),
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id").notNull(),
+  branchId: integer("branch_id"), // null for chain-wide campaigns
   templateId: integer("template_id"),
   logoId: integer("logo_id"),
   companyName: text("company_name"),
   startDate: timestamp("start_date"),
   endDate: timestamp("end_date"),
   validUntil: text("valid_until"),
+  layout: jsonb("layout").$type<BrochureLayout>(),
+  // Public link at /b/:shareSlug; null while the campaign is not shared
+  shareSlug: text("share_slug").unique(),
+  sharedAt: timestamp("shared_at"),
   createdAt: timestamp("created_at").defaultNow(),
+  // Last change to the campaign or its placed products
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// The stores' local calendar. Campaign dates, analytics days and printed
+// dates all count days in it.
+export const BUSINESS_TIME_ZONE = "Europe/Istanbul";
+
+const businessDayFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: BUSINESS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// YYYY-MM-DD of the local day the moment falls on
+export const toBusinessDay = (date: Date) => businessDayFormat.format(date);
+
+// Status of a published campaign on the local day of `now`: scheduled before
+// its start date, completed after its end date and active in between, both
+// days included. Drafts, and campaigns without dates, keep their status.
+export function campaignStatusOn(
+  campaign: Pick<Campaign, "status" | "startDate" | "endDate">,
+  now = new Date()
+): CampaignStatus {
+  if (campaign.status === "draft" || (!campaign.startDate && !campaign.endDate)) {
+    return campaign.status;
+  }
+  const today = toBusinessDay(now);
+  if (campaign.startDate && today < toBusinessDay(new Date(campaign.startDate))) {
+    return "scheduled";
+  }
+  if (campaign.endDate && today > toBusinessDay(new Date(campaign.endDate))) {
+    return "completed";
+  }
+  return "active";
+}
+
+// First and last local day a campaign runs, as YYYY-MM-DD. Without an end
+// date it runs on indefinitely (last is null); without a start date it has
+// no range.
+export function campaignDays(
+  campaign: Pick<Campaign, "startDate" | "endDate">
+): { first: string; last: string | null } | null {
+  if (!campaign.startDate) return null;
+  return {
+    first: toBusinessDay(new Date(campaign.startDate)),
+    last: campaign.endDate ? toBusinessDay(new Date(campaign.endDate)) : null,
+  };
+}
+
+// Whether two campaigns run on at least one common day
+export function campaignsOverlap(
+  a: Pick<Campaign, "startDate" | "endDate">,
+  b: Pick<Campaign, "startDate" | "endDate">
+): boolean {
+  const x = campaignDays(a);
+  const y = campaignDays(b);
+  if (!x || !y) return false;
+  return (x.last === null || y.first <= x.last) && (y.last === null || x.first <= y.last);
+}
+
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
   name: text("name").notNull(),
   category: text("category").notNull(),
   originalPrice: real("original_price").notNull(),
@@ -45,6 +165,8 @@ export const campaignProducts = pgTable("campaign_products", {
   scaleX: real("scale_x").default(1.4),
   scaleY: real("scale_y").default(1.4),
   pageNumber: integer("page_number").default(1),
+  rotation: real("rotation").default(0),
+  gridIndex: integer("grid_index"), // cell in the page's adaptive grid
 });
 
 export const templates = pgTable("templates", {
@@ -53,7 +175,8 @@ export const templates = pgTable("templates", {
   description: text("description"),
   filePath: text("file_path").notNull(),
   thumbnailPath: text("thumbnail_path"),
-  userId: integer("user_id").notNull(),
+  userId: integer("user_id").notNull(), // uploader
+  organizationId: integer("organization_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -61,21 +184,343 @@ export const logos = pgTable("logos", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   filePath: text("file_path").notNull(),
-  isActive: boolean("is_active").notNull().default(false),
-  userId: integer("user_id").notNull(),
+  isActive: boolean("is_active").notNull().default(false), // one per organization
+  userId: integer("user_id").notNull(), // uploader
+  organizationId: integer("organization_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Every sign-in attempt, kept as an audit trail and used for throttling.
+// "blocked" attempts were rejected by the throttle without checking the password.
+export const loginOutcomes = ["success", "failure", "blocked"] as const;
+export type LoginOutcome = (typeof loginOutcomes)[number];
+
+export const loginAttempts = pgTable(
+  "login_attempts",
+  {
+    id: serial("id").primaryKey(),
+    username: text("username").notNull(),
+    ipAddress: text("ip_address").notNull(),
+    outcome: text("outcome").$type<LoginOutcome>().notNull(),
+    userId: integer("user_id"), // set when the username matched an account
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("login_attempts_username_idx").on(table.username, table.createdAt),
+    index("login_attempts_ip_address_idx").on(table.ipAddress, table.createdAt),
+  ]
+);
+
+// Who changed what. `changes` maps each changed field to its old and new
+// value; creates have only "after" values and deletes only "before" values.
+export const auditEntityTypes = [
+  "campaign",
+  "campaign_product",
+  "product",
+  "template",
+  "logo",
+  "branch",
+  "user",
+] as const;
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+
+export const auditActions = ["create", "update", "delete"] as const;
+export type AuditAction = (typeof auditActions)[number];
+
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull(),
+    actorId: integer("actor_id"),
+    entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+    entityId: integer("entity_id").notNull(),
+    action: text("action").$type<AuditAction>().notNull(),
+    // Campaign the entity belongs to, so a campaign's history includes its products
+    campaignId: integer("campaign_id"),
+    changes: jsonb("changes").$type<AuditChanges>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("audit_events_entity_idx").on(table.entityType, table.entityId),
+    index("audit_events_campaign_idx").on(table.campaignId),
+    index("audit_events_organization_created_idx").on(table.organizationId, table.createdAt),
+  ]
+);
+
+// Background brochure exports. A job renders the editor canvas, or each of
+// outputFormats, as a PDF or page images; several files are zipped. The
+// artifact is written under exports/ and removed together with the row once
+// expiresAt has passed.
+export const exportFileTypes = [
+  "pdf",
+  "png",
+  "jpeg",
+  "webp",
+  "svg",
+  "gif",
+  "mp4",
+  "webm",
+] as const;
+export type ExportFileType = (typeof exportFileTypes)[number];
+
+// Animated exports play the pages as a slideshow
+export const slideshowFileTypes = ["gif", "mp4", "webm"] as const satisfies ExportFileType[];
+export type SlideshowFileType = (typeof slideshowFileTypes)[number];
+
+export const slideshowTransitions = ["none", "fade", "slide"] as const;
+export type SlideshowTransition = (typeof slideshowTransitions)[number];
+
+export const slideshowOptionsSchema = z.object({
+  // Seconds each page is shown, shared between its products when highlighting
+  pageDuration: z.number().min(0.5).max(15).default(3),
+  transition: z.enum(slideshowTransitions).default("fade"),
+  highlightProducts: z.boolean().default(false),
+});
+export type SlideshowOptions = z.infer<typeof slideshowOptionsSchema>;
+
+export const exportStatuses = ["queued", "running", "completed", "failed"] as const;
+export type ExportStatus = (typeof exportStatuses)[number];
+
+export const exportJobs = pgTable(
+  "export_jobs",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull(),
+    campaignId: integer("campaign_id").notNull(),
+    userId: integer("user_id").notNull(), // requester
+    fileType: text("file_type").$type<ExportFileType>().notNull(),
+    outputFormats: jsonb("output_formats").$type<OutputFormat[]>().notNull().default([]),
+    slideshow: jsonb("slideshow").$type<SlideshowOptions>(), // animated file types only
+    status: text("status").$type<ExportStatus>().notNull().default("queued"),
+    completedPages: integer("completed_pages").notNull().default(0),
+    totalPages: integer("total_pages"),
+    fileName: text("file_name").notNull(), // without extension until the artifact is written
+    filePath: text("file_path"),
+    error: text("error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    finishedAt: timestamp("finished_at"),
+    expiresAt: timestamp("expires_at"),
+  },
+  (table) => [
+    index("export_jobs_user_created_idx").on(table.userId, table.createdAt),
+    index("export_jobs_status_idx").on(table.status),
+    index("export_jobs_expires_idx").on(table.expiresAt),
+  ]
+);
+
+// Engagement with campaigns: downloads of exports, and views, product clicks
+// and link opens on the shared brochure. `channel` is where a visitor came
+// from: the utm_source of the link, "embed" inside a store website, the
+// referring site, or "direct"; downloads are "editor".
+export const analyticsEventTypes = ["download", "page_view", "product_click", "share_open"] as const;
+export type AnalyticsEventType = (typeof analyticsEventTypes)[number];
+
+// Viewer events arrive from the public brochure; downloads are recorded on the
+// server, or reported by the editor when it captures an unsaved draft itself
+export const viewerEventTypes = [
+  "page_view",
+  "product_click",
+  "share_open",
+] as const satisfies AnalyticsEventType[];
+
+export const analyticsDimensions = ["day", "campaign", "product", "channel"] as const;
+export type AnalyticsDimension = (typeof analyticsDimensions)[number];
+
+// Campaign key of downloads of drafts that were never saved
+export const UNSAVED_CAMPAIGN_KEY = "unsaved";
+
+// Analytics days are business days
+export const ANALYTICS_TIME_ZONE = BUSINESS_TIME_ZONE;
+export const toAnalyticsDay = toBusinessDay;
+
+export const analyticsEvents = pgTable(
+  "analytics_events",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id").notNull(),
+    // Null for downloads of drafts that were never saved
+    campaignId: integer("campaign_id"),
+    type: text("type").$type<AnalyticsEventType>().notNull(),
+    channel: text("channel").notNull(),
+    utmSource: text("utm_source"),
+    utmMedium: text("utm_medium"),
+    utmCampaign: text("utm_campaign"),
+    // Product clicks: the clicked hotspot
+    campaignProductId: integer("campaign_product_id"),
+    productId: integer("product_id"),
+    // Page views: the page shown
+    pageNumber: integer("page_number"),
+    // Downloads: the exported file type
+    fileType: text("file_type"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("analytics_events_campaign_created_idx").on(table.campaignId, table.createdAt),
+    index("analytics_events_organization_created_idx").on(
+      table.organizationId,
+      table.createdAt
+    ),
+  ]
+);
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts, {
+  outcome: z.enum(loginOutcomes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  entityType: z.enum(auditEntityTypes),
+  action: z.enum(auditActions),
+  changes: z.record(z.string(), z.object({ before: z.unknown(), after: z.unknown() })),
+}).omit({
   id: true,
+  createdAt: true,
 });
 
-export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+export const insertAnalyticsEventSchema = createInsertSchema(analyticsEvents, {
+  type: z.enum(analyticsEventTypes),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Body of POST /api/public/brochures/:slug/events
+const utmValue = z.string().trim().max(100).optional();
+export const viewerEventSchema = z.object({
+  type: z.enum(viewerEventTypes),
+  pageNumber: z.number().int().positive().optional(),
+  campaignProductId: z.number().int().optional(),
+  utmSource: utmValue,
+  utmMedium: utmValue,
+  utmCampaign: utmValue,
+  referrer: z.string().max(2000).optional(),
+  embedded: z.boolean().optional(),
+  // Random per browser tab, so reloads do not count as new views
+  sessionId: z.string().trim().max(64).optional(),
+});
+
+// Body of POST /api/analytics/downloads: pages the editor captured in the
+// browser, as single images or zipped like server exports
+export const draftDownloadSchema = z.object({
+  fileType: z.enum(["png", "jpeg"]),
+});
+
+// Unsaved editor state checked by POST /api/price-conflicts. campaignId is
+// the campaign being edited, which is left out of the comparison.
+export const priceConflictCheckSchema = z.object({
+  campaignId: z.number().int().positive().optional(),
+  startDate: z.coerce.date().nullish(),
+  endDate: z.coerce.date().nullish(),
+  products: z
+    .array(z.object({ productId: z.number().int().positive(), newPrice: z.number().min(0) }))
+    .max(500),
+});
+
+// Filters accepted by GET /api/reports/products: campaigns running at some
+// point in the range, and optionally one product category
+export const productReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  category: z.string().trim().min(1).optional(),
+});
+
+// Range accepted by GET /api/analytics/:dimension; defaults to the last 30 days
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  campaignId: z.coerce.number().int().optional(),
+});
+
+// Filters accepted by GET /api/audit
+export const auditQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  campaignId: z.coerce.number().int().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const insertExportJobSchema = createInsertSchema(exportJobs, {
+  fileType: z.enum(exportFileTypes),
+  outputFormats: z.array(z.enum(outputFormats)).optional(),
+  slideshow: slideshowOptionsSchema.nullish(),
+  status: z.enum(exportStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Body of POST /api/exports
+export const createExportSchema = z.object({
+  campaignId: z.number().int(),
+  fileType: z.enum(exportFileTypes),
+  // Empty for the editor canvas
+  outputFormats: z.array(z.enum(outputFormats)).default([]),
+  slideshow: slideshowOptionsSchema.optional(),
+});
+
+export const pageImageQuerySchema = z.object({
+  format: z.enum(outputFormats).optional(),
+  width: z.coerce.number().int().min(16).max(4096).optional(),
+});
+
+// Full URLs are accepted and reduced to their origin
+export const embedOriginSchema = z
+  .string()
+  .trim()
+  .url("Enter a full address, e.g. https://shop.example.com")
+  .transform((value) => new URL(value))
+  .refine((url) => url.protocol === "https:" || url.protocol === "http:", {
+    message: "Only http and https sites can embed brochures",
+  })
+  .transform((url) => url.origin);
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  embedOrigins: z.array(embedOriginSchema).max(50).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateEmbedOriginsSchema = z.object({
+  embedOrigins: z.array(embedOriginSchema).max(50),
+});
+
+export const insertBranchSchema = createInsertSchema(branches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles),
+}).omit({
+  id: true,
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  // Dates arrive as ISO strings over JSON
+  startDate: z.coerce.date().nullish(),
+  endDate: z.coerce.date().nullish(),
+  layout: brochureLayoutSchema.nullish(),
+  status: z.enum(campaignStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  // Set through the share endpoints only
+  shareSlug: true,
+  sharedAt: true,
+});
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
 });
@@ -94,7 +539,57 @@ export const insertLogoSchema = createInsertSchema(logos).omit({
   createdAt: true,
 });
 
+// Full editor save: campaign metadata plus the complete list of placed
+// products. Items carrying the id of one of the campaign's existing
+// campaign products update it; the rest are inserted, and existing rows
+// missing from the list are removed.
+export const campaignDesignProductSchema = insertCampaignProductSchema
+  .omit({ campaignId: true })
+  .extend({ id: z.number().int().optional() });
+
+export const campaignDesignSchema = z.object({
+  campaign: insertCampaignSchema.omit({ userId: true, organizationId: true }).partial(),
+  products: z
+    .array(campaignDesignProductSchema)
+    .refine(
+      (items) => {
+        const ids = items.flatMap((item) => (item.id === undefined ? [] : [item.id]));
+        return new Set(ids).size === ids.length;
+      },
+      { message: "Duplicate campaign product ids" }
+    )
+    .refine((items) => findOverfullPages(items).length === 0, {
+      message: `A page holds at most ${MAX_ITEMS_PER_PAGE} products`,
+    }),
+});
+
 // Types
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type ExportJob = typeof exportJobs.$inferSelect;
+export type InsertExportJob = z.infer<typeof insertExportJobSchema>;
+export type CreateExport = z.infer<typeof createExportSchema>;
+export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
+export type InsertAnalyticsEvent = z.infer<typeof insertAnalyticsEventSchema>;
+export type ViewerEvent = z.infer<typeof viewerEventSchema>;
+export type DraftDownload = z.infer<typeof draftDownloadSchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type ProductReportQuery = z.infer<typeof productReportQuerySchema>;
+export type PriceConflictCheck = z.infer<typeof priceConflictCheckSchema>;
+
+export type PageImageQuery = z.infer<typeof pageImageQuerySchema>;
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type UpdateEmbedOrigins = z.infer<typeof updateEmbedOriginsSchema>;
+
+export type Branch = typeof branches.$inferSelect;
+export type InsertBranch = z.infer<typeof insertBranchSchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
@@ -107,6 +602,9 @@ export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type CampaignProduct = typeof campaignProducts.$inferSelect;
 export type InsertCampaignProduct = z.infer<typeof insertCampaignProductSchema>;
 
+export type CampaignDesignProduct = z.infer<typeof campaignDesignProductSchema>;
+export type CampaignDesign = z.infer<typeof campaignDesignSchema>;
+
 export type Template = typeof templates.$inferSelect;
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 
@@ -120,3 +618,139 @@ export const loginSchema = z.object({
 });
 
 export type LoginCredentials = z.infer<typeof loginSchema>;
+
+// User management
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+export const createUserSchema = insertUserSchema
+  .omit({ organizationId: true })
+  .extend({
+    username: z.string().trim().min(3, "Username must be at least 3 characters"),
+    name: z.string().trim().min(1, "Name is required"),
+    password: passwordSchema,
+    branchId: z.number().int().nullish(),
+  });
+
+export const updateUserSchema = createUserSchema.partial();
+
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+
+// Shared brochures, served without a login at /api/public/brochures/:slug
+export interface PublicBrochureHotspot {
+  campaignProductId: number;
+  // Cell on the page, in percent of the page size
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  originalPrice: number;
+  newPrice: number;
+  discountPercent: number;
+}
+
+export interface PublicBrochurePage {
+  pageNumber: number;
+  imageUrl: string;
+  hotspots: PublicBrochureHotspot[];
+}
+
+export interface PublicBrochure {
+  name: string;
+  companyName: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  validUntil: string | null;
+  // Page width / height
+  aspectRatio: number;
+  pages: PublicBrochurePage[];
+}
+
+// Analytics reports
+export interface AnalyticsCount {
+  key: string;
+  type: AnalyticsEventType;
+  count: number;
+}
+
+export interface AnalyticsMetrics {
+  downloads: number;
+  pageViews: number;
+  productClicks: number;
+  shareOpens: number;
+}
+
+export interface AnalyticsRow extends AnalyticsMetrics {
+  // Day (YYYY-MM-DD), campaign or product id, or channel name
+  key: string;
+  label: string;
+}
+
+export interface AnalyticsReport {
+  dimension: AnalyticsDimension;
+  from: Date;
+  to: Date;
+  totals: AnalyticsMetrics;
+  rows: AnalyticsRow[];
+}
+
+// Product performance report. Prices and discounts are averaged over every
+// placement of the product; clicks come from shared brochures.
+export interface ProductPerformance {
+  productId: number;
+  name: string;
+  category: string;
+  originalPrice: number;
+  campaignCount: number;
+  avgDiscountPercent: number;
+  maxDiscountPercent: number;
+  avgNewPrice: number;
+  // How far below the original price the average promotion price is
+  avgSavingPercent: number;
+  firstFeaturedAt: Date;
+  lastFeaturedAt: Date;
+  clicks: number;
+}
+
+export interface CategoryPerformance {
+  category: string;
+  productCount: number;
+  campaignCount: number;
+  avgDiscountPercent: number;
+  maxDiscountPercent: number;
+  clicks: number;
+}
+
+export interface ProductReport {
+  from: Date | null;
+  to: Date | null;
+  products: ProductPerformance[];
+  categories: CategoryPerformance[];
+}
+
+// The same product at another price in a published campaign that runs on at
+// least one of the same days
+export interface PriceConflict {
+  productId: number;
+  productName: string;
+  price: number;
+  conflictingPrice: number;
+  conflictingCampaign: Pick<
+    Campaign,
+    "id" | "name" | "status" | "branchId" | "startDate" | "endDate"
+  >;
+}
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    // The shared storage instance is the seeded in-memory one; suites that
+    // need Postgres create their own pglite database
+    env: { STORAGE_DRIVER: "memory" },
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});